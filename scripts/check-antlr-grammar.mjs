@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+/**
+ * ANTLR Grammar Check
+ *
+ * Exports the ANTLR 4 grammar of every supported Java version and runs
+ * antlr-ng on it (TypeScript target, into a temporary directory), so the
+ * export keeps compiling: no indirect left recursion, no tokens or loops
+ * that match the empty string.
+ * Run via: npm run check-antlr
+ *
+ * Exit code 0 = every grammar compiles without errors or warnings
+ * Exit code 1 = antlr-ng reported errors or warnings
+ */
+
+import { spawnSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JAVA_VERSIONS } from '../src/features/grammar/grammarRegistry.ts';
+import { exportGrammar, grammarFileName } from '../src/features/export/grammarFormats.ts';
+
+function main() {
+  console.log('🔍 Checking ANTLR grammar export...\n');
+
+  const dir = mkdtempSync(join(tmpdir(), 'antlr-check-'));
+  let failed = false;
+  try {
+    for (const version of JAVA_VERSIONS) {
+      const file = grammarFileName(version, 'antlr');
+      writeFileSync(join(dir, file), exportGrammar(version, 'antlr'));
+      // antlr-ng is on PATH under npm run
+      const result = spawnSync('antlr-ng', ['-Dlanguage=TypeScript', '-o', join(dir, `out-${version}`), file], {
+        cwd: dir,
+        encoding: 'utf8',
+        shell: process.platform === 'win32',
+      });
+      const output = `${result.stdout ?? ''}${result.stderr ?? ''}`.trim();
+      if (result.error || result.status !== 0 || /\b(error|warning)\(\d+\)/.test(output)) {
+        console.log(`⚠️  Java ${version}: antlr-ng rejected ${file}:`);
+        console.log(output || String(result.error));
+        console.log('');
+        failed = true;
+      } else {
+        console.log(`📊 Java ${version}: ${file} compiles\n`);
+      }
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  if (failed) {
+    console.log('❌ ANTLR grammar check FAILED');
+    console.log('   Please keep the ANTLR export free of indirect left recursion and empty matches.\n');
+    process.exit(1);
+  }
+
+  console.log('✅ ANTLR grammar check PASSED');
+  console.log('   Every exported grammar compiles with antlr-ng.\n');
+  process.exit(0);
+}
+
+main();
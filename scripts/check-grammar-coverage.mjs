@@ -2,10 +2,12 @@
 /**
  * Grammar Coverage Check
  * 
- * Detects drift between diagram factories (java25Grammar.ts) and EBNF definitions (ebnfDefinitions.ts).
+ * Detects drift between rule definitions (java25Grammar.ts) and the section lists
+ * in SECTION_RULES. Diagrams and EBNF text are both generated from the rule
+ * definitions, so every rule listed in a section must be defined and vice versa.
  * Run via: npm run check-grammar
  * 
- * Exit code 0 = all rules have both diagram and EBNF
+ * Exit code 0 = every rule is defined and listed in a section
  * Exit code 1 = coverage mismatch detected
  */
 
@@ -28,14 +30,17 @@ function extractDiagramRules(filePath) {
   return rules;
 }
 
-// Extract rule names from ebnfDefinitions.ts by parsing EBNF_DEFINITIONS keys
-function extractEbnfRules(filePath) {
+// Extract rule names listed in SECTION_RULES in java25Grammar.ts
+function extractSectionRules(filePath) {
   const content = readFileSync(filePath, 'utf8');
-  // Match object keys in the EBNF_DEFINITIONS object
-  const rulePattern = /^\s*["']([^"']+)["']\s*:/gm;
+  const start = content.indexOf('export const SECTION_RULES');
+  const end = content.indexOf('\n};', start);
+  if (start < 0 || end < 0) throw new Error('SECTION_RULES not found');
+  const block = content.slice(start, end);
+  const rulePattern = /^\s*["']([^"']+)["']\s*,/gm;
   const rules = new Set();
   let match;
-  while ((match = rulePattern.exec(content)) !== null) {
+  while ((match = rulePattern.exec(block)) !== null) {
     rules.add(match[1]);
   }
   return rules;
@@ -45,56 +50,55 @@ function main() {
   console.log('🔍 Checking grammar coverage...\n');
 
   const grammarPath = resolve(srcDir, 'java25Grammar.ts');
-  const ebnfPath = resolve(srcDir, 'ebnfDefinitions.ts');
 
-  let diagramRules, ebnfRules;
+  let diagramRules, sectionRules;
   
   try {
     diagramRules = extractDiagramRules(grammarPath);
-    console.log(`📊 Found ${diagramRules.size} diagram rules in java25Grammar.ts`);
+    console.log(`📊 Found ${diagramRules.size} rule definitions in java25Grammar.ts`);
   } catch (err) {
     console.error(`❌ Failed to read java25Grammar.ts: ${err.message}`);
     process.exit(1);
   }
 
   try {
-    ebnfRules = extractEbnfRules(ebnfPath);
-    console.log(`📝 Found ${ebnfRules.size} EBNF definitions in ebnfDefinitions.ts`);
+    sectionRules = extractSectionRules(grammarPath);
+    console.log(`📝 Found ${sectionRules.size} rules listed in SECTION_RULES`);
   } catch (err) {
-    console.error(`❌ Failed to read ebnfDefinitions.ts: ${err.message}`);
+    console.error(`❌ Failed to read SECTION_RULES: ${err.message}`);
     process.exit(1);
   }
 
   console.log('');
 
   // Find mismatches
-  const missingEbnf = [...diagramRules].filter(r => !ebnfRules.has(r)).sort();
-  const missingDiagram = [...ebnfRules].filter(r => !diagramRules.has(r)).sort();
+  const missingSection = [...diagramRules].filter(r => !sectionRules.has(r)).sort();
+  const missingDefinition = [...sectionRules].filter(r => !diagramRules.has(r)).sort();
 
   let hasErrors = false;
 
-  if (missingEbnf.length > 0) {
+  if (missingSection.length > 0) {
     hasErrors = true;
-    console.log('⚠️  Rules with DIAGRAM but NO EBNF definition:');
-    missingEbnf.forEach(r => console.log(`   - ${r}`));
+    console.log('⚠️  Rules DEFINED but NOT LISTED in SECTION_RULES:');
+    missingSection.forEach(r => console.log(`   - ${r}`));
     console.log('');
   }
 
-  if (missingDiagram.length > 0) {
+  if (missingDefinition.length > 0) {
     hasErrors = true;
-    console.log('⚠️  Rules with EBNF but NO DIAGRAM factory:');
-    missingDiagram.forEach(r => console.log(`   - ${r}`));
+    console.log('⚠️  Rules LISTED in SECTION_RULES but NOT DEFINED:');
+    missingDefinition.forEach(r => console.log(`   - ${r}`));
     console.log('');
   }
 
   if (hasErrors) {
     console.log('❌ Grammar coverage check FAILED');
-    console.log('   Please ensure every rule has both a diagram factory and EBNF definition.\n');
+    console.log('   Please ensure every rule is defined and listed in exactly one section.\n');
     process.exit(1);
   }
 
   console.log('✅ Grammar coverage check PASSED');
-  console.log('   All rules have matching diagram factories and EBNF definitions.\n');
+  console.log('   All rules are defined and listed in SECTION_RULES.\n');
   process.exit(0);
 }
 
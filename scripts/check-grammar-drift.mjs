@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+/**
+ * Grammar Drift Check
+ *
+ * Detects semantic drift between the EBNF text and the railroad diagram of
+ * every rule in every supported Java version. Each production returned by
+ * getEbnfDefinition(name, version) is parsed back into the grammar model,
+ * the object tree returned by createVersionedRuleDiagram(name, version) is
+ * walked into the same model, and the two are compared structurally
+ * (missing alternatives, optional vs. repetition, reordered items, …).
+ * Run via: npm run check-drift
+ *
+ * Exit code 0 = every diagram matches its EBNF text
+ * Exit code 1 = structural differences detected
+ */
+
+import { getEbnfDefinition } from '../src/features/grammar/ebnfDefinitions.ts';
+import {
+  JAVA_VERSIONS,
+  createVersionedRuleDiagram,
+  getGrammar,
+} from '../src/features/grammar/grammarRegistry.ts';
+import { parseEbnfProduction } from '../src/features/grammar/ebnfParser.ts';
+import { diagramToGrammar } from '../src/features/grammar/grammarToRailroad.ts';
+import { describeDifference, diffGrammar } from '../src/features/grammar/grammarDiff.ts';
+
+const LABELS = { before: 'EBNF', after: 'diagram' };
+
+function checkRule(name, version) {
+  const text = getEbnfDefinition(name, version);
+  if (text === undefined) return ['no EBNF definition'];
+
+  let production;
+  try {
+    production = parseEbnfProduction(text);
+  } catch (err) {
+    return [`EBNF does not parse: ${err.message}`];
+  }
+  if (production.name !== name) {
+    return [`EBNF production is named ${production.name}`];
+  }
+
+  let diagram;
+  try {
+    diagram = diagramToGrammar(createVersionedRuleDiagram(name, version));
+  } catch (err) {
+    return [`diagram cannot be read: ${err.message}`];
+  }
+
+  return diffGrammar(production.node, diagram).map((d) => describeDifference(d, LABELS));
+}
+
+function main() {
+  console.log('🔍 Checking grammar drift (EBNF text ↔ diagram structure)...\n');
+
+  const failures = [];
+  for (const version of JAVA_VERSIONS) {
+    const names = Array.from(getGrammar(version).rules.keys());
+    for (const name of names) {
+      const problems = checkRule(name, version);
+      if (problems.length > 0) failures.push({ name, version, problems });
+    }
+    console.log(`📊 Java ${version}: compared ${names.length} rules`);
+  }
+  console.log('');
+
+  if (failures.length > 0) {
+    for (const { name, version, problems } of failures) {
+      console.log(`⚠️  ${name} (Java ${version})`);
+      problems.forEach((p) => console.log(`   - ${p}`));
+      console.log(`     EBNF:`);
+      (getEbnfDefinition(name, version) ?? '').split('\n').forEach((line) => console.log(`       ${line}`));
+      console.log('');
+    }
+    console.log(`❌ Grammar drift check FAILED (${failures.length} rule(s) differ)`);
+    console.log('   Please make each diagram and its EBNF text describe the same production.\n');
+    process.exit(1);
+  }
+
+  console.log('✅ Grammar drift check PASSED');
+  console.log('   Every diagram matches the structure of its EBNF text.\n');
+  process.exit(0);
+}
+
+main();
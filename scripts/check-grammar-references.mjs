@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+/**
+ * Grammar Reference Check
+ *
+ * Analyzes the rule map of every supported Java version for reference
+ * integrity:
+ *   - every nonterminal used in a rule must have its own rule
+ *   - every rule should be reachable from the goal rule (CompilationUnit)
+ * Run via: npm run check-references
+ *
+ * Exit code 0 = no undefined nonterminals (unreachable rules are warnings)
+ * Exit code 1 = undefined nonterminals detected
+ */
+
+import { GOAL_RULE } from '../src/features/grammar/java25Grammar.ts';
+import { JAVA_VERSIONS, getGrammar } from '../src/features/grammar/grammarRegistry.ts';
+import { analyzeReferences } from '../src/features/grammar/grammarAnalysis.ts';
+
+function main() {
+  console.log('🔍 Checking grammar references...\n');
+
+  let failed = false;
+  for (const version of JAVA_VERSIONS) {
+    const { rules } = getGrammar(version);
+    const { undefinedNonTerminals, unreachableRules } = analyzeReferences(rules, [GOAL_RULE]);
+
+    console.log(`📊 Java ${version}: analyzed ${rules.size} rules from goal rule ${GOAL_RULE}\n`);
+
+    if (unreachableRules.length > 0) {
+      console.log(`⚠️  Java ${version} rules NOT REACHABLE from ${GOAL_RULE}:`);
+      unreachableRules.forEach((r) => console.log(`   - ${r}`));
+      console.log('');
+    }
+
+    if (undefinedNonTerminals.length > 0) {
+      console.log(`⚠️  Java ${version} nonterminals referenced but NOT DEFINED:`);
+      undefinedNonTerminals.forEach(({ name, referencedBy }) =>
+        console.log(`   - ${name} (used by ${referencedBy.join(', ')})`)
+      );
+      console.log('');
+      failed = true;
+    }
+  }
+
+  if (failed) {
+    console.log('❌ Grammar reference check FAILED');
+    console.log('   Please add a rule for every nonterminal used in a diagram.\n');
+    process.exit(1);
+  }
+
+  console.log('✅ Grammar reference check PASSED');
+  console.log('   Every referenced nonterminal has a rule.\n');
+  process.exit(0);
+}
+
+main();
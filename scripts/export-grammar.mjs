@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+/**
+ * Export Grammar
+ *
+ * Writes the grammar of a Java version as machine-usable grammar files:
+ * W3C EBNF, ISO 14977 EBNF, ABNF and an ANTLR 4 skeleton. Rules that
+ * contain JLS prose are marked PLACEHOLDER in every format.
+ * Run via: npm run export-grammar -- [options]
+ *
+ * Options:
+ *   --out <dir>                        output directory (default: grammar-export)
+ *   --version <17|21|25>               Java version (default: 25)
+ *   --format <w3c|iso|abnf|antlr|all>  repeatable or comma-separated (default: all)
+ *   --help                             show this help
+ *
+ * Exit code 0 = files written
+ * Exit code 1 = invalid options
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { resolve, join } from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_JAVA_VERSION, JAVA_VERSIONS, isJavaVersion } from '../src/features/grammar/grammarRegistry.ts';
+import { GRAMMAR_FORMATS, exportGrammar, grammarFileName } from '../src/features/export/grammarFormats.ts';
+
+const FORMAT_IDS = GRAMMAR_FORMATS.map((f) => f.id);
+
+function usage() {
+  console.log(`Usage: npm run export-grammar -- [options]
+
+Options:
+  --out <dir>          output directory (default: grammar-export)
+  --version <v>        Java version: ${JAVA_VERSIONS.join(', ')} (default: ${DEFAULT_JAVA_VERSION})
+  --format <f>         ${FORMAT_IDS.join(', ')} or all; repeatable or comma-separated (default: all)
+  --help               show this help`);
+}
+
+function fail(message) {
+  console.error(`❌ ${message}\n`);
+  usage();
+  process.exit(1);
+}
+
+function parseOptions() {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        out: { type: 'string', default: 'grammar-export' },
+        version: { type: 'string', default: DEFAULT_JAVA_VERSION },
+        format: { type: 'string', multiple: true },
+        help: { type: 'boolean', default: false },
+      },
+    }));
+  } catch (err) {
+    fail(err.message);
+  }
+
+  if (values.help) {
+    usage();
+    process.exit(0);
+  }
+
+  if (!isJavaVersion(values.version)) fail(`Unknown Java version: ${values.version}`);
+
+  let formats = (values.format ?? ['all']).flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean);
+  if (formats.includes('all')) formats = FORMAT_IDS;
+  for (const f of formats) {
+    if (!FORMAT_IDS.includes(f)) fail(`Unknown format: ${f}`);
+  }
+
+  return { out: resolve(values.out), version: values.version, formats };
+}
+
+function main() {
+  const { out, version, formats } = parseOptions();
+
+  console.log(`📝 Exporting the Java ${version} grammar to ${out}...\n`);
+  mkdirSync(out, { recursive: true });
+
+  for (const format of formats) {
+    const file = grammarFileName(version, format);
+    writeFileSync(join(out, file), exportGrammar(version, format));
+    console.log(`   - ${file}`);
+  }
+
+  console.log(`\n✅ Wrote ${formats.length} grammar file(s)\n`);
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+/**
+ * Render Diagrams
+ *
+ * Renders railroad diagrams without a browser: one standalone SVG per rule
+ * (styles embedded) plus an index.json describing every rule, for docs
+ * pipelines that embed the diagrams without running the React app.
+ * Run via: npm run render-diagrams -- [options]
+ *
+ * Options:
+ *   --out <dir>            output directory (default: diagrams); SVG files
+ *                          already in it are deleted, so it matches index.json
+ *   --version <17|21|25>   Java version (default: 25)
+ *   --section <id>         only these sections; repeatable or comma-separated
+ *   --rule <name>          only these rules; repeatable or comma-separated
+ *                          (with --section, rules must match both)
+ *   --theme <light|dark>   color theme (default: light)
+ *   --stroke-width <n>     line and border width (default: 3)
+ *   --font-family <stack>  CSS font stack for all text (should be monospace)
+ *   --help                 show this help
+ *
+ * Exit code 0 = diagrams written
+ * Exit code 1 = invalid options
+ */
+
+import { mkdirSync, readdirSync, unlinkSync, writeFileSync } from 'fs';
+import { resolve, join } from 'path';
+import { parseArgs } from 'util';
+import { SECTION_ORDER, SECTION_TITLES } from '../src/features/grammar/java25Grammar.ts';
+import {
+  DEFAULT_JAVA_VERSION,
+  JAVA_VERSIONS,
+  createVersionedRuleDiagram,
+  getGrammar,
+  isJavaVersion,
+} from '../src/features/grammar/grammarRegistry.ts';
+import { getEbnfDefinition } from '../src/features/grammar/ebnfDefinitions.ts';
+import { referencedNonTerminals } from '../src/features/grammar/grammarModel.ts';
+import { diagramToStandaloneSvg } from '../src/shared/railroad/exportDiagram.ts';
+
+const THEMES = ['light', 'dark'];
+
+function usage() {
+  console.log(`Usage: npm run render-diagrams -- [options]
+
+Options:
+  --out <dir>            output directory (default: diagrams); SVG files
+                         already in it are deleted, so it matches index.json
+  --version <${JAVA_VERSIONS.join('|')}>   Java version (default: ${DEFAULT_JAVA_VERSION})
+  --section <id>         only these sections; repeatable or comma-separated
+                         (${SECTION_ORDER.join(', ')})
+  --rule <name>          only these rules; repeatable or comma-separated
+                         (with --section, rules must match both)
+  --theme <light|dark>   color theme (default: light)
+  --stroke-width <n>     line and border width (default: 3)
+  --font-family <stack>  CSS font stack for all text (should be monospace)
+  --help                 show this help`);
+}
+
+function fail(message) {
+  console.error(`❌ ${message}\n`);
+  usage();
+  process.exit(1);
+}
+
+/** Flattens repeated and comma-separated option values. */
+function listOption(values) {
+  return (values ?? []).flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean);
+}
+
+function parseOptions() {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        out: { type: 'string', default: 'diagrams' },
+        version: { type: 'string', default: DEFAULT_JAVA_VERSION },
+        section: { type: 'string', multiple: true },
+        rule: { type: 'string', multiple: true },
+        theme: { type: 'string', default: 'light' },
+        'stroke-width': { type: 'string' },
+        'font-family': { type: 'string' },
+        help: { type: 'boolean', default: false },
+      },
+    }));
+  } catch (err) {
+    fail(err.message);
+  }
+
+  if (values.help) {
+    usage();
+    process.exit(0);
+  }
+
+  if (!isJavaVersion(values.version)) fail(`Unknown Java version: ${values.version}`);
+  const grammar = getGrammar(values.version);
+
+  const sections = listOption(values.section);
+  for (const s of sections) {
+    if (!SECTION_ORDER.includes(s)) fail(`Unknown section: ${s}`);
+  }
+  const rules = listOption(values.rule);
+  for (const r of rules) {
+    if (!grammar.rules.has(r)) fail(`Unknown rule in Java ${values.version}: ${r}`);
+  }
+
+  if (!THEMES.includes(values.theme)) fail(`Unknown theme: ${values.theme}`);
+
+  let strokeWidth;
+  if (values['stroke-width'] !== undefined) {
+    strokeWidth = Number(values['stroke-width']);
+    if (!(strokeWidth > 0)) fail(`Invalid stroke width: ${values['stroke-width']}`);
+  }
+
+  return {
+    out: resolve(values.out),
+    version: values.version,
+    grammar,
+    sections,
+    rules,
+    style: { theme: values.theme, strokeWidth, fontFamily: values['font-family'] },
+  };
+}
+
+function main() {
+  const options = parseOptions();
+  const { grammar, version, style } = options;
+
+  console.log(`🖨️  Rendering Java ${version} diagrams to ${options.out}...\n`);
+  mkdirSync(options.out, { recursive: true });
+  // Diagrams of an earlier run would not be listed in the new index.json
+  for (const file of readdirSync(options.out)) {
+    if (file.endsWith('.svg')) unlinkSync(join(options.out, file));
+  }
+
+  const entries = [];
+  for (const section of SECTION_ORDER) {
+    if (options.sections.length > 0 && !options.sections.includes(section)) continue;
+    for (const name of grammar.sectionRules[section]) {
+      if (options.rules.length > 0 && !options.rules.includes(name)) continue;
+
+      const diagram = createVersionedRuleDiagram(name, version);
+      const svg = diagramToStandaloneSvg(diagram, style);
+      const file = `${name}.svg`;
+      writeFileSync(join(options.out, file), svg);
+
+      entries.push({
+        name,
+        section,
+        file,
+        width: Number(diagram.attrs.width),
+        height: Number(diagram.attrs.height),
+        ebnf: getEbnfDefinition(name, version) ?? null,
+        references: referencedNonTerminals(grammar.rules.get(name)),
+      });
+    }
+  }
+
+  const index = {
+    version,
+    title: grammar.title,
+    theme: style.theme,
+    sections: SECTION_ORDER.filter((s) => entries.some((e) => e.section === s)).map((id) => ({
+      id,
+      title: SECTION_TITLES[id],
+    })),
+    rules: entries,
+  };
+  writeFileSync(join(options.out, 'index.json'), JSON.stringify(index, null, 2) + '\n');
+
+  if (entries.length === 0) {
+    console.log('⚠️  No rule matched the given filters; index.json lists no rules.\n');
+  } else {
+    console.log(`✅ Wrote ${entries.length} SVG file(s) and index.json\n`);
+  }
+  process.exit(0);
+}
+
+main();
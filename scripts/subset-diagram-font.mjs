@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+/**
+ * Subset Diagram Font
+ *
+ * Writes src/shared/railroad/diagramFont.ts: the DejaVu Sans Mono faces
+ * that diagram text uses (bold for boxes, italic for comments), cut down to
+ * printable ASCII, as base64 WOFF2 for the @font-face rules of exported
+ * SVGs. The built-in grammars only use ASCII; other characters fall back
+ * to the rest of the font stack. Rerun after upgrading @fontsource/dejavu-mono.
+ * Run via: npm run subset-diagram-font
+ *
+ * Exit code 0 = module written
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import subsetFont from 'subset-font';
+
+const require = createRequire(import.meta.url);
+const FONT_DIR = join(dirname(require.resolve('@fontsource/dejavu-mono/package.json')), 'files');
+const OUT = resolve(dirname(fileURLToPath(import.meta.url)), '../src/shared/railroad/diagramFont.ts');
+
+// Matches the text rules of the library's default stylesheet
+const FACES = [
+  { style: 'normal', weight: 700, file: 'dejavu-mono-latin-700-normal.woff2' },
+  { style: 'italic', weight: 400, file: 'dejavu-mono-latin-400-italic.woff2' },
+];
+
+const PRINTABLE_ASCII = Array.from({ length: 0x7f - 0x20 }, (_, i) => String.fromCharCode(0x20 + i)).join('');
+
+const faces = [];
+for (const { style, weight, file } of FACES) {
+  const woff2 = await subsetFont(readFileSync(join(FONT_DIR, file)), PRINTABLE_ASCII, { targetFormat: 'woff2' });
+  faces.push(`  { style: "${style}", weight: ${weight}, woff2: "${woff2.toString('base64')}" },`);
+}
+
+writeFileSync(
+  OUT,
+  `/**
+ * Diagram Font
+ *
+ * Generated by scripts/subset-diagram-font.mjs; do not edit. DejaVu Sans
+ * Mono (Bitstream Vera license, see @fontsource/dejavu-mono), printable
+ * ASCII only.
+ */
+
+export interface DiagramFontFace {
+  style: "normal" | "italic";
+  weight: number;
+  /** Base64 WOFF2 data. */
+  woff2: string;
+}
+
+export const DIAGRAM_FONT_FAMILY = "DejaVu Sans Mono";
+
+export const DIAGRAM_FONT_FACES: DiagramFontFace[] = [
+${faces.join('\n')}
+];
+`
+);
+console.log(`Wrote ${OUT}`);
@@ -1,10 +1,113 @@
-import { useMemo, useState, useCallback } from "react";
+import { Suspense, lazy, useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { RuleList } from "../components/RuleList";
-import { SECTION_ORDER, SECTION_RULES, SECTION_TITLES, type SectionId } from "../features/grammar/java25Grammar";
+import { CommandPalette, type Command } from "../components/CommandPalette";
+import { VersionDiffView } from "../components/VersionDiffView";
+import { DependencyGraphView } from "../components/DependencyGraphView";
+import { ExportMenu } from "../components/ExportMenu";
+import { GrammarImportView } from "../components/GrammarImportView";
+import type { RuleDrafts } from "../components/GrammarPlayground";
+import { DEFAULT_SNIPPET, SnippetValidator, type SnippetDraft } from "../components/SnippetValidator";
+import { SearchResults } from "../components/SearchResults";
+import { TerminalIndexView } from "../components/TerminalIndexView";
+import { SECTION_ORDER, SECTION_TITLES, type SectionId } from "../features/grammar/java25Grammar";
+import { JAVA_VERSIONS, getGrammar, type JavaVersion } from "../features/grammar/grammarRegistry";
+import type { ImportedGrammar } from "../features/import/importedGrammar";
+import { getSearchIndex, searchRules, type SearchMode, type SearchQuery } from "../features/search/ruleSearch";
+import { formatRoute, parseRoute, ruleHref, type Route, type RouteView } from "./routing";
+import { getJavaRuleSource } from "./ruleSources";
+import { useKeyboardShortcuts } from "./keyboardShortcuts";
+import { THEME_LABELS, applyTheme, loadTheme, type ThemeMode } from "./theme";
+
+type HistoryMode = "push" | "replace";
+
+// Loaded on first use: the playground draws its diagrams with the railroad library
+const GrammarPlayground = lazy(() =>
+  import("../components/GrammarPlayground").then((m) => ({ default: m.GrammarPlayground }))
+);
+
+const VIEW_LABELS: Record<RouteView, string> = {
+  rules: "Rules",
+  graph: "Graph",
+  terminals: "Terminals",
+  changes: "What Changed",
+  playground: "Playground",
+  validate: "Validate",
+  import: "Import",
+};
+
+const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  exact: "Exact",
+  fuzzy: "Fuzzy",
+};
+
+/** Whether any part of `el` is inside the viewport. */
+function isOnScreen(el: Element): boolean {
+  const rect = el.getBoundingClientRect();
+  return rect.bottom > 0 && rect.top < window.innerHeight;
+}
+
+/** Whether the search of `route` lets `name` through. */
+function matchesQuery(name: string, route: Route): boolean {
+  if (!route.query.trim()) return true;
+  const hits = searchRules(getSearchIndex(route.version), { text: route.query, mode: route.match ?? "exact" });
+  return hits.some((hit) => hit.rule === name);
+}
 
 export default function App() {
-  const [query, setQuery] = useState("");
-  
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location));
+  const { version, query, match } = route;
+
+  // How the next route change is written to the URL; null means the
+  // change came from the URL itself (load, Back/Forward, edited hash).
+  const historyMode = useRef<HistoryMode | null>(null);
+
+  /**
+   * Moves to a new route. Rule and section targets are dropped unless
+   * `patch` sets them again.
+   */
+  const navigate = useCallback((patch: Partial<Route>, mode: HistoryMode = "push") => {
+    historyMode.current = mode;
+    setRoute((prev) => {
+      const next: Route = { ...prev, rule: undefined, section: undefined, ...patch };
+      // Don't let the filter hide the rule we are navigating to
+      if (next.rule && !matchesQuery(next.rule, next)) next.query = "";
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const mode = historyMode.current;
+    historyMode.current = null;
+    const url = window.location.pathname + formatRoute(route);
+    if (mode && url !== window.location.pathname + window.location.search + window.location.hash) {
+      if (mode === "push") window.history.pushState(null, "", url);
+      else window.history.replaceState(null, "", url);
+    }
+  }, [route]);
+
+  useEffect(() => {
+    const onUrlChange = () => setRoute(parseRoute(window.location));
+    window.addEventListener("popstate", onUrlChange);
+    window.addEventListener("hashchange", onUrlChange);
+    return () => {
+      window.removeEventListener("popstate", onUrlChange);
+      window.removeEventListener("hashchange", onUrlChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    document.title = `Java ${version} Syntax – Railroad Diagrams`;
+  }, [version]);
+
+  const grammar = getGrammar(version);
+  const ruleSource = getJavaRuleSource(version);
+
+  // Last imported grammar file; kept here so it survives view changes
+  const [importedGrammar, setImportedGrammar] = useState<ImportedGrammar | null>(null);
+  // Playground edits, likewise
+  const [ruleDrafts, setRuleDrafts] = useState<RuleDrafts>({});
+  const [snippet, setSnippet] = useState<SnippetDraft>(DEFAULT_SNIPPET);
+
   // Track which sections are expanded (lazy rendering: collapsed by default for performance)
   const [expandedSections, setExpandedSections] = useState<Set<SectionId>>(() => {
     // Start with first section expanded for better UX
@@ -31,49 +134,207 @@ export default function App() {
     setExpandedSections(new Set());
   }, []);
 
-  const filterNames = (names: string[]) => {
-    const q = query.trim().toLowerCase();
-    if (!q) return names;
-    return names.filter((n) => n.toLowerCase().includes(q));
-  };
+  const navigateToRule = useCallback((name: string) => navigate({ view: "rules", rule: name }), [navigate]);
+
+  // Element to scroll to once its section has rendered
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+
+  // Expand the section the route points into, then scroll there
+  useEffect(() => {
+    if (route.view !== "rules") return;
+    const section =
+      route.section ?? SECTION_ORDER.find((s) => route.rule && grammar.sectionRules[s].includes(route.rule));
+    if (!section) return;
+    setExpandedSections((prev) => (prev.has(section) ? prev : new Set(prev).add(section)));
+    setScrollTarget(route.rule ? `rule-${route.rule}` : section);
+  }, [route, grammar]);
+
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(scrollTarget)?.scrollIntoView({ behavior: "smooth", block: "start" });
+    setScrollTarget(null);
+  }, [scrollTarget]);
+
+  // When filtering, auto-expand sections that have matches
+  const hasFilterQuery = query.trim().length > 0;
 
+  const search = useMemo<SearchQuery | undefined>(
+    () => (hasFilterQuery ? { text: query, mode: match ?? "exact" } : undefined),
+    [hasFilterQuery, query, match]
+  );
+  const hits = useMemo(() => (search ? searchRules(getSearchIndex(version), search) : []), [search, version]);
+
+  // Matching rules of each section, best first
   const filteredBySection: Record<SectionId, string[]> = useMemo(() => {
+    const rank = new Map(hits.map((hit, i) => [hit.rule, i]));
     const out = {} as Record<SectionId, string[]>;
-    for (const s of SECTION_ORDER) out[s] = filterNames(SECTION_RULES[s]);
+    for (const s of SECTION_ORDER) {
+      out[s] = search
+        ? grammar.sectionRules[s].filter((n) => rank.has(n)).sort((a, b) => rank.get(a)! - rank.get(b)!)
+        : grammar.sectionRules[s];
+    }
     return out;
-  }, [query]);
+  }, [search, hits, grammar]);
 
-  // When filtering, auto-expand sections that have matches
-  const hasFilterQuery = query.trim().length > 0;
+  const searchInput = useRef<HTMLInputElement>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [theme, setTheme] = useState<ThemeMode>(loadTheme);
+
+  useEffect(() => applyTheme(theme), [theme]);
+
+  /**
+   * Rendered rule diagrams, and the one the keyboard acts on: the
+   * highlighted rule if it is on screen, else the first one on screen.
+   */
+  const ruleElements = () => {
+    const rules = Array.from(document.querySelectorAll<HTMLElement>("main .rule"));
+    const highlightedRule = rules.find((el) => el.id === `rule-${route.rule}` && isOnScreen(el));
+    return { rules, current: highlightedRule ?? rules.find(isOnScreen) };
+  };
+
+  useKeyboardShortcuts({
+    togglePalette: () => setPaletteOpen((open) => !open),
+    focusSearch: () => {
+      searchInput.current?.focus();
+      searchInput.current?.select();
+    },
+    moveRule: (delta) => {
+      if (route.view !== "rules") return;
+      const { rules, current } = ruleElements();
+      const next = current ? rules[rules.indexOf(current) + delta] : rules[0];
+      if (next) navigate({ view: "rules", rule: next.id.slice("rule-".length) }, "replace");
+    },
+    toggleEbnf: () => {
+      if (route.view !== "rules") return;
+      const details = ruleElements().current?.querySelector<HTMLDetailsElement>("details.ebnf-container");
+      if (details) details.open = !details.open;
+    },
+    moveSection: (delta) => {
+      if (route.view !== "rules") return;
+      const shown = SECTION_ORDER.filter((s) => !hasFilterQuery || filteredBySection[s].length > 0);
+      // The last section scrolled to the top of the page, -1 above the first
+      const here = shown.reduce((found, s, i) => {
+        const el = document.getElementById(s);
+        return el && el.getBoundingClientRect().top <= 8 ? i : found;
+      }, -1);
+      const next = shown[here + delta];
+      if (next) navigate({ view: "rules", section: next });
+    },
+  });
+
+  // Palette entries: actions first, then sections, then every rule
+  const commands = useMemo<Command[]>(
+    () => [
+      { id: "expand-all", label: "Expand all sections", detail: "Action", run: expandAll },
+      { id: "collapse-all", label: "Collapse all sections", detail: "Action", run: collapseAll },
+      ...(Object.keys(THEME_LABELS) as ThemeMode[]).map((mode) => ({
+        id: `theme-${mode}`,
+        label: `Theme: ${THEME_LABELS[mode]}`,
+        detail: mode === theme ? "Current theme" : "Action",
+        run: () => setTheme(mode),
+      })),
+      ...(Object.keys(VIEW_LABELS) as RouteView[]).map((view) => ({
+        id: `view-${view}`,
+        label: `Go to ${VIEW_LABELS[view]}`,
+        detail: "View",
+        run: () => navigate({ view }),
+      })),
+      ...JAVA_VERSIONS.map((v) => ({
+        id: `version-${v}`,
+        label: `Switch to ${getGrammar(v).title}`,
+        detail: v === version ? "Current release" : "Java release",
+        run: () => navigate({ version: v }),
+      })),
+      ...SECTION_ORDER.map((s) => ({
+        id: `section-${s}`,
+        label: SECTION_TITLES[s],
+        detail: "Section",
+        run: () => navigate({ view: "rules", section: s }),
+      })),
+      ...SECTION_ORDER.flatMap((s) =>
+        grammar.sectionRules[s].map((name) => ({
+          id: `rule-${name}`,
+          label: name,
+          detail: SECTION_TITLES[s],
+          run: () => navigateToRule(name),
+        }))
+      ),
+    ],
+    [expandAll, collapseAll, theme, navigate, version, grammar, navigateToRule]
+  );
 
   return (
     <>
       <header>
-        <h1 style={{ margin: 0 }}>Java 25 Language Syntax – Railroad Diagrams</h1>
+        <h1 style={{ margin: 0 }}>Java {version} Language Syntax – Railroad Diagrams</h1>
         <div className="subtitle">
           Rendered from a diagram-friendly transcription of JLS Chapter 19 grammar rules (left recursion removed where needed).
         </div>
 
         <div className="toolbar">
           <input
+            ref={searchInput}
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            placeholder="Filter rules by name (e.g., ClassDeclaration, Expression)…"
-            aria-label="Filter rules"
+            onChange={(e) => navigate({ query: e.target.value }, "replace")}
+            placeholder="Search rules, terminals and comments (e.g., ClassDeclaration, sealed, but not yield)…"
+            aria-label="Search rules"
           />
+          <select
+            value={match ?? "exact"}
+            onChange={(e) => navigate({ match: e.target.value as SearchMode }, "replace")}
+            className="toolbar-select"
+            aria-label="Search mode"
+          >
+            {(Object.keys(SEARCH_MODE_LABELS) as SearchMode[]).map((m) => (
+              <option key={m} value={m}>
+                {SEARCH_MODE_LABELS[m]}
+              </option>
+            ))}
+          </select>
           <div className="toolbar-actions">
+            <select
+              value={version}
+              onChange={(e) => navigate({ version: e.target.value as JavaVersion })}
+              className="toolbar-select"
+              aria-label="Java release"
+            >
+              {JAVA_VERSIONS.map((v) => (
+                <option key={v} value={v}>
+                  {getGrammar(v).title}
+                </option>
+              ))}
+            </select>
+            {(Object.keys(VIEW_LABELS) as RouteView[]).map((view) => (
+              <button
+                key={view}
+                type="button"
+                onClick={() => navigate({ view })}
+                className="toolbar-btn"
+                aria-pressed={route.view === view}
+              >
+                {VIEW_LABELS[view]}
+              </button>
+            ))}
             <button type="button" onClick={expandAll} className="toolbar-btn">
               Expand All
             </button>
             <button type="button" onClick={collapseAll} className="toolbar-btn">
               Collapse All
             </button>
+            <ExportMenu version={version} />
           </div>
         </div>
 
         <nav>
           {SECTION_ORDER.map((s) => (
-            <a key={s} href={`#${s}`}>
+            <a
+              key={s}
+              href={formatRoute({ ...route, view: "rules", rule: undefined, section: s })}
+              onClick={(e) => {
+                e.preventDefault();
+                navigate({ view: "rules", section: s });
+              }}
+            >
               {SECTION_TITLES[s]}
             </a>
           ))}
@@ -81,7 +342,40 @@ export default function App() {
       </header>
 
       <main>
-        {SECTION_ORDER.map((s) => {
+        {/* Keyed so that switching the release starts a new comparison */}
+        {route.view === "changes" && <VersionDiffView key={version} version={version} />}
+
+        {route.view === "graph" && <DependencyGraphView version={version} onNavigate={navigateToRule} />}
+
+        {route.view === "terminals" && (
+          <TerminalIndexView
+            version={version}
+            ruleHref={(name) => ruleHref(name, version)}
+            onNavigate={navigateToRule}
+          />
+        )}
+
+        {route.view === "playground" && (
+          <Suspense fallback={null}>
+            <GrammarPlayground version={version} drafts={ruleDrafts} onDraftsChange={setRuleDrafts} />
+          </Suspense>
+        )}
+
+        {route.view === "validate" && (
+          <SnippetValidator version={version} snippet={snippet} onSnippetChange={setSnippet} onNavigate={navigateToRule} />
+        )}
+
+        {route.view === "import" && <GrammarImportView grammar={importedGrammar} onImport={setImportedGrammar} />}
+
+        {route.view === "rules" && hasFilterQuery && (
+          <SearchResults
+            hits={hits}
+            ruleHref={(name) => formatRoute({ ...route, rule: name, section: undefined })}
+            onNavigate={navigateToRule}
+          />
+        )}
+
+        {route.view === "rules" && SECTION_ORDER.map((s) => {
           const ruleCount = filteredBySection[s].length;
           const isExpanded = hasFilterQuery ? ruleCount > 0 : expandedSections.has(s);
           
@@ -105,7 +399,13 @@ export default function App() {
               {/* Lazy render: only render rules when section is expanded */}
               {isExpanded && (
                 <div id={`section-content-${s}`} className="section-content">
-                  <RuleList names={filteredBySection[s]} />
+                  <RuleList
+                    names={filteredBySection[s]}
+                    source={ruleSource}
+                    highlightedRule={route.rule}
+                    onNavigate={navigateToRule}
+                    search={search}
+                  />
                 </div>
               )}
             </section>
@@ -113,7 +413,14 @@ export default function App() {
         })}
       </main>
 
+      {paletteOpen && <CommandPalette commands={commands} onClose={() => setPaletteOpen(false)} />}
+
       <footer>
+        <div>
+          Keys: <code>Ctrl</code>/<code>⌘</code>+<code>K</code> command palette, <code>/</code> search,{" "}
+          <code>j</code>/<code>k</code> next/previous rule, <code>e</code> toggle EBNF, <code>[</code>/<code>]</code>{" "}
+          previous/next section.
+        </div>
         <div>
           Tip: Use <code>npm run dev</code> for local development, or <code>npm run build</code> then <code>npm run preview</code> to serve a production build.
         </div>
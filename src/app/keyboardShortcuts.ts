@@ -0,0 +1,65 @@
+/**
+ * Keyboard Shortcuts
+ *
+ *   Ctrl+K / ⌘K   command palette (also while typing)
+ *   /             focus the search box
+ *   j / k         next / previous rule
+ *   e             open or close the current rule's EBNF block
+ *   ] / [         next / previous section
+ *
+ * Single-key shortcuts are ignored while typing in a form field and when
+ * a modifier key is held.
+ */
+
+import { useEffect, useRef } from "react";
+
+export interface ShortcutHandlers {
+  togglePalette: () => void;
+  focusSearch: () => void;
+  /** Moves `delta` rules down (1) or up (-1). */
+  moveRule: (delta: number) => void;
+  toggleEbnf: () => void;
+  /** Moves `delta` sections down (1) or up (-1). */
+  moveSection: (delta: number) => void;
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+/** Installs the shortcuts on `window`. */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers): void {
+  // Handlers change on every render; the listener is installed once
+  const current = useRef(handlers);
+  current.current = handlers;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      const h = current.current;
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        h.togglePalette();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+
+      const actions: Record<string, () => void> = {
+        "/": h.focusSearch,
+        j: () => h.moveRule(1),
+        k: () => h.moveRule(-1),
+        e: h.toggleEbnf,
+        "]": () => h.moveSection(1),
+        "[": () => h.moveSection(-1),
+      };
+      const action = actions[e.key];
+      if (action) {
+        e.preventDefault();
+        action();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
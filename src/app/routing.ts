@@ -0,0 +1,100 @@
+/**
+ * URL Routing
+ *
+ * The app state worth sharing lives in the URL hash:
+ *
+ *   #rule-ClassBody?version=21&q=class
+ *   #?q=ClsBdy&match=fuzzy
+ *   #statements
+ *   #changes?version=21
+ *   #graph
+ *   #import
+ *   #playground
+ *   #terminals
+ *   #validate
+ *
+ * The part before `?` names a rule (`rule-<Name>`), a section id, or the
+ * "changes", "graph", "import", "playground", "terminals" or "validate"
+ * view; `version`, `q` (search query) and `match` (search mode) are
+ * optional and omitted when they have their default value. A plain
+ * `?version=` query string, as used by older links, is still understood.
+ */
+
+import { SECTION_ORDER, type SectionId } from "../features/grammar/java25Grammar";
+import { DEFAULT_JAVA_VERSION, isJavaVersion, type JavaVersion } from "../features/grammar/grammarRegistry";
+import { SEARCH_MODES, type SearchMode } from "../features/search/ruleSearch";
+
+export type RouteView = "rules" | "changes" | "graph" | "import" | "playground" | "terminals" | "validate";
+
+export interface Route {
+  view: RouteView;
+  version: JavaVersion;
+  /** Search query over rule names and productions. */
+  query: string;
+  /** How `query` is matched; defaults to "exact". */
+  match?: SearchMode;
+  /** Rule to scroll to and highlight. */
+  rule?: string;
+  /** Section to scroll to. */
+  section?: SectionId;
+}
+
+const RULE_PREFIX = "rule-";
+const VIEW_TARGETS: Exclude<RouteView, "rules">[] = ["changes", "graph", "import", "playground", "terminals", "validate"];
+
+function isViewTarget(value: string): value is Exclude<RouteView, "rules"> {
+  return (VIEW_TARGETS as string[]).includes(value);
+}
+
+function isSearchMode(value: string | null): value is SearchMode {
+  return (SEARCH_MODES as (string | null)[]).includes(value);
+}
+
+function isSectionId(value: string): value is SectionId {
+  return (SECTION_ORDER as string[]).includes(value);
+}
+
+/** Reads a route from `location.hash` (and the legacy `?version=` query). */
+export function parseRoute(location: { hash: string; search: string }): Route {
+  const hash = location.hash.replace(/^#/, "");
+  const q = hash.indexOf("?");
+  const target = decodeURIComponent(q >= 0 ? hash.slice(0, q) : hash);
+  const params = new URLSearchParams(q >= 0 ? hash.slice(q + 1) : "");
+  const version = params.get("version") ?? new URLSearchParams(location.search).get("version");
+
+  const route: Route = {
+    view: isViewTarget(target) ? target : "rules",
+    version: isJavaVersion(version) ? version : DEFAULT_JAVA_VERSION,
+    query: params.get("q") ?? "",
+  };
+  const match = params.get("match");
+  if (isSearchMode(match) && match !== "exact") route.match = match;
+  if (target.startsWith(RULE_PREFIX) && target.length > RULE_PREFIX.length) {
+    route.rule = target.slice(RULE_PREFIX.length);
+  } else if (isSectionId(target)) {
+    route.section = target;
+  }
+  return route;
+}
+
+/** Formats a route as a URL hash ("" for the default route). */
+export function formatRoute(route: Route): string {
+  const target =
+    route.view !== "rules"
+      ? route.view
+      : route.rule
+        ? RULE_PREFIX + route.rule
+        : route.section ?? "";
+  const params = new URLSearchParams();
+  if (route.version !== DEFAULT_JAVA_VERSION) params.set("version", route.version);
+  if (route.query) params.set("q", route.query);
+  if (route.match && route.match !== "exact") params.set("match", route.match);
+  const search = params.toString();
+  const hash = search ? `${target}?${search}` : target;
+  return hash ? `#${hash}` : "";
+}
+
+/** Hash linking to a rule in a version, e.g. for `href` attributes. */
+export function ruleHref(name: string, version: JavaVersion): string {
+  return formatRoute({ view: "rules", version, query: "", rule: name });
+}
@@ -0,0 +1,79 @@
+/**
+ * Rule Sources
+ *
+ * What the rule viewer (RuleList, RuleDiagram and their panels) needs to
+ * know about a grammar, so the bundled Java grammars and imported grammar
+ * files render with the same components.
+ */
+
+import type { GrammarNode } from "../features/grammar/grammarModel";
+import { SECTION_TITLES } from "../features/grammar/java25Grammar";
+import {
+  DEFAULT_JAVA_VERSION,
+  getGrammar,
+  getReferencingRules,
+  getVersionedRuleNode,
+  type JavaVersion,
+} from "../features/grammar/grammarRegistry";
+import { getEbnfDefinition } from "../features/grammar/ebnfDefinitions";
+import { generateExamples } from "../features/examples/exampleGenerator";
+import { prerenderedSvg } from "../features/diagrams/prerenderedSvg";
+import { getImportedReferencingRules, type ImportedGrammar } from "../features/import/importedGrammar";
+import { formatRoute, ruleHref } from "./routing";
+
+export interface RuleGroup {
+  title: string;
+  rules: string[];
+}
+
+export interface RuleSource {
+  /** Prefix of downloaded file names, e.g. "java25". */
+  id: string;
+  /**
+   * Whether the rules come from a user-supplied file. Their text must be
+   * escaped before SVG injection (diagramToEscapedSvgString).
+   */
+  untrusted: boolean;
+  getRuleNode(name: string): GrammarNode | undefined;
+  /** Production text shown below the diagram. */
+  getEbnf(name: string): string | undefined;
+  /** Rules that refer to `name`, grouped by section. */
+  getReferencingRules(name: string): RuleGroup[];
+  /** Generated examples of `name`; the same seed gives the same examples. */
+  getExamples?(name: string, seed: number): string[];
+  /** Diagram markup of `name` rendered at build time, if there is one. */
+  getPrerenderedSvg?(name: string): Promise<string | undefined>;
+  ruleHref(name: string): string;
+}
+
+const javaSources = new Map<JavaVersion, RuleSource>();
+
+export function getJavaRuleSource(version: JavaVersion): RuleSource {
+  if (!javaSources.has(version)) {
+    javaSources.set(version, {
+      id: `java${version}`,
+      untrusted: false,
+      getRuleNode: (name) => getVersionedRuleNode(name, version),
+      getEbnf: (name) => getEbnfDefinition(name, version),
+      getReferencingRules: (name) =>
+        getReferencingRules(name, version).map(({ section, rules }) => ({ title: SECTION_TITLES[section], rules })),
+      getExamples: (name, seed) => generateExamples(name, getGrammar(version), { seed }),
+      getPrerenderedSvg: (name) => prerenderedSvg(version, name),
+      ruleHref: (name) => ruleHref(name, version),
+    });
+  }
+  return javaSources.get(version)!;
+}
+
+export function createImportedRuleSource(grammar: ImportedGrammar): RuleSource {
+  // Imported grammars live only in memory, so links lead to the import view
+  const href = formatRoute({ view: "import", version: DEFAULT_JAVA_VERSION, query: "" });
+  return {
+    id: grammar.fileName.replace(/\.[^.]*$/, "").replace(/[^\w.-]+/g, "_") || "grammar",
+    untrusted: true,
+    getRuleNode: (name) => grammar.rules.get(name),
+    getEbnf: (name) => grammar.sourceText.get(name),
+    getReferencingRules: (name) => getImportedReferencingRules(grammar, name),
+    ruleHref: () => href,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Color Theme
+ *
+ * Dark mode is written once, as the `prefers-color-scheme: dark` block of
+ * styles.css. Choosing a theme rewrites that block's media condition so it
+ * applies always (dark), never (light) or when the system asks for it.
+ * The choice is remembered in localStorage.
+ */
+
+export type ThemeMode = "system" | "light" | "dark";
+
+export const THEME_LABELS: Record<ThemeMode, string> = {
+  system: "System",
+  light: "Light",
+  dark: "Dark",
+};
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+const MEDIA_TEXT: Record<ThemeMode, string> = {
+  system: DARK_QUERY,
+  light: "not all",
+  dark: "all",
+};
+const STORAGE_KEY = "theme";
+
+let appliedMode: ThemeMode = "system";
+
+// Rules found once; their media text no longer names the color scheme after a change
+const darkRules = new Set<CSSMediaRule>();
+
+function findDarkRules(): CSSMediaRule[] {
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Cross-origin stylesheet
+      continue;
+    }
+    for (const rule of Array.from(rules)) {
+      if (rule instanceof CSSMediaRule && rule.media.mediaText.includes("prefers-color-scheme: dark")) {
+        darkRules.add(rule);
+      }
+    }
+  }
+  return [...darkRules];
+}
+
+function isThemeMode(value: string | null): value is ThemeMode {
+  return value === "system" || value === "light" || value === "dark";
+}
+
+/** The remembered theme, "system" if none. */
+export function loadTheme(): ThemeMode {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isThemeMode(stored) ? stored : "system";
+  } catch {
+    return "system";
+  }
+}
+
+/** Whether the page currently shows the light or the dark theme. */
+export function activeColorScheme(): "light" | "dark" {
+  if (appliedMode !== "system") return appliedMode;
+  return window.matchMedia(DARK_QUERY).matches ? "dark" : "light";
+}
+
+/** Applies a theme to the page and remembers it. */
+export function applyTheme(mode: ThemeMode): void {
+  appliedMode = mode;
+  for (const rule of findDarkRules()) rule.media.mediaText = MEDIA_TEXT[mode];
+  // Native controls and scrollbars follow color-scheme
+  document.documentElement.style.colorScheme = mode === "system" ? "" : mode;
+  try {
+    if (mode === "system") localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Storage may be disabled; the theme still applies to this page
+  }
+}
@@ -0,0 +1,120 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+import { matchText, type TextMatch } from "../features/search/ruleSearch";
+import { MarkedText } from "./MarkedText";
+
+export interface Command {
+  id: string;
+  label: string;
+  /** Shown next to the label, e.g. "Rule" or the section of a rule. */
+  detail: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  /** In the order shown before anything is typed. */
+  commands: Command[];
+  onClose: () => void;
+}
+
+const MAX_ITEMS = 50;
+
+/**
+ * Modal list of commands filtered by a fuzzy query: ↑/↓ choose, Enter
+ * runs the chosen command, Escape or a click outside closes the palette.
+ * Focus returns to where it was when the palette closes.
+ */
+export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const list = useRef<HTMLUListElement>(null);
+
+  const items = useMemo(() => {
+    if (!query.trim()) return commands.slice(0, MAX_ITEMS).map((command) => ({ command, match: undefined }));
+    const matched: { command: Command; match: TextMatch | undefined }[] = [];
+    for (const command of commands) {
+      const match = matchText(command.label, { text: query, mode: "fuzzy" });
+      if (match) matched.push({ command, match });
+    }
+    // Equally good matches: shorter labels first, then the commands' order (the sort is stable)
+    return matched
+      .sort((a, b) => b.match!.quality - a.match!.quality || a.command.label.length - b.command.label.length)
+      .slice(0, MAX_ITEMS);
+  }, [commands, query]);
+
+  const activeIndex = Math.min(active, Math.max(items.length - 1, 0));
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    return () => previous?.focus({ preventScroll: true });
+  }, []);
+
+  useEffect(() => {
+    list.current?.children[activeIndex]?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const run = (command: Command) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((activeIndex + step + items.length) % Math.max(items.length, 1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (items[activeIndex]) run(items[activeIndex].command);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="palette-backdrop" onMouseDown={onClose}>
+      <div
+        className="palette"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActive(0);
+          }}
+          onKeyDown={handleKeyDown}
+          className="palette-input"
+          placeholder="Jump to a rule or section, or run a command…"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="palette-list"
+          aria-activedescendant={items[activeIndex] ? `palette-${items[activeIndex].command.id}` : undefined}
+        />
+        <ul id="palette-list" ref={list} className="palette-list" role="listbox">
+          {items.map(({ command, match }, i) => (
+            <li
+              key={command.id}
+              id={`palette-${command.id}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              className={i === activeIndex ? "palette-item active" : "palette-item"}
+              onMouseMove={() => i !== activeIndex && setActive(i)}
+              onClick={() => run(command)}
+            >
+              <span>
+                <MarkedText text={command.label} ranges={match?.ranges ?? []} />
+              </span>
+              <span className="palette-detail">{command.detail}</span>
+            </li>
+          ))}
+          {items.length === 0 && <li className="palette-empty">No matches</li>}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useMemo, useState } from "react";
+import { SECTION_ORDER, SECTION_TITLES, type SectionId } from "../features/grammar/java25Grammar";
+import { getGrammar, type JavaVersion } from "../features/grammar/grammarRegistry";
+import { neighborhood } from "../features/grammar/grammarAnalysis";
+import {
+  HEADER_HEIGHT,
+  NODE_HEIGHT,
+  edgePath,
+  getReferenceGraph,
+  layoutDependencyGraph,
+} from "../features/graph/dependencyGraph";
+
+interface DependencyGraphViewProps {
+  version: JavaVersion;
+  /** Opens a rule's diagram. */
+  onNavigate: (name: string) => void;
+}
+
+const MAX_HOPS = 5;
+
+/** Fill color of a section's nodes; hues are spread evenly over the sections. */
+function sectionColor(section: SectionId): string {
+  const hue = Math.round((SECTION_ORDER.indexOf(section) * 360) / SECTION_ORDER.length);
+  return `hsl(${hue}, 70%, 85%)`;
+}
+
+/**
+ * Node-link diagram of which rule refers to which, one column per section.
+ * Rules in recursive cycles (strongly connected components) are outlined.
+ * Clicking a rule focuses the graph on its N-hop neighborhood.
+ */
+export function DependencyGraphView({ version, onNavigate }: DependencyGraphViewProps) {
+  const grammar = getGrammar(version);
+  const [focus, setFocus] = useState<string | null>(null);
+  const [hops, setHops] = useState(1);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const focused = focus && grammar.rules.has(focus) ? focus : null;
+
+  const layout = useMemo(() => {
+    const visible = focused ? neighborhood(getReferenceGraph(grammar), focused, hops) : undefined;
+    return layoutDependencyGraph(grammar, visible);
+  }, [grammar, focused, hops]);
+
+  const byName = useMemo(() => new Map(layout.nodes.map((n) => [n.name, n])), [layout]);
+  const recursiveCount = layout.components.reduce((n, c) => n + c.length, 0);
+  const active = hovered ?? focused;
+
+  return (
+    <div className="graph-view">
+      <div className="graph-controls">
+        <input
+          list="graph-rule-names"
+          value={focus ?? ""}
+          onChange={(e) => setFocus(e.target.value || null)}
+          placeholder="Focus on a rule…"
+          aria-label="Focus on rule"
+        />
+        <datalist id="graph-rule-names">
+          {Array.from(grammar.rules.keys(), (name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+        <label>
+          Hops{" "}
+          <select value={hops} onChange={(e) => setHops(Number(e.target.value))} className="toolbar-select">
+            {Array.from({ length: MAX_HOPS }, (_, i) => (
+              <option key={i + 1} value={i + 1}>
+                {i + 1}
+              </option>
+            ))}
+          </select>
+        </label>
+        {focused && (
+          <>
+            <button type="button" className="toolbar-btn" onClick={() => onNavigate(focused)}>
+              Open {focused}
+            </button>
+            <button type="button" className="toolbar-btn" onClick={() => setFocus(null)}>
+              Show All
+            </button>
+          </>
+        )}
+        <span className="rule-count">
+          {layout.nodes.length} rules, {layout.edges.length} references; {recursiveCount} rules in{" "}
+          {layout.components.length} recursive cycle{layout.components.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      <ul className="graph-legend">
+        {SECTION_ORDER.map((s) => (
+          <li key={s}>
+            <span className="graph-swatch" style={{ background: sectionColor(s) }} />
+            {SECTION_TITLES[s]}
+          </li>
+        ))}
+        <li>
+          <span className="graph-swatch graph-swatch-recursive" />
+          Part of a recursive cycle
+        </li>
+      </ul>
+
+      <div className="graph-scroll">
+        <svg
+          className="dependency-graph"
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          role="img"
+          aria-label={`Rule reference graph for Java ${version}`}
+        >
+          {layout.columns.map((c) => (
+            <text key={c.section} className="graph-column-title" x={c.x} y={HEADER_HEIGHT}>
+              {SECTION_TITLES[c.section]}
+            </text>
+          ))}
+
+          <g className="graph-edges">
+            {layout.edges.map(({ from, to, recursive }) => {
+              const classes = ["graph-edge"];
+              if (recursive) classes.push("recursive");
+              if (active && (from === active || to === active)) classes.push("active");
+              return (
+                <path key={`${from}->${to}`} className={classes.join(" ")} d={edgePath(byName.get(from)!, byName.get(to)!)} />
+              );
+            })}
+          </g>
+
+          {layout.nodes.map((node) => {
+            const classes = ["graph-node"];
+            if (node.component !== undefined) classes.push("recursive");
+            if (node.name === focused) classes.push("focused");
+            return (
+              <g
+                key={node.name}
+                className={classes.join(" ")}
+                transform={`translate(${node.x},${node.y})`}
+                tabIndex={0}
+                role="button"
+                aria-label={`Focus on ${node.name}`}
+                onClick={() => setFocus(node.name)}
+                onDoubleClick={() => onNavigate(node.name)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") onNavigate(node.name);
+                  else if (e.key === " ") {
+                    e.preventDefault();
+                    setFocus(node.name);
+                  }
+                }}
+                onMouseEnter={() => setHovered(node.name)}
+                onMouseLeave={() => setHovered(null)}
+              >
+                <title>{`${node.name} – click to focus, double-click to open`}</title>
+                <rect width={node.width} height={NODE_HEIGHT} rx={4} style={{ fill: sectionColor(node.section) }} />
+                <text x={node.width / 2} y={NODE_HEIGHT / 2 + 4}>
+                  {node.name}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import type { RuleSource } from "../app/ruleSources";
+import { activeColorScheme } from "../app/theme";
+
+interface DiagramActionsProps {
+  name: string;
+  source: RuleSource;
+}
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+/**
+ * Export buttons for one rule's diagram: standalone SVG download, PNG
+ * download at a chosen scale, and copying the SVG markup to the clipboard.
+ * Exports take the page's current theme. The exported SVG carries its own
+ * stylesheet and an ASCII subset of its font, so it looks the same outside
+ * this page. The railroad library is loaded on the first export.
+ */
+export function DiagramActions({ name, source }: DiagramActionsProps) {
+  const [scale, setScale] = useState(2);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadExport = () => import("../shared/railroad/exportDiagram");
+  const standaloneSvg = async () => {
+    const [{ grammarToDiagram }, { diagramToStandaloneSvg }] = await Promise.all([
+      import("../features/grammar/grammarToRailroad"),
+      loadExport(),
+    ]);
+    return diagramToStandaloneSvg(grammarToDiagram(source.getRuleNode(name)!), { theme: activeColorScheme() });
+  };
+  const baseName = `${source.id}-${name}`;
+
+  const showStatus = (message: string) => {
+    setStatus(message);
+    setTimeout(() => setStatus(null), 2000);
+  };
+
+  const downloadSvg = async () => {
+    try {
+      const { downloadBlob } = await loadExport();
+      downloadBlob(new Blob([await standaloneSvg()], { type: "image/svg+xml" }), `${baseName}.svg`);
+    } catch (err: any) {
+      showStatus(`SVG export failed: ${err?.message ?? String(err)}`);
+    }
+  };
+
+  const downloadPng = async () => {
+    try {
+      const { downloadBlob, svgToPngBlob, themeBackground } = await loadExport();
+      const background = themeBackground(activeColorScheme());
+      downloadBlob(await svgToPngBlob(await standaloneSvg(), scale, background), `${baseName}@${scale}x.png`);
+    } catch (err: any) {
+      showStatus(`PNG export failed: ${err?.message ?? String(err)}`);
+    }
+  };
+
+  const copySvg = async () => {
+    try {
+      await navigator.clipboard.writeText(await standaloneSvg());
+      showStatus("SVG copied");
+    } catch {
+      showStatus("Copy failed");
+    }
+  };
+
+  return (
+    <div className="diagram-actions">
+      <button type="button" className="toolbar-btn" onClick={downloadSvg} title="Download a standalone SVG in the current theme">
+        SVG
+      </button>
+      <button type="button" className="toolbar-btn" onClick={downloadPng} title="Download a PNG at the chosen scale">
+        PNG
+      </button>
+      <select
+        value={scale}
+        onChange={(e) => setScale(Number(e.target.value))}
+        className="toolbar-select"
+        aria-label="PNG scale"
+      >
+        {PNG_SCALES.map((s) => (
+          <option key={s} value={s}>
+            {s}×
+          </option>
+        ))}
+      </select>
+      <button type="button" className="toolbar-btn" onClick={copySvg} title="Copy the SVG markup">
+        Copy SVG
+      </button>
+      {status && (
+        <span className="diagram-actions-status" role="status">
+          {status}
+        </span>
+      )}
+    </div>
+  );
+}
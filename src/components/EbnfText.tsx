@@ -0,0 +1,39 @@
+import type { TextRange } from "../features/search/ruleSearch";
+import { MarkedText } from "./MarkedText";
+
+interface EbnfTextProps {
+  text: string;
+  /** Whether a nonterminal has a rule that can be linked to. */
+  isRule: (name: string) => boolean;
+  /** Link target of a rule; defaults to `#rule-<Name>`. */
+  hrefOf?: (name: string) => string;
+  /** Ranges of `text` to mark, e.g. search matches; sorted and disjoint. */
+  highlights?: TextRange[];
+}
+
+const WORD = /([A-Za-z_][A-Za-z0-9_]*)/;
+
+/**
+ * EBNF production text in which every nonterminal that has a rule is a
+ * link carrying `data-rule`, so the caller can handle
+ * clicks and hovers on the whole block.
+ */
+export function EbnfText({ text, isRule, hrefOf = (name) => `#rule-${name}`, highlights = [] }: EbnfTextProps) {
+  const parts = text.split(WORD);
+  let offset = 0;
+  return (
+    <pre className="ebnf-code">
+      {parts.map((part, i) => {
+        const start = offset;
+        offset += part.length;
+        return i % 2 === 1 && isRule(part) ? (
+          <a key={i} href={hrefOf(part)} className="ebnf-ref" data-rule={part}>
+            <MarkedText text={part} ranges={highlights} offset={start} />
+          </a>
+        ) : (
+          <MarkedText key={i} text={part} ranges={highlights} offset={start} />
+        );
+      })}
+    </pre>
+  );
+}
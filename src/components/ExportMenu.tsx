@@ -0,0 +1,47 @@
+import {
+  GRAMMAR_FORMATS,
+  exportGrammar,
+  grammarFileName,
+  type GrammarFormat,
+} from "../features/export/grammarFormats";
+import type { JavaVersion } from "../features/grammar/grammarRegistry";
+
+const BOOK = "book";
+
+/**
+ * Downloads the whole grammar of a version: the printable HTML book or a
+ * grammar file in one of the GRAMMAR_FORMATS. Both the book and the
+ * download helper come with the railroad library, loaded on first use.
+ */
+export function ExportMenu({ version }: { version: JavaVersion }) {
+  const exportAs = async (choice: string) => {
+    const { downloadBlob } = await import("../shared/railroad/exportDiagram");
+    if (choice === BOOK) {
+      const { renderGrammarBook } = await import("../features/export/grammarBook");
+      const html = renderGrammarBook(version);
+      downloadBlob(new Blob([html], { type: "text/html" }), `java${version}-grammar.html`);
+    } else {
+      const format = choice as GrammarFormat;
+      downloadBlob(new Blob([exportGrammar(version, format)], { type: "text/plain" }), grammarFileName(version, format));
+    }
+  };
+
+  return (
+    <select
+      value=""
+      onChange={(e) => exportAs(e.target.value)}
+      className="toolbar-select"
+      aria-label="Export grammar"
+    >
+      <option value="" disabled>
+        Export…
+      </option>
+      <option value={BOOK}>Printable book (HTML)</option>
+      {GRAMMAR_FORMATS.map((f) => (
+        <option key={f.id} value={f.id}>
+          {f.label} ({f.extension})
+        </option>
+      ))}
+    </select>
+  );
+}
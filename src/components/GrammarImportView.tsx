@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useMemo, useState, type ChangeEvent, type DragEvent } from "react";
+import { RuleList } from "./RuleList";
+import { createImportedRuleSource } from "../app/ruleSources";
+import {
+  IMPORT_FORMAT_LABELS,
+  MAX_IMPORT_SIZE,
+  importGrammar,
+  type ImportedGrammar,
+} from "../features/import/importedGrammar";
+
+interface GrammarImportViewProps {
+  /** The current import; kept by the caller so it survives view changes. */
+  grammar: ImportedGrammar | null;
+  onImport: (grammar: ImportedGrammar) => void;
+}
+
+/**
+ * "Import" page: open or drop a W3C EBNF or JLS-style grammar file and
+ * browse it with the same rule diagrams as the Java grammars. Parse errors
+ * are reported with their line and column; nothing is imported then.
+ */
+export function GrammarImportView({ grammar, onImport }: GrammarImportViewProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [highlightedRule, setHighlightedRule] = useState<string | undefined>();
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+
+  const source = useMemo(() => (grammar ? createImportedRuleSource(grammar) : null), [grammar]);
+
+  useEffect(() => {
+    setExpanded(new Set(grammar ? [grammar.sections[0].id] : []));
+    setHighlightedRule(undefined);
+  }, [grammar]);
+
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(scrollTarget)?.scrollIntoView({ behavior: "smooth", block: "start" });
+    setScrollTarget(null);
+  }, [scrollTarget]);
+
+  const readFile = async (file: File) => {
+    if (file.size > MAX_IMPORT_SIZE) {
+      setError(`${file.name} is larger than ${MAX_IMPORT_SIZE / 1024} KB.`);
+      return;
+    }
+    try {
+      onImport(importGrammar(await file.text(), file.name));
+      setError(null);
+    } catch (err: any) {
+      setError(`${file.name}: ${err?.message ?? String(err)}`);
+    }
+  };
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) readFile(file);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) readFile(file);
+  };
+
+  const toggleSection = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const navigateToRule = useCallback(
+    (name: string) => {
+      const section = grammar?.sections.find((s) => s.rules.includes(name));
+      if (!section) return;
+      setExpanded((prev) => (prev.has(section.id) ? prev : new Set(prev).add(section.id)));
+      setHighlightedRule(name);
+      setScrollTarget(`rule-${name}`);
+    },
+    [grammar]
+  );
+
+  return (
+    <div className="grammar-import-view">
+      <label
+        className={dragging ? "import-drop-zone dragging" : "import-drop-zone"}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <input type="file" accept=".ebnf,.bnf,.txt,text/plain" onChange={handleChange} />
+        <span>
+          Drop a W3C EBNF (<code>Name ::= …</code>) or JLS-style (<code>Name:</code>) grammar file here, or click
+          to open one.
+        </span>
+      </label>
+
+      {error && (
+        <p className="import-error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {grammar && source && (
+        <>
+          <p className="import-summary">
+            <strong>{grammar.fileName}</strong>: {grammar.rules.size} rules in {grammar.sections.length} sections (
+            {IMPORT_FORMAT_LABELS[grammar.format]})
+          </p>
+          {grammar.undefinedRules.length > 0 && (
+            <p className="import-warning">References without a production: {grammar.undefinedRules.join(", ")}</p>
+          )}
+
+          {grammar.sections.map((section) => {
+            const isExpanded = expanded.has(section.id);
+            return (
+              <section key={section.id} id={section.id} className="grammar-section">
+                <button
+                  type="button"
+                  className="section-header"
+                  onClick={() => toggleSection(section.id)}
+                  aria-expanded={isExpanded}
+                  aria-controls={`section-content-${section.id}`}
+                >
+                  <span className={`section-chevron ${isExpanded ? "expanded" : ""}`}>▶</span>
+                  <h2>{section.title}</h2>
+                  <span className="rule-count">({section.rules.length} rules)</span>
+                </button>
+
+                {isExpanded && (
+                  <div id={`section-content-${section.id}`} className="section-content">
+                    <RuleList
+                      names={section.rules}
+                      source={source}
+                      highlightedRule={highlightedRule}
+                      onNavigate={navigateToRule}
+                    />
+                  </div>
+                )}
+              </section>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
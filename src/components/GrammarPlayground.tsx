@@ -0,0 +1,170 @@
+import { useDeferredValue, useMemo, useRef, useState } from "react";
+import { SECTION_ORDER, SECTION_TITLES } from "../features/grammar/java25Grammar";
+import { getGrammar, type JavaVersion } from "../features/grammar/grammarRegistry";
+import { getEbnfDefinition } from "../features/grammar/ebnfDefinitions";
+import { grammarToDiagram } from "../features/grammar/grammarToRailroad";
+import { checkRuleDraft, type DraftProblem } from "../features/playground/ruleDraft";
+import { diagramToEscapedSvgString } from "../shared/railroad/diagramToSvg";
+
+/** Edited rule text keyed by `<version>:<rule>`. */
+export type RuleDrafts = Record<string, string>;
+
+interface GrammarPlaygroundProps {
+  version: JavaVersion;
+  /** Kept by the caller so drafts survive view changes. */
+  drafts: RuleDrafts;
+  onDraftsChange: (update: (drafts: RuleDrafts) => RuleDrafts) => void;
+}
+
+/** Select value of the new-rule draft; rule names never start with "<". */
+const NEW_RULE = "<new>";
+const NEW_RULE_TEMPLATE = "NewRule:\n    ";
+
+/** Offset of a 1-based line and column in `text`. */
+function offsetOf(text: string, line: number, column: number): number {
+  const lines = text.split("\n");
+  let offset = 0;
+  for (let i = 0; i < line - 1 && i < lines.length; i++) offset += lines[i].length + 1;
+  return offset + column - 1;
+}
+
+/**
+ * Grammar playground: edit the EBNF of any rule, or write a new one, and
+ * see its railroad diagram re-render while typing. Parse errors and
+ * nonterminals that name no rule of the selected version are listed with
+ * their line and column; unknown nonterminals are also marked in the
+ * diagram. Drafts are kept per rule until reset.
+ */
+export function GrammarPlayground({ version, drafts, onDraftsChange }: GrammarPlaygroundProps) {
+  const grammar = getGrammar(version);
+  const firstRule = grammar.sectionRules[SECTION_ORDER[0]][0];
+  const [selected, setSelected] = useState(firstRule);
+  const editor = useRef<HTMLTextAreaElement>(null);
+
+  const rule = selected === NEW_RULE || grammar.rules.has(selected) ? selected : firstRule;
+  const key = `${version}:${rule}`;
+  const original = rule === NEW_RULE ? NEW_RULE_TEMPLATE : getEbnfDefinition(rule, version)!;
+  const text = drafts[key] ?? original;
+  const modified = key in drafts;
+
+  // Parse and render at a lower priority than the keystrokes themselves
+  const deferredText = useDeferredValue(text);
+  const check = useMemo(() => checkRuleDraft(deferredText, grammar.rules), [deferredText, grammar]);
+
+  // While the draft does not parse, keep showing the last diagram that did
+  const lastSvg = useRef<{ key: string; svg: string } | null>(null);
+  const svg = useMemo(() => {
+    if (!check.production) return lastSvg.current?.key === key ? lastSvg.current.svg : null;
+    const unknown = new Set(check.unknown.map((u) => u.name));
+    const diagram = grammarToDiagram(check.production.node, {
+      classOf: (node) => (node.kind === "nonterminal" && unknown.has(node.name) ? "playground-unknown" : undefined),
+    });
+    // Typed text is user input: escape it like an imported grammar
+    lastSvg.current = { key, svg: diagramToEscapedSvgString(diagram) };
+    return lastSvg.current.svg;
+  }, [check, key]);
+
+  const reset = () =>
+    onDraftsChange((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+
+  const setText = (value: string) => {
+    if (value === original) reset();
+    else onDraftsChange((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const jumpTo = (problem: DraftProblem, length = 1) => {
+    const el = editor.current;
+    if (!el) return;
+    const start = offsetOf(text, problem.line, problem.column);
+    el.focus();
+    el.setSelectionRange(start, start + length);
+  };
+
+  const errorLine = check.error ? deferredText.split(/\r?\n/)[check.error.line - 1] ?? "" : "";
+
+  return (
+    <div className="playground">
+      <div className="playground-controls">
+        <select
+          value={rule}
+          onChange={(e) => setSelected(e.target.value)}
+          className="toolbar-select"
+          aria-label="Rule to edit"
+        >
+          <option value={NEW_RULE}>New rule</option>
+          {SECTION_ORDER.map((s) => (
+            <optgroup key={s} label={SECTION_TITLES[s]}>
+              {grammar.sectionRules[s].map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                  {`${version}:${name}` in drafts ? " (edited)" : ""}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button type="button" className="toolbar-btn" onClick={reset} disabled={!modified}>
+          Reset to Original
+        </button>
+        <span className="rule-count">{modified ? "Modified" : "Unchanged"}</span>
+      </div>
+
+      <div className="playground-columns">
+        <div className="playground-editor">
+          <textarea
+            ref={editor}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="playground-input"
+            spellCheck={false}
+            rows={Math.max(8, text.split("\n").length + 1)}
+            aria-label="EBNF of the rule"
+            aria-invalid={check.error !== undefined}
+          />
+
+          {(check.error || check.unknown.length > 0) && (
+            <ul className="playground-problems">
+              {check.error && (
+                <li className="playground-error">
+                  <button type="button" className="playground-position" onClick={() => jumpTo(check.error!)}>
+                    Line {check.error.line}, column {check.error.column}
+                  </button>
+                  : {check.error.message}
+                  <pre className="playground-excerpt">
+                    {errorLine}
+                    {"\n"}
+                    {" ".repeat(Math.max(check.error.column - 1, 0))}^
+                  </pre>
+                </li>
+              )}
+              {check.unknown.map((u) => (
+                <li key={u.name} className="playground-warning">
+                  <button type="button" className="playground-position" onClick={() => jumpTo(u, u.name.length)}>
+                    Line {u.line}, column {u.column}
+                  </button>
+                  : {u.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className={check.error ? "playground-preview stale" : "playground-preview"}>
+          {svg ? (
+            <div
+              className="svgwrap"
+              // Trust boundary: the diagram is serialized by diagramToEscapedSvgString().
+              dangerouslySetInnerHTML={{ __html: svg }}
+            />
+          ) : (
+            <p className="version-diff-missing">Write a production like “Name:” followed by indented alternatives.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
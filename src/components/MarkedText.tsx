@@ -0,0 +1,30 @@
+import type { ReactNode } from "react";
+import type { TextRange } from "../features/search/ruleSearch";
+
+interface MarkedTextProps {
+  text: string;
+  /** Ranges to mark, sorted and disjoint. */
+  ranges: TextRange[];
+  /** Where `text` starts in the string the ranges refer to. */
+  offset?: number;
+}
+
+/** `text` with the characters inside `ranges` wrapped in `<mark>`. */
+export function MarkedText({ text, ranges, offset = 0 }: MarkedTextProps) {
+  const out: ReactNode[] = [];
+  let pos = 0;
+  for (const range of ranges) {
+    const start = Math.max(range.start - offset, pos);
+    const end = Math.min(range.end - offset, text.length);
+    if (end <= start) continue;
+    if (start > pos) out.push(text.slice(pos, start));
+    out.push(
+      <mark key={start} className="search-mark">
+        {text.slice(start, end)}
+      </mark>
+    );
+    pos = end;
+  }
+  if (pos < text.length) out.push(text.slice(pos));
+  return <>{out}</>;
+}
@@ -0,0 +1,177 @@
+import { useMemo, useState, type MouseEvent } from "react";
+import { getVersionedRuleNode, type JavaVersion } from "../features/grammar/grammarRegistry";
+import { grammarToDiagram } from "../features/grammar/grammarToRailroad";
+import type { ParseNode } from "../features/parser/snippetValidator";
+import { diagramToSvgString } from "../shared/railroad/diagramToSvg";
+import { ruleNameAt } from "../shared/railroad/ruleNameAt";
+
+interface ParseTreeViewProps {
+  version: JavaVersion;
+  /** The parsed snippet; node offsets refer to it. */
+  source: string;
+  tree: ParseNode;
+  onNavigate: (ruleName: string) => void;
+}
+
+/** Child indices from the root; survives re-parsing while the snippet is edited. */
+type NodePath = number[];
+
+const MAX_EXCERPT = 40;
+/** Larger trees start collapsed. */
+const MAX_OPEN_NODES = 400;
+
+/** Number of nodes in `tree`, counting no further than `limit`. */
+function countNodes(tree: ParseNode, limit: number): number {
+  let count = 0;
+  const stack = [tree];
+  while (stack.length > 0 && count < limit) {
+    count++;
+    for (const child of stack.pop()!.children) stack.push(child);
+  }
+  return count;
+}
+
+function nodeAt(tree: ParseNode, path: NodePath): ParseNode {
+  let node = tree;
+  for (const i of path) {
+    if (!node.children[i]) break;
+    node = node.children[i];
+  }
+  return node;
+}
+
+/** The valid prefix of `path` in `tree`. */
+function clampPath(tree: ParseNode, path: NodePath): NodePath {
+  const valid: NodePath = [];
+  let node = tree;
+  for (const i of path) {
+    if (!node.children[i]) break;
+    node = node.children[i];
+    valid.push(i);
+  }
+  return valid;
+}
+
+function excerpt(source: string, node: ParseNode): string {
+  const text = source.slice(node.start, node.end).replace(/\s+/g, " ");
+  return text.length > MAX_EXCERPT ? `${text.slice(0, MAX_EXCERPT - 1)}…` : text;
+}
+
+/**
+ * Parse tree of an accepted snippet next to the diagram of the selected
+ * rule, with the path the snippet took through it highlighted: the boxes
+ * it matched stand out, the rest is dimmed, and every loop is labelled
+ * with its number of iterations. Clicking a nonterminal box selects that
+ * rule's node in the tree.
+ */
+export function ParseTreeView({ version, source, tree, onNavigate }: ParseTreeViewProps) {
+  const [selectedPath, setSelectedPath] = useState<NodePath>([]);
+  // Nodes, by path, that the user opened or closed against the default
+  const [toggled, setToggled] = useState<Set<string>>(() => new Set());
+  const openByDefault = useMemo(() => countNodes(tree, MAX_OPEN_NODES + 1) <= MAX_OPEN_NODES, [tree]);
+  const isOpen = (key: string) => openByDefault !== toggled.has(key);
+
+  const path = clampPath(tree, selectedPath);
+  const selected = nodeAt(tree, path);
+
+  const svg = useMemo(() => {
+    const node = getVersionedRuleNode(selected.rule, version);
+    if (!node) return null;
+    const diagram = grammarToDiagram(node, {
+      classOf: (n) => (selected.taken.has(n) ? "parse-taken" : undefined),
+      repeatLabelOf: (n) => {
+        const count = selected.iterations.get(n);
+        return count ? `×${count}` : undefined;
+      },
+    });
+    return diagramToSvgString(diagram);
+  }, [selected, version]);
+
+  const select = (next: NodePath) => {
+    setSelectedPath(next);
+    // Open the way to the new selection
+    setToggled((prev) => {
+      const result = new Set(prev);
+      for (let i = 0; i < next.length; i++) {
+        const key = next.slice(0, i).join(".");
+        if (openByDefault) result.delete(key);
+        else result.add(key);
+      }
+      return result;
+    });
+  };
+
+  const toggle = (key: string) =>
+    setToggled((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const handleDiagramClick = (e: MouseEvent) => {
+    const name = ruleNameAt(e.target);
+    const index = selected.children.findIndex((child) => child.rule === name);
+    if (index >= 0) select([...path, index]);
+  };
+
+  const renderNode = (node: ParseNode, nodePath: NodePath) => {
+    const key = nodePath.join(".");
+    const open = isOpen(key);
+    const isSelected = key === path.join(".");
+    return (
+      <li key={key}>
+        {node.children.length > 0 ? (
+          <button
+            type="button"
+            className="parse-tree-toggle"
+            onClick={() => toggle(key)}
+            aria-expanded={open}
+            aria-label={open ? `Collapse ${node.rule}` : `Expand ${node.rule}`}
+          >
+            <span className={`section-chevron ${open ? "expanded" : ""}`}>▶</span>
+          </button>
+        ) : (
+          <span className="parse-tree-toggle" />
+        )}
+        <button
+          type="button"
+          className={isSelected ? "parse-tree-node selected" : "parse-tree-node"}
+          onClick={() => select(nodePath)}
+          aria-current={isSelected ? "true" : undefined}
+        >
+          {node.rule} <code>{excerpt(source, node)}</code>
+        </button>
+        {open && node.children.length > 0 && (
+          <ul>{node.children.map((child, i) => renderNode(child, [...nodePath, i]))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="parse-tree-view">
+      <ul className="parse-tree">{renderNode(tree, [])}</ul>
+
+      <div className="parse-diagram">
+        <div className="rule-header">
+          <h3>{selected.rule}</h3>
+          <button type="button" className="toolbar-btn" onClick={() => onNavigate(selected.rule)}>
+            Show Rule
+          </button>
+        </div>
+        <p className="parse-diagram-text">
+          Matched <code>{excerpt(source, selected) || "nothing"}</code>
+        </p>
+        {svg && (
+          <div
+            className="svgwrap"
+            onClick={handleDiagramClick}
+            // Trust boundary: Java grammar SVG generated locally by diagramToSvgString().
+            dangerouslySetInnerHTML={{ __html: svg }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,47 +1,149 @@
-import { useMemo } from "react";
-import { diagramToSvgString } from "../shared/railroad/diagramToSvg";
-import { createRuleDiagram } from "../features/grammar/java25Grammar";
-import { getEbnfDefinition } from "../features/grammar/ebnfDefinitions";
+import { useEffect, useMemo, useState, type MouseEvent } from "react";
+import { ruleNameAt } from "../shared/railroad/ruleNameAt";
+import { cachedRuleSvg, requestRuleSvg, searchMarks } from "../features/diagrams/svgCache";
+import { EbnfText } from "./EbnfText";
+import { RuleExamples } from "./RuleExamples";
+import { UsedByPanel } from "./UsedByPanel";
+import { DiagramActions } from "./DiagramActions";
+import { highlightEbnf, type SearchQuery } from "../features/search/ruleSearch";
+import type { RuleSource } from "../app/ruleSources";
 
 interface RuleDiagramProps {
   name: string;
+  /** Grammar the rule belongs to: a Java version or an imported file. */
+  source: RuleSource;
+  /** Briefly highlights the rule, e.g. after navigating to it. */
+  highlighted?: boolean;
+  /** Called when a nonterminal in the diagram or EBNF text is clicked. */
+  onNavigate?: (name: string) => void;
+  /** Search whose matches are marked in the diagram and EBNF text. */
+  search?: SearchQuery;
 }
 
 /**
- * Renders a railroad diagram for a Java 25 grammar rule,
- * along with its EBNF definition displayed below.
- * 
- * Security note: SVG is generated locally from deterministic factories.
- * No untrusted user input is processed. If external grammar loading is
- * added in the future, implement defensive sanitization.
+ * SVG markup of a rule, prerendered by the build or rendered by the
+ * diagram worker. Until it arrives, the previous markup (e.g. before the
+ * search changed) or undefined.
  */
-export function RuleDiagram({ name }: RuleDiagramProps) {
-  const svg = useMemo(() => {
-    const diagram = createRuleDiagram(name);
-    return diagramToSvgString(diagram);
-  }, [name]);
+function useRuleSvg(name: string, source: RuleSource, search: SearchQuery | undefined): string | undefined {
+  const node = source.getRuleNode(name);
+  const marked = useMemo(() => (node ? searchMarks(node, search) : []), [node, search]);
+  const markedKey = marked.join("\n");
+  const [svg, setSvg] = useState(() => cachedRuleSvg(source, name, marked));
 
-  const ebnf = useMemo(() => getEbnfDefinition(name), [name]);
+  useEffect(() => {
+    if (!node) {
+      setSvg("");
+      return;
+    }
+    let current = true;
+    const request = { node, untrusted: source.untrusted, marked };
+    requestRuleSvg(source, name, request, source.getPrerenderedSvg).then((markup) => {
+      if (current) setSvg(markup);
+    });
+    return () => {
+      current = false;
+    };
+  }, [name, source, node, markedKey]);
+
+  return svg;
+}
+
+interface Hover {
+  name: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Renders a railroad diagram for a grammar rule of the selected Java version
+ * or an imported grammar, along with its EBNF definition, generated
+ * examples and the rules that use it displayed below.
+ *
+ * Nonterminals in both the diagram and the EBNF text navigate to their
+ * rule on click and show the rule's EBNF on hover. Boxes and text that
+ * match the current search are highlighted.
+ *
+ * The diagram is rendered off the main thread (see svgCache.ts); the
+ * space it needs is reserved until it arrives.
+ *
+ * Security note: Java grammar SVG is generated locally from deterministic
+ * factories. Imported grammars are untrusted; their diagrams are serialized
+ * by diagramToEscapedSvgString(), which escapes all terminal, nonterminal
+ * and comment text, and their EBNF text is rendered as React text only.
+ */
+export function RuleDiagram({ name, source, highlighted, onNavigate, search }: RuleDiagramProps) {
+  const svg = useRuleSvg(name, source, search);
+
+  const ebnf = useMemo(() => source.getEbnf(name), [name, source]);
+  const ebnfHighlights = useMemo(
+    () => (ebnf && search ? highlightEbnf(ebnf, source.getRuleNode(name), search) : []),
+    [ebnf, name, source, search]
+  );
+
+  const [hover, setHover] = useState<Hover | null>(null);
+  const hoverEbnf = hover ? source.getEbnf(hover.name) : undefined;
+
+  const isRule = (ref: string) => source.getRuleNode(ref) !== undefined;
+
+  const handleClick = (e: MouseEvent) => {
+    const target = ruleNameAt(e.target);
+    if (!target || !isRule(target) || !onNavigate) return;
+    e.preventDefault();
+    setHover(null);
+    onNavigate(target);
+  };
+
+  const handleMouseOver = (e: MouseEvent) => {
+    const target = ruleNameAt(e.target);
+    if (!target || !isRule(target)) {
+      setHover(null);
+    } else if (target !== hover?.name) {
+      setHover({ name: target, x: e.clientX, y: e.clientY });
+    }
+  };
 
   return (
-    <div className="rule" id={`rule-${name}`}>
-      <h3>{name}</h3>
+    <div
+      className={highlighted ? "rule rule-highlighted" : "rule"}
+      id={`rule-${name}`}
+      onClick={handleClick}
+      onMouseOver={handleMouseOver}
+      onMouseLeave={() => setHover(null)}
+    >
+      <div className="rule-header">
+        <h3>{name}</h3>
+        <DiagramActions name={name} source={source} />
+      </div>
 
       {/* Railroad Diagram */}
       <div
         className="svgwrap"
-        // SVG is generated locally from deterministic factories.
-        // Trust boundary: no untrusted input is processed here.
-        dangerouslySetInnerHTML={{ __html: svg }}
+        aria-busy={svg === undefined}
+        // Trust boundary: untrusted sources are escaped by diagramToEscapedSvgString().
+        dangerouslySetInnerHTML={{ __html: svg ?? "" }}
       />
 
       {/* EBNF Definition */}
       {ebnf && (
         <details className="ebnf-container" open>
           <summary className="ebnf-toggle">EBNF</summary>
-          <pre className="ebnf-code">{ebnf}</pre>
+          <EbnfText text={ebnf} isRule={isRule} hrefOf={source.ruleHref} highlights={ebnfHighlights} />
         </details>
       )}
+
+      {/* Generated examples */}
+      <RuleExamples name={name} source={source} />
+
+      {/* Reverse references */}
+      <UsedByPanel name={name} source={source} />
+
+      {/* EBNF of the hovered nonterminal */}
+      {hover && hoverEbnf && (
+        <pre className="rule-tooltip" role="tooltip" style={{ left: hover.x + 12, top: hover.y + 16 }}>
+          {hoverEbnf}
+        </pre>
+      )}
     </div>
   );
 }
@@ -0,0 +1,37 @@
+import { useMemo, useState } from "react";
+import type { RuleSource } from "../app/ruleSources";
+
+interface RuleExamplesProps {
+  name: string;
+  source: RuleSource;
+}
+
+/**
+ * Generated examples of a rule. They start from seed 0, so a rule shows
+ * the same examples on every visit; "Regenerate" moves on to the next seed.
+ */
+export function RuleExamples({ name, source }: RuleExamplesProps) {
+  const [seed, setSeed] = useState(0);
+  const examples = useMemo(() => source.getExamples?.(name, seed) ?? [], [name, source, seed]);
+
+  if (examples.length === 0) return null;
+
+  return (
+    <details className="rule-examples" open>
+      <summary className="ebnf-toggle">Examples</summary>
+      <ul className="rule-examples-list">
+        {examples.map((example) => (
+          <li key={example}>
+            <pre className="rule-example">{example}</pre>
+          </li>
+        ))}
+      </ul>
+      <div className="rule-examples-actions">
+        <button type="button" className="toolbar-btn" onClick={() => setSeed((s) => s + 1)}>
+          Regenerate
+        </button>
+        <span className="rule-count">Seed {seed}</span>
+      </div>
+    </details>
+  );
+}
@@ -1,10 +1,113 @@
+import { useEffect, useRef, useState } from "react";
 import { RuleDiagram } from "./RuleDiagram";
+import type { RuleSource } from "../app/ruleSources";
+import type { SearchQuery } from "../features/search/ruleSearch";
 
-export function RuleList(props: { names: string[] }) {
+interface RuleListProps {
+  names: string[];
+  source: RuleSource;
+  highlightedRule?: string;
+  onNavigate?: (name: string) => void;
+  search?: SearchQuery;
+}
+
+/** How far outside the viewport rules are still rendered. */
+const BUFFER = "800px 0px";
+/** Height reserved for a rule that has not been rendered yet. */
+const ESTIMATED_HEIGHT = 240;
+
+// Last rendered height of each rule, per grammar source
+const heights = new WeakMap<RuleSource, Map<string, number>>();
+
+function heightsOf(source: RuleSource): Map<string, number> {
+  let map = heights.get(source);
+  if (!map) heights.set(source, (map = new Map()));
+  return map;
+}
+
+// One observer for every slot on the page
+const listeners = new WeakMap<Element, (near: boolean) => void>();
+let observer: IntersectionObserver | undefined;
+
+/** Calls `listener` whenever `el` comes within BUFFER of the viewport or leaves it. */
+function observeNearViewport(el: Element, listener: (near: boolean) => void): () => void {
+  if (typeof IntersectionObserver === "undefined") {
+    listener(true);
+    return () => {};
+  }
+  observer ??= new IntersectionObserver(
+    (entries) => {
+      for (const entry of entries) listeners.get(entry.target)?.(entry.isIntersecting);
+    },
+    { rootMargin: BUFFER }
+  );
+  listeners.set(el, listener);
+  observer.observe(el);
+  return () => {
+    observer!.unobserve(el);
+    listeners.delete(el);
+  };
+}
+
+interface RuleSlotProps {
+  name: string;
+  source: RuleSource;
+  highlighted: boolean;
+  onNavigate?: (name: string) => void;
+  search?: SearchQuery;
+}
+
+function RuleSlot({ name, source, highlighted, onNavigate, search }: RuleSlotProps) {
+  const slot = useRef<HTMLDivElement>(null);
+  const [near, setNear] = useState(false);
+
+  useEffect(() => observeNearViewport(slot.current!, setNear), []);
+
+  // Remember the rendered height, so the placeholder keeps it
+  useEffect(() => {
+    const el = slot.current!;
+    if (!near || typeof ResizeObserver === "undefined") return;
+    const resize = new ResizeObserver(() => heightsOf(source).set(name, el.offsetHeight));
+    resize.observe(el);
+    return () => resize.disconnect();
+  }, [near, name, source]);
+
+  return (
+    <div ref={slot} className="rule-slot">
+      {near ? (
+        <RuleDiagram name={name} source={source} highlighted={highlighted} onNavigate={onNavigate} search={search} />
+      ) : (
+        <div
+          className="rule rule-placeholder"
+          id={`rule-${name}`}
+          style={{ height: heightsOf(source).get(name) ?? ESTIMATED_HEIGHT }}
+        >
+          <div className="rule-header">
+            <h3>{name}</h3>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Rule diagrams of `names`. Only rules near the viewport are rendered;
+ * the others are placeholders of their last rendered (or an estimated)
+ * height, carrying the same `rule-<Name>` id so they can be scrolled to.
+ */
+export function RuleList(props: RuleListProps) {
   return (
     <>
       {props.names.map((name) => (
-        <RuleDiagram key={name} name={name} />
+        <RuleSlot
+          key={name}
+          name={name}
+          source={props.source}
+          highlighted={name === props.highlightedRule}
+          onNavigate={props.onNavigate}
+          search={props.search}
+        />
       ))}
     </>
   );
@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { diagramToSvgString } from "../shared/railroad/diagramToSvg";
+import { diffLines } from "../shared/text/lineDiff";
+import { grammarToDiagram } from "../features/grammar/grammarToRailroad";
+import { getVersionedRuleNode, type JavaVersion } from "../features/grammar/grammarRegistry";
+import { getEbnfDefinition } from "../features/grammar/ebnfDefinitions";
+import { highlightAlternatives } from "../features/grammar/versionDiff";
+import type { AlternativeStatus } from "../features/grammar/grammarDiff";
+import type { GrammarNode } from "../features/grammar/grammarModel";
+
+interface RuleVersionDiffProps {
+  name: string;
+  from: JavaVersion;
+  to: JavaVersion;
+}
+
+const LINE_PREFIX = { same: "  ", added: "+ ", removed: "- " } as const;
+
+function highlightedSvg(node: GrammarNode | undefined, statuses: Map<GrammarNode, AlternativeStatus>): string | undefined {
+  if (!node) return undefined;
+  const diagram = grammarToDiagram(node, {
+    classOf: (n) => {
+      const status = statuses.get(n);
+      return status && status !== "unchanged" ? `diff-${status}` : undefined;
+    },
+  });
+  return diagramToSvgString(diagram);
+}
+
+/**
+ * Shows one rule in two Java versions: both railroad diagrams side by side,
+ * with added, removed and altered alternatives highlighted, followed by a
+ * line diff of the EBNF text.
+ *
+ * Security note: SVG is generated locally from deterministic factories.
+ */
+export function RuleVersionDiff({ name, from, to }: RuleVersionDiffProps) {
+  const { beforeSvg, afterSvg } = useMemo(() => {
+    const before = getVersionedRuleNode(name, from);
+    const after = getVersionedRuleNode(name, to);
+    const highlights = highlightAlternatives(before, after);
+    return {
+      beforeSvg: highlightedSvg(before, highlights.before),
+      afterSvg: highlightedSvg(after, highlights.after),
+    };
+  }, [name, from, to]);
+
+  const lines = useMemo(
+    () => diffLines(getEbnfDefinition(name, from) ?? "", getEbnfDefinition(name, to) ?? ""),
+    [name, from, to]
+  );
+
+  const columns = [
+    { version: from, svg: beforeSvg },
+    { version: to, svg: afterSvg },
+  ];
+
+  return (
+    <div className="version-diff">
+      <div className="version-diff-columns">
+        {columns.map(({ version, svg }) => (
+          <div key={version} className="version-diff-column">
+            <div className="version-diff-label">Java {version}</div>
+            {svg ? (
+              <div
+                className="svgwrap"
+                // SVG is generated locally from deterministic factories.
+                dangerouslySetInnerHTML={{ __html: svg }}
+              />
+            ) : (
+              <div className="version-diff-missing">Not defined in Java {version}</div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <pre className="ebnf-code ebnf-diff">
+        {lines.map((line, i) => (
+          <span key={i} className={`diff-line diff-line-${line.change}`}>
+            {LINE_PREFIX[line.change]}
+            {line.text}
+            {"\n"}
+          </span>
+        ))}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { MatchField, SearchHit } from "../features/search/ruleSearch";
+
+interface SearchResultsProps {
+  hits: SearchHit[];
+  ruleHref: (name: string) => string;
+  onNavigate: (name: string) => void;
+}
+
+const FIELD_LABELS: Record<MatchField, string> = {
+  name: "name",
+  nonterminal: "nonterminal",
+  terminal: "terminal",
+  comment: "comment",
+  ebnf: "EBNF text",
+};
+
+/** Best hits shown; the sections below list every match. */
+const MAX_RESULTS = 12;
+
+/** Ranked list of the rules matching a search, with where each one matched. */
+export function SearchResults({ hits, ruleHref, onNavigate }: SearchResultsProps) {
+  if (hits.length === 0) return <p className="search-summary">No rules match.</p>;
+
+  return (
+    <div className="search-results">
+      <p className="search-summary">
+        {hits.length} {hits.length === 1 ? "rule matches" : "rules match"}
+        {hits.length > MAX_RESULTS && `; the best ${MAX_RESULTS}:`}
+      </p>
+      <ol>
+        {hits.slice(0, MAX_RESULTS).map((hit) => (
+          <li key={hit.rule}>
+            <a
+              href={ruleHref(hit.rule)}
+              className="used-by-link"
+              onClick={(e) => {
+                e.preventDefault();
+                onNavigate(hit.rule);
+              }}
+            >
+              {hit.rule}
+            </a>{" "}
+            <span className="search-fields">{hit.fields.map((f) => FIELD_LABELS[f]).join(", ")}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
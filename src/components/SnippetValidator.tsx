@@ -0,0 +1,148 @@
+import { Suspense, lazy, useDeferredValue, useMemo, useState } from "react";
+import { SECTION_ORDER, SECTION_TITLES } from "../features/grammar/java25Grammar";
+import { getGrammar, type JavaVersion } from "../features/grammar/grammarRegistry";
+import { COMMON_START_RULES, getStartRules, validateSnippet } from "../features/parser/snippetValidator";
+import { TokenStreamView } from "./TokenStreamView";
+
+// Parse trees are drawn with the railroad library, loaded for the first tree
+const ParseTreeView = lazy(() => import("./ParseTreeView").then((m) => ({ default: m.ParseTreeView })));
+
+export interface SnippetDraft {
+  source: string;
+  startRule: string;
+}
+
+export const DEFAULT_SNIPPET: SnippetDraft = {
+  source: 'record Point(int x, int y) {\n    Point {\n        if (x < 0) throw new IllegalArgumentException("x");\n    }\n}\n',
+  startRule: "CompilationUnit",
+};
+
+/** What is shown below the result. */
+type SnippetDetails = "tree" | "tokens";
+
+const DETAILS_LABELS: Record<SnippetDetails, string> = {
+  tree: "Parse Tree",
+  tokens: "Tokens",
+};
+
+interface SnippetValidatorProps {
+  version: JavaVersion;
+  /** Kept by the caller so the snippet survives view changes. */
+  snippet: SnippetDraft;
+  onSnippetChange: (snippet: SnippetDraft) => void;
+  onNavigate: (ruleName: string) => void;
+}
+
+/**
+ * Snippet validator: parses Java source with the productions of the
+ * selected version, starting from any syntactic rule. An accepted snippet
+ * is shown as a parse tree with the path it took through each diagram;
+ * otherwise the first token that cannot be parsed is reported along with
+ * the tokens that would have been accepted there. The token stream can be
+ * shown instead of the parse tree.
+ */
+export function SnippetValidator({ version, snippet, onSnippetChange, onNavigate }: SnippetValidatorProps) {
+  const grammar = getGrammar(version);
+  const startRules = useMemo(() => new Set(getStartRules(version)), [version]);
+  const startRule = startRules.has(snippet.startRule) ? snippet.startRule : COMMON_START_RULES[0];
+  const [details, setDetails] = useState<SnippetDetails>("tree");
+
+  // Parse at a lower priority than the keystrokes themselves
+  const source = useDeferredValue(snippet.source);
+  const result = useMemo(() => validateSnippet(source, startRule, version), [source, startRule, version]);
+  const error = result.ok ? undefined : result.error;
+  const errorLine = error ? source.split(/\r\n|\r|\n/)[error.line - 1] ?? "" : "";
+
+  return (
+    <div className="validator">
+      <div className="playground-controls">
+        <select
+          value={startRule}
+          onChange={(e) => onSnippetChange({ ...snippet, startRule: e.target.value })}
+          className="toolbar-select"
+          aria-label="Start rule"
+        >
+          <optgroup label="Common">
+            {COMMON_START_RULES.filter((name) => startRules.has(name)).map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </optgroup>
+          {SECTION_ORDER.filter((s) => s !== "lexical").map((s) => (
+            <optgroup key={s} label={SECTION_TITLES[s]}>
+              {grammar.sectionRules[s].map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <button type="button" className="toolbar-btn" onClick={() => onNavigate(startRule)}>
+          Show Rule
+        </button>
+        {(Object.keys(DETAILS_LABELS) as SnippetDetails[]).map((d) => (
+          <button
+            key={d}
+            type="button"
+            className="toolbar-btn"
+            onClick={() => setDetails(d)}
+            aria-pressed={details === d}
+          >
+            {DETAILS_LABELS[d]}
+          </button>
+        ))}
+        <span className="rule-count">{source === snippet.source ? "" : "Checking…"}</span>
+      </div>
+
+      <textarea
+        value={snippet.source}
+        onChange={(e) => onSnippetChange({ ...snippet, source: e.target.value })}
+        className="playground-input"
+        spellCheck={false}
+        rows={Math.max(8, snippet.source.split("\n").length + 1)}
+        aria-label="Java source"
+        aria-invalid={error !== undefined}
+      />
+
+      {result.ok ? (
+        <>
+          <p className="validator-result validator-success">
+            Accepted as {startRule} ({result.tokens} {result.tokens === 1 ? "token" : "tokens"}).
+          </p>
+          {details === "tree" && (
+            <Suspense fallback={null}>
+              <ParseTreeView version={version} source={source} tree={result.tree} onNavigate={onNavigate} />
+            </Suspense>
+          )}
+        </>
+      ) : (
+        <div className="validator-result playground-error">
+          Line {error!.line}, column {error!.column}: {error!.message}
+          <pre className="playground-excerpt">
+            {errorLine}
+            {"\n"}
+            {" ".repeat(Math.max(error!.column - 1, 0))}^
+          </pre>
+          {error!.expected.length > 0 && (
+            <div className="validator-expected">
+              Expected one of:{" "}
+              {error!.expected.map((text) =>
+                grammar.rules.has(text) ? (
+                  <button key={text} type="button" className="playground-position" onClick={() => onNavigate(text)}>
+                    {text}
+                  </button>
+                ) : (
+                  <code key={text}>{text}</code>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {details === "tokens" && <TokenStreamView source={source} onNavigate={onNavigate} />}
+    </div>
+  );
+}
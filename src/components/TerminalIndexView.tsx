@@ -0,0 +1,83 @@
+import { useMemo, useState } from "react";
+import { SECTION_TITLES } from "../features/grammar/java25Grammar";
+import type { JavaVersion } from "../features/grammar/grammarRegistry";
+import {
+  TERMINAL_GROUP_ORDER,
+  TERMINAL_GROUP_TITLES,
+  getTerminalIndex,
+} from "../features/grammar/terminalIndex";
+
+interface TerminalIndexViewProps {
+  version: JavaVersion;
+  ruleHref: (name: string) => string;
+  onNavigate: (ruleName: string) => void;
+}
+
+/**
+ * Index of every keyword, operator, separator and other terminal of the
+ * selected version, each with links to the rules that use it.
+ */
+export function TerminalIndexView({ version, ruleHref, onNavigate }: TerminalIndexViewProps) {
+  const [filter, setFilter] = useState("");
+  const entries = useMemo(() => getTerminalIndex(version), [version]);
+  const shown = useMemo(() => {
+    const f = filter.trim().toLowerCase();
+    return f ? entries.filter((e) => e.text.toLowerCase().includes(f)) : entries;
+  }, [entries, filter]);
+
+  return (
+    <div className="terminal-index-view">
+      <div className="version-diff-controls">
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="terminal-index-filter"
+          placeholder="Find a terminal (e.g., default, >>>=, ::)…"
+          aria-label="Find a terminal"
+        />
+        <span className="rule-count">
+          ({shown.length} of {entries.length} terminals)
+        </span>
+      </div>
+
+      {shown.length === 0 && <p>No terminal contains “{filter.trim()}”.</p>}
+
+      {TERMINAL_GROUP_ORDER.map((group) => {
+        const inGroup = shown.filter((e) => e.group === group);
+        if (inGroup.length === 0) return null;
+        return (
+          <section key={group}>
+            <h3 className="version-diff-section">
+              {TERMINAL_GROUP_TITLES[group]} <span className="rule-count">({inGroup.length})</span>
+            </h3>
+            <dl className="terminal-index">
+              {inGroup.map((entry) => (
+                <div key={entry.text} className="used-by-group">
+                  <dt>
+                    <code>{entry.text}</code>
+                  </dt>
+                  <dd>
+                    {entry.uses.map(({ rule, section }) => (
+                      <a
+                        key={rule}
+                        href={ruleHref(rule)}
+                        className="used-by-link"
+                        title={SECTION_TITLES[section]}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          onNavigate(rule);
+                        }}
+                      >
+                        {rule}
+                      </a>
+                    ))}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useMemo, useState } from "react";
+import { JavaLexicalError, tokenizeJava, type JavaToken } from "../features/lexer/javaTokenizer";
+
+interface TokenStreamViewProps {
+  source: string;
+  /** Called with the lexical rule of a token. */
+  onNavigate: (ruleName: string) => void;
+}
+
+function kindLabel(token: JavaToken): string {
+  return token.contextual ? "contextual keyword" : token.kind;
+}
+
+/**
+ * Token stream of a Java snippet as read by the JLS §3 tokenizer: one row
+ * per token with its position, kind and source text, linked to the
+ * lexical rule diagram it is an instance of. Tokens written with Unicode
+ * escapes also show their translated text.
+ */
+export function TokenStreamView({ source, onNavigate }: TokenStreamViewProps) {
+  const [showComments, setShowComments] = useState(false);
+
+  const result = useMemo(() => {
+    try {
+      return { tokens: tokenizeJava(source, { comments: showComments }) };
+    } catch (err) {
+      if (err instanceof JavaLexicalError) return { error: err };
+      throw err;
+    }
+  }, [source, showComments]);
+
+  return (
+    <div className="token-stream">
+      <label className="token-stream-option">
+        <input type="checkbox" checked={showComments} onChange={(e) => setShowComments(e.target.checked)} /> Show
+        comments
+      </label>
+
+      {result.error ? (
+        <p className="version-diff-missing">No tokens: {result.error.message}.</p>
+      ) : (
+        <table className="token-table">
+          <thead>
+            <tr>
+              <th scope="col">Position</th>
+              <th scope="col">Kind</th>
+              <th scope="col">Token</th>
+              <th scope="col">Lexical rule</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.tokens!.map((token) => {
+              const written = source.slice(token.start, token.end);
+              return (
+                <tr key={token.start} className={`token-${token.kind}`}>
+                  <td>
+                    {token.line}:{token.column}
+                  </td>
+                  <td>{kindLabel(token)}</td>
+                  <td>
+                    <code>{written}</code>
+                    {written !== token.text && (
+                      <>
+                        {" → "}
+                        <code>{token.text}</code>
+                      </>
+                    )}
+                  </td>
+                  <td>
+                    {token.rule && (
+                      <button type="button" className="playground-position" onClick={() => onNavigate(token.rule!)}>
+                        {token.rule}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import type { RuleSource } from "../app/ruleSources";
+
+interface UsedByPanelProps {
+  name: string;
+  source: RuleSource;
+}
+
+/**
+ * Lists the rules whose production refers to `name`, grouped by section.
+ * Entries are links carrying `data-rule`, so the enclosing RuleDiagram
+ * handles their clicks and hovers like any other nonterminal.
+ */
+export function UsedByPanel({ name, source }: UsedByPanelProps) {
+  const groups = useMemo(() => source.getReferencingRules(name), [name, source]);
+  const count = groups.reduce((n, g) => n + g.rules.length, 0);
+
+  if (count === 0) return null;
+
+  return (
+    <details className="used-by">
+      <summary className="ebnf-toggle">Used by ({count})</summary>
+      <dl className="used-by-groups">
+        {groups.map(({ title, rules }) => (
+          <div key={title} className="used-by-group">
+            <dt>{title}</dt>
+            <dd>
+              {rules.map((rule) => (
+                <a key={rule} href={source.ruleHref(rule)} className="used-by-link" data-rule={rule}>
+                  {rule}
+                </a>
+              ))}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </details>
+  );
+}
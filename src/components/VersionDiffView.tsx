@@ -0,0 +1,97 @@
+import { Suspense, lazy, useMemo, useState } from "react";
+import { SECTION_ORDER, SECTION_TITLES } from "../features/grammar/java25Grammar";
+import { JAVA_VERSIONS, getGrammar, type JavaVersion } from "../features/grammar/grammarRegistry";
+import { compareVersions } from "../features/grammar/versionDiff";
+import { describeDifference } from "../features/grammar/grammarDiff";
+
+// Loaded when a rule is first opened, together with the railroad library
+const RuleVersionDiff = lazy(() => import("./RuleVersionDiff").then((m) => ({ default: m.RuleVersionDiff })));
+
+interface VersionDiffViewProps {
+  /** Initially selected newer version; key the view by it to follow changes. */
+  version: JavaVersion;
+}
+
+function VersionSelect(props: { value: JavaVersion; onChange: (v: JavaVersion) => void; label: string }) {
+  return (
+    <select
+      value={props.value}
+      onChange={(e) => props.onChange(e.target.value as JavaVersion)}
+      className="toolbar-select"
+      aria-label={props.label}
+    >
+      {JAVA_VERSIONS.map((v) => (
+        <option key={v} value={v}>
+          {getGrammar(v).title}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * "What changed" page: every rule that differs between two Java versions,
+ * grouped by section. Selecting a rule opens its side-by-side diff.
+ */
+export function VersionDiffView({ version }: VersionDiffViewProps) {
+  const [to, setTo] = useState<JavaVersion>(version);
+  const [from, setFrom] = useState<JavaVersion>(() => {
+    const i = JAVA_VERSIONS.indexOf(version);
+    return JAVA_VERSIONS[Math.max(i - 1, 0)];
+  });
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const changes = useMemo(() => compareVersions(from, to), [from, to]);
+  const labels = { before: `Java ${from}`, after: `Java ${to}` };
+
+  return (
+    <div className="version-diff-view">
+      <div className="version-diff-controls">
+        <span>Compare</span>
+        <VersionSelect value={from} onChange={setFrom} label="Older Java release" />
+        <span>with</span>
+        <VersionSelect value={to} onChange={setTo} label="Newer Java release" />
+        <span className="rule-count">({changes.length} rules changed)</span>
+      </div>
+
+      {changes.length === 0 && <p>No rule differs between Java {from} and Java {to}.</p>}
+
+      {SECTION_ORDER.map((section) => {
+        const inSection = changes.filter((c) => c.section === section);
+        if (inSection.length === 0) return null;
+        return (
+          <section key={section}>
+            <h3 className="version-diff-section">{SECTION_TITLES[section]}</h3>
+            <ul className="version-diff-summary">
+              {inSection.map((change) => (
+                <li key={change.name}>
+                  <button
+                    type="button"
+                    className="version-diff-rule"
+                    onClick={() => setSelected(selected === change.name ? null : change.name)}
+                    aria-expanded={selected === change.name}
+                  >
+                    <span className={`diff-badge diff-badge-${change.status}`}>{change.status}</span>
+                    <span className="version-diff-name">{change.name}</span>
+                  </button>
+                  {change.differences.length > 0 && (
+                    <ul className="version-diff-details">
+                      {change.differences.map((d, k) => (
+                        <li key={k}>{describeDifference(d, labels)}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {selected === change.name && (
+                    <Suspense fallback={null}>
+                      <RuleVersionDiff name={change.name} from={from} to={to} />
+                    </Suspense>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * Build-Time Prerendering
+ *
+ * Run by webpack.config.cjs for production builds, under Node: a static
+ * page of the default version (the grammar book's content) that fills the
+ * page's root element until the app replaces it, so the grammar reads
+ * without JavaScript too, and the diagram manifests of the other versions.
+ * prerenderedSvg.ts reads the default version's diagrams from the page, so
+ * it gets no manifest. The grammar factories are deterministic, so this is
+ * the markup the browser would render.
+ */
+
+import { DEFAULT_JAVA_VERSION, JAVA_VERSIONS, getGrammar, type JavaVersion } from "../grammar/grammarRegistry";
+import { grammarBookCss, renderGrammarBookBody } from "../export/grammarBook";
+import { renderRuleSvg } from "./ruleSvg";
+
+export interface Prerendered {
+  /** JSON per Java version but `pageVersion`: rule name → SVG markup without search marks. */
+  manifests: Partial<Record<JavaVersion, string>>;
+  /** The version shown by `page`. */
+  pageVersion: JavaVersion;
+  /** Markup for the root element: every diagram and EBNF block, with their styles. */
+  page: string;
+}
+
+function prerenderManifest(version: JavaVersion): string {
+  const svgs: Record<string, string> = {};
+  for (const [name, node] of getGrammar(version).rules) {
+    svgs[name] = renderRuleSvg({ node, untrusted: false, marked: [] });
+  }
+  return JSON.stringify(svgs);
+}
+
+/** Renders every rule of every version once: the static page and the other manifests. */
+export function prerender(): Prerendered {
+  const manifests: Partial<Record<JavaVersion, string>> = {};
+  for (const version of JAVA_VERSIONS) {
+    if (version !== DEFAULT_JAVA_VERSION) manifests[version] = prerenderManifest(version);
+  }
+  return {
+    manifests,
+    pageVersion: DEFAULT_JAVA_VERSION,
+    page: `<style>${grammarBookCss()}</style>\n${renderGrammarBookBody(DEFAULT_JAVA_VERSION)}`,
+  };
+}
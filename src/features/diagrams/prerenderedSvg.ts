@@ -0,0 +1,68 @@
+/**
+ * Prerendered Diagrams
+ *
+ * Production builds render the diagram of every Java rule once, at build
+ * time (see prerender.ts and webpack.config.cjs). The default version's
+ * diagrams come inlined in index.html, as the static page the app
+ * replaces; main.tsx hands them over here before it does. Every other
+ * version has a JSON manifest, rule name → SVG markup, fetched when first
+ * needed. The rule viewer takes unmarked diagrams from these, so the
+ * railroad library is not loaded at all until a search marks boxes or
+ * another view draws diagrams.
+ *
+ * Development builds have neither; every diagram is rendered in the
+ * browser then.
+ */
+
+import type { JavaVersion } from "../grammar/grammarRegistry";
+
+/** Set by webpack.config.cjs. */
+declare const __PRERENDERED_DIAGRAMS__:
+  | {
+      /** The version whose diagrams index.html inlines. */
+      pageVersion: JavaVersion;
+      /** Manifest URL per other Java version. */
+      manifests: Partial<Record<JavaVersion, string>>;
+    }
+  | undefined;
+
+const PRERENDERED = typeof __PRERENDERED_DIAGRAMS__ === "undefined" ? undefined : __PRERENDERED_DIAGRAMS__;
+
+// Diagrams of the static page, serialized when first asked for
+const pageDiagrams = new Map<string, Element>();
+
+const manifests = new Map<JavaVersion, Promise<Record<string, string>>>();
+
+/**
+ * Keeps the diagrams of the static page in `root` (rule elements with a
+ * `rule-<Name>` id) before the app replaces it.
+ */
+export function adoptPrerenderedPage(root: Element): void {
+  if (!PRERENDERED) return;
+  for (const rule of Array.from(root.querySelectorAll('.rule[id^="rule-"]'))) {
+    const svg = rule.querySelector("svg");
+    if (svg) pageDiagrams.set(rule.id.slice("rule-".length), svg);
+  }
+}
+
+function loadManifest(version: JavaVersion): Promise<Record<string, string>> {
+  let manifest = manifests.get(version);
+  if (!manifest) {
+    const url = PRERENDERED?.manifests[version];
+    // A failed download leaves these rules to the worker
+    manifest = url
+      ? fetch(url)
+          .then((res) => (res.ok ? res.json() : {}))
+          .catch(() => ({}))
+      : Promise.resolve({});
+    manifests.set(version, manifest);
+  }
+  return manifest;
+}
+
+/** The build-time markup of rule `name`, or undefined if there is none. */
+export async function prerenderedSvg(version: JavaVersion, name: string): Promise<string | undefined> {
+  if (version === PRERENDERED?.pageVersion) return pageDiagrams.get(name)?.outerHTML;
+  const svg = (await loadManifest(version))[name];
+  return typeof svg === "string" ? svg : undefined;
+}
@@ -0,0 +1,27 @@
+/**
+ * Rule SVG
+ *
+ * The markup of a rule diagram as shown in the rule viewer. Needs no DOM,
+ * so it runs in the diagram worker as well as on the main thread.
+ */
+
+import { nodeText, type GrammarNode } from "../grammar/grammarModel";
+import { grammarToDiagram } from "../grammar/grammarToRailroad";
+import { diagramToEscapedSvgString, diagramToSvgString } from "../../shared/railroad/diagramToSvg";
+
+export interface RuleSvgRequest {
+  node: GrammarNode;
+  /** Whether the rule comes from a user-supplied file; its text is escaped then. */
+  untrusted: boolean;
+  /** Terminal, nonterminal and comment texts whose boxes are marked as search matches. */
+  marked: string[];
+}
+
+export function renderRuleSvg({ node, untrusted, marked }: RuleSvgRequest): string {
+  const classOf = (n: GrammarNode) => {
+    const text = nodeText(n);
+    return text !== undefined && marked.includes(text) ? "search-match" : undefined;
+  };
+  const diagram = grammarToDiagram(node, { classOf });
+  return untrusted ? diagramToEscapedSvgString(diagram) : diagramToSvgString(diagram);
+}
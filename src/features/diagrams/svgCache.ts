@@ -0,0 +1,128 @@
+/**
+ * Rule SVG Cache
+ *
+ * Diagram markup is generated in a Web Worker, so that expanding every
+ * section or typing a search does not block the page, and cached per
+ * grammar source and rule. The key also holds the texts marked as search
+ * matches. It does not hold the theme: the markup has no colors of its
+ * own, they come from styles.css.
+ *
+ * Diagrams without search marks may come prerendered with the build
+ * (prerenderedSvg.ts); the worker only renders what those lack. Where
+ * workers are unavailable, or the worker fails, markup is generated on the
+ * main thread, one rule per task.
+ */
+
+import { nodeText, walkGrammar, type GrammarNode } from "../grammar/grammarModel";
+import { matchesSearch, type SearchQuery } from "../search/ruleSearch";
+import type { RuleSvgRequest } from "./ruleSvg";
+import type { WorkerRequest, WorkerResponse } from "./svgWorker";
+
+/** Entries kept per grammar source; the oldest are dropped first. */
+const MAX_ENTRIES = 1000;
+
+// Per grammar source (e.g. a RuleSource): key → markup, or the pending request
+const caches = new WeakMap<object, Map<string, string | Promise<string>>>();
+
+interface Pending {
+  request: RuleSvgRequest;
+  resolve: (svg: string) => void;
+}
+
+// undefined: not started yet; null: unavailable, render on the main thread
+let worker: Worker | null | undefined;
+let nextId = 0;
+const pending = new Map<number, Pending>();
+
+function renderLater(request: RuleSvgRequest): Promise<string> {
+  return import("./ruleSvg").then(
+    ({ renderRuleSvg }) => new Promise((resolve) => setTimeout(() => resolve(renderRuleSvg(request))))
+  );
+}
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  try {
+    worker = typeof Worker === "undefined" ? null : new Worker(new URL("./svgWorker.ts", import.meta.url));
+  } catch {
+    worker = null;
+  }
+  if (!worker) return null;
+
+  worker.addEventListener("message", (e: MessageEvent<WorkerResponse>) => {
+    const entry = pending.get(e.data.id);
+    pending.delete(e.data.id);
+    entry?.resolve(e.data.svg);
+  });
+  worker.addEventListener("error", () => {
+    worker?.terminate();
+    worker = null;
+    for (const { request, resolve } of pending.values()) renderLater(request).then(resolve);
+    pending.clear();
+  });
+  return worker;
+}
+
+function render(request: RuleSvgRequest): Promise<string> {
+  const w = getWorker();
+  if (!w) return renderLater(request);
+  const id = nextId++;
+  return new Promise((resolve) => {
+    pending.set(id, { request, resolve });
+    const message: WorkerRequest = { id, ...request };
+    w.postMessage(message);
+  });
+}
+
+function cacheOf(scope: object): Map<string, string | Promise<string>> {
+  let cache = caches.get(scope);
+  if (!cache) caches.set(scope, (cache = new Map()));
+  return cache;
+}
+
+function cacheKey(name: string, marked: string[]): string {
+  return [name, ...marked].join("\n");
+}
+
+/** Texts in `node` that match `search`, sorted; they are marked in its diagram. */
+export function searchMarks(node: GrammarNode, search: SearchQuery | undefined): string[] {
+  if (!search) return [];
+  const marked = new Set<string>();
+  walkGrammar(node, (n) => {
+    const text = nodeText(n);
+    if (text !== undefined && matchesSearch(text, search)) marked.add(text);
+  });
+  return [...marked].sort();
+}
+
+/** The markup of rule `name` if it is cached. */
+export function cachedRuleSvg(scope: object, name: string, marked: string[]): string | undefined {
+  const entry = caches.get(scope)?.get(cacheKey(name, marked));
+  return typeof entry === "string" ? entry : undefined;
+}
+
+/**
+ * The markup of rule `name` of a grammar source (`scope`), from the
+ * cache, the source's `prerendered` markup or rendered by the worker.
+ * Requests for the same rule share one rendering.
+ */
+export function requestRuleSvg(
+  scope: object,
+  name: string,
+  request: RuleSvgRequest,
+  prerendered?: (name: string) => Promise<string | undefined>
+): Promise<string> {
+  const cache = cacheOf(scope);
+  const key = cacheKey(name, request.marked);
+  const entry = cache.get(key);
+  if (entry !== undefined) return Promise.resolve(entry);
+
+  const built = request.marked.length === 0 && prerendered ? prerendered(name) : Promise.resolve(undefined);
+  const promise = built.then((svg) => svg ?? render(request)).then((svg) => {
+    if (cache.get(key) === promise) cache.set(key, svg);
+    return svg;
+  });
+  cache.set(key, promise);
+  if (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+  return promise;
+}
@@ -0,0 +1,23 @@
+/**
+ * Diagram Worker
+ *
+ * Renders rule diagrams to SVG markup off the main thread. Started and
+ * fed by svgCache.ts.
+ */
+
+import { renderRuleSvg, type RuleSvgRequest } from "./ruleSvg";
+
+export interface WorkerRequest extends RuleSvgRequest {
+  id: number;
+}
+
+export interface WorkerResponse {
+  id: number;
+  svg: string;
+}
+
+addEventListener("message", (e: MessageEvent<WorkerRequest>) => {
+  const { id, ...request } = e.data;
+  const response: WorkerResponse = { id, svg: renderRuleSvg(request) };
+  postMessage(response);
+});
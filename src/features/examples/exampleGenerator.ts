@@ -0,0 +1,294 @@
+/**
+ * Example Generator
+ *
+ * Produces short random instances of a rule by walking its grammar model:
+ * a choice picks one alternative, an optional is taken or skipped, a
+ * repetition runs a few times. Generation is seeded, so the same rule,
+ * version and seed always give the same examples.
+ *
+ * Depth is bounded by the height of each node, i.e. the fewest nested
+ * rules needed to finish it: below the rule's own height only a few
+ * levels of extra nesting are allowed, and once an example has grown
+ * past a token budget every choice takes its shortest way out.
+ *
+ * Lexical rules described in prose (`any Unicode character that is a
+ * "Java letter"`) cannot be walked; they draw from sample lists instead,
+ * as do identifiers and literals inside syntactic examples, which read
+ * better as `count` or `42` than as random characters.
+ *
+ * The grammar alone admits some character sequences the lexer reads
+ * differently, e.g. a text block whose content ends in `"`. Examples of
+ * literal rules are therefore kept only if tokenizeJava() reads them back
+ * as one literal of that rule.
+ */
+
+import type { GrammarNode } from "../grammar/grammarModel";
+import type { GrammarVersion } from "../grammar/grammarVersion";
+import { JavaLexicalError, tokenizeJava, type LiteralKind } from "../lexer/javaTokenizer";
+
+export interface ExampleOptions {
+  /** Any integer; 0 gives the default examples. */
+  seed?: number;
+  /** Number of distinct examples wanted; fewer are returned if the rule has fewer. */
+  count?: number;
+}
+
+/** Samples for lexical rules written in prose, used when walking lexical rules. */
+const PROSE_SAMPLES: Record<string, string[]> = {
+  RawInputCharacter: ["a", "Z", "7", "é", "+", "{"],
+  InputCharacter: ["a", "Z", "7", "é", "+", "{"],
+  LineTerminator: ["\n"],
+  WhiteSpace: [" "],
+  TextBlockWhiteSpace: [" "],
+  Identifier: ["x", "count", "name", "value", "result", "index", "items", "$tmp", "_id"],
+  IdentifierChars: ["x", "count", "name", "value", "result", "index", "items", "$tmp", "_id"],
+  JavaLetter: ["a", "Z", "$", "_", "é", "π"],
+  JavaLetterOrDigit: ["a", "Z", "$", "_", "é", "0", "9"],
+  TypeIdentifier: ["String", "Point", "List", "Node", "T", "Shape", "Builder"],
+  UnqualifiedMethodIdentifier: ["run", "get", "apply", "size", "toString", "compute"],
+  SingleCharacter: ["a", "Z", "7", "é", "+", "\""],
+  StringCharacter: ["a", "Z", "7", "é", " ", "'", "\\n", "\\t", '\\"'],
+  TextBlockCharacter: ["a", "Z", "7", "é", " ", "'", "\\n", "\\t"],
+};
+
+/** Samples for lexical rules referenced from syntactic rules. */
+const TOKEN_SAMPLES: Record<string, string[]> = {
+  Literal: ["0", "1", "42", "100L", "3.14", "1e-3", "0x1F", "'c'", '"text"', '""', "true", "false", "null"],
+  IntegerLiteral: ["0", "1", "42", "100L", "0x1F", "0b1010", "1_000"],
+  FloatingPointLiteral: ["3.14", "1e-3", "2.5f", "0.0d"],
+  BooleanLiteral: ["true", "false"],
+  CharacterLiteral: ["'c'", "'\\n'"],
+  StringLiteral: ['"text"', '""', '"Hello, world"'],
+  NullLiteral: ["null"],
+};
+
+const LITERAL_RULES: ReadonlySet<string> = new Set<LiteralKind>([
+  "IntegerLiteral",
+  "FloatingPointLiteral",
+  "BooleanLiteral",
+  "CharacterLiteral",
+  "StringLiteral",
+  "TextBlock",
+  "NullLiteral",
+]);
+
+/** Rules whose `<` and `>` are angle brackets rather than comparisons. */
+const ANGLE_BRACKET_RULES = new Set(["TypeArguments", "TypeParameters", "TypeArgumentsOrDiamond"]);
+
+/** Extra nesting allowed beyond a rule's own height. */
+const EXTRA_DEPTH = 4;
+/** Tokens after which every choice takes its shortest way out. */
+const TOKEN_BUDGET = 24;
+const MAX_ATTEMPTS = 12;
+/** Chance of taking an optional part. */
+const OPTIONAL_CHANCE = 1 / 3;
+
+interface Token {
+  text: string;
+  /** Rule the token was produced in. */
+  rule: string;
+  /** Whether the token came from a sample (an identifier or literal). */
+  sampled: boolean;
+}
+
+/** mulberry32: small, fast and good enough to pick alternatives. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  return hash >>> 0;
+}
+
+interface Context {
+  rules: ReadonlyMap<string, GrammarNode>;
+  samples: (name: string) => string[] | undefined;
+  /** Fewest nested rules needed to finish each rule; Infinity if it cannot be generated. */
+  heights: ReadonlyMap<string, number>;
+}
+
+function nodeHeight(node: GrammarNode, context: Pick<Context, "samples" | "heights">): number {
+  switch (node.kind) {
+    case "terminal":
+      return 0;
+    case "comment":
+      return Infinity;
+    case "nonterminal":
+      return context.samples(node.name) ? 0 : 1 + (context.heights.get(node.name) ?? Infinity);
+    case "sequence":
+      return node.items.reduce((max, item) => Math.max(max, nodeHeight(item, context)), 0);
+    case "choice":
+      return Math.min(...node.alternatives.map((alt) => nodeHeight(alt, context)));
+    case "optional":
+      return 0;
+    case "repetition":
+      return node.min === 0 ? 0 : nodeHeight(node.item, context);
+  }
+}
+
+function computeHeights(
+  rules: ReadonlyMap<string, GrammarNode>,
+  samples: Context["samples"]
+): Map<string, number> {
+  const heights = new Map<string, number>();
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const [name, node] of rules) {
+      const height = samples(name) ? 0 : nodeHeight(node, { samples, heights });
+      if (height < (heights.get(name) ?? Infinity)) {
+        heights.set(name, height);
+        changed = true;
+      }
+    }
+  }
+  return heights;
+}
+
+const contexts = new WeakMap<GrammarVersion, { lexical: Context; syntactic: Context }>();
+
+function getContext(grammar: GrammarVersion, lexical: boolean): Context {
+  let cached = contexts.get(grammar);
+  if (!cached) {
+    const lexicalRules = new Set(grammar.sectionRules.lexical);
+    const create = (samples: Context["samples"]): Context => ({
+      rules: grammar.rules,
+      samples,
+      heights: computeHeights(grammar.rules, samples),
+    });
+    cached = {
+      lexical: create((name) => PROSE_SAMPLES[name]),
+      syntactic: create((name) =>
+        lexicalRules.has(name) ? (TOKEN_SAMPLES[name] ?? PROSE_SAMPLES[name]) : undefined
+      ),
+    };
+    contexts.set(grammar, cached);
+  }
+  return lexical ? cached.lexical : cached.syntactic;
+}
+
+/** Walks `rule` once, returning its tokens. */
+function generate(rule: string, context: Context, random: () => number): Token[] {
+  const tokens: Token[] = [];
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const exhausted = () => tokens.length >= TOKEN_BUDGET;
+
+  const walk = (node: GrammarNode, current: string, budget: number) => {
+    const fits = (n: GrammarNode) => nodeHeight(n, context) <= (exhausted() ? 0 : budget);
+    switch (node.kind) {
+      case "terminal":
+        tokens.push({ text: node.text, rule: current, sampled: false });
+        break;
+      case "comment":
+        throw new Error(`Rule ${current} is described in prose`);
+      case "nonterminal":
+        expand(node.name, budget - 1);
+        break;
+      case "sequence":
+        for (const item of node.items) walk(item, current, budget);
+        break;
+      case "choice": {
+        const fitting = node.alternatives.filter(fits);
+        const shortest = node.alternatives.reduce((best, alt) =>
+          nodeHeight(alt, context) < nodeHeight(best, context) ? alt : best
+        );
+        walk(fitting.length > 0 && !exhausted() ? pick(fitting) : shortest, current, budget);
+        break;
+      }
+      case "optional":
+        if (!exhausted() && fits(node.item) && random() < OPTIONAL_CHANCE) walk(node.item, current, budget);
+        break;
+      case "repetition": {
+        // Mostly the minimum, sometimes one or two more
+        const r = random();
+        const extra = !exhausted() && fits(node.item) ? (r < 0.6 ? 0 : r < 0.9 ? 1 : 2) : 0;
+        for (let i = 0; i < node.min + extra; i++) walk(node.item, current, budget);
+        break;
+      }
+    }
+  };
+
+  const expand = (name: string, budget: number) => {
+    const samples = context.samples(name);
+    if (samples) {
+      tokens.push({ text: pick(samples), rule: name, sampled: true });
+      return;
+    }
+    walk(context.rules.get(name)!, name, budget);
+  };
+
+  const start = context.rules.get(rule)!;
+  const samples = context.samples(rule);
+  if (samples) tokens.push({ text: pick(samples), rule, sampled: true });
+  else walk(start, rule, (context.heights.get(rule) ?? 0) + EXTRA_DEPTH);
+  return tokens;
+}
+
+/** Whether no space is written between `prev` and `next`. */
+function glued(prev: Token, next: Token): boolean {
+  const angle = (t: Token) => (t.text === "<" || t.text === ">") && ANGLE_BRACKET_RULES.has(t.rule);
+  const word = (t: Token) => /^[\w$]/.test(t.text) && !(t.sampled && /^[\d.'"]/.test(t.text));
+
+  if ([";", ",", ")", "]", "...", "::"].includes(next.text)) return true;
+  // A literal like `1` followed by `.` would read as `1.`
+  if (next.text === ".") return !(prev.sampled && /^\d/.test(prev.text));
+  if (["(", "[", ".", "@", "::", "!", "~"].includes(prev.text)) return true;
+  if (angle(next) || (prev.text === "<" && angle(prev))) return true;
+  if ((next.text === "++" || next.text === "--") && next.rule.startsWith("Post")) return true;
+  if ((prev.text === "++" || prev.text === "--") && prev.rule.startsWith("Pre")) return true;
+  if (next.text === "(") return (word(prev) && (prev.sampled || prev.text === "this" || prev.text === "super")) || angle(prev);
+  if (next.text === "[") return word(prev) || prev.text === "]" || prev.text === ")" || angle(prev);
+  return false;
+}
+
+function joinTokens(tokens: Token[]): string {
+  let text = "";
+  tokens.forEach((token, i) => {
+    if (i > 0 && !glued(tokens[i - 1], token)) text += " ";
+    text += token.text;
+  });
+  return text;
+}
+
+/** Whether `text`, generated for rule `name`, is read back as that rule by the lexer. */
+function readsBack(text: string, name: string): boolean {
+  if (!LITERAL_RULES.has(name)) return true;
+  try {
+    const tokens = tokenizeJava(text);
+    return tokens.length === 1 && tokens[0].literal === name;
+  } catch (err) {
+    if (err instanceof JavaLexicalError) return false;
+    throw err;
+  }
+}
+
+/**
+ * Random examples of rule `name` in `grammar`. Examples of lexical rules
+ * are character sequences; those of syntactic rules are source text with
+ * conventional spacing. Rules that can only be described in prose, or
+ * whose examples are invisible (white space), get none.
+ */
+export function generateExamples(name: string, grammar: GrammarVersion, options: ExampleOptions = {}): string[] {
+  const { seed = 0, count = 3 } = options;
+  if (!grammar.rules.has(name)) return [];
+  const lexical = grammar.sectionRules.lexical.includes(name);
+  const context = getContext(grammar, lexical);
+  if ((context.heights.get(name) ?? Infinity) === Infinity) return [];
+
+  const random = createRandom(hashString(`${name}#${seed}`));
+  const examples = new Set<string>();
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && examples.size < count; attempt++) {
+    const tokens = generate(name, context, random);
+    const text = lexical ? tokens.map((t) => t.text).join("") : joinTokens(tokens);
+    if (text.trim() && readsBack(text, name)) examples.add(text);
+  }
+  return [...examples];
+}
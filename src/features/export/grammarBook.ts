@@ -0,0 +1,131 @@
+/**
+ * Grammar Book Export
+ *
+ * Renders a whole grammar version as one self-contained HTML document: a
+ * table of contents, then every section in SECTION_ORDER with each rule's
+ * diagram (inline SVG) and EBNF text. All styles are embedded, nothing is
+ * fetched, and the print stylesheet starts each section on a new page,
+ * keeps rules in one piece and scales wide diagrams to the page width.
+ * Uses no DOM APIs, so it runs in the browser and in Node alike; the
+ * build also embeds its content as the page shown before the app loads.
+ */
+
+import { SECTION_ORDER, SECTION_TITLES } from "../grammar/java25Grammar";
+import { getGrammar, type JavaVersion } from "../grammar/grammarRegistry";
+import { grammarToDiagram } from "../grammar/grammarToRailroad";
+import { getEbnfDefinition } from "../grammar/ebnfDefinitions";
+import { standaloneCss } from "../../shared/railroad/exportDiagram";
+import { escapeHtml } from "../../shared/text/escapeHtml";
+
+const BOOK_CSS = `
+body {
+  max-width: 960px;
+  margin: 0 auto;
+  padding: 24px;
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, Arial, sans-serif;
+  color: #111;
+  background: #fff;
+}
+h1 { margin: 0 0 4px; }
+.book-subtitle { margin: 0 0 24px; color: #555; }
+.toc ol { columns: 2; column-gap: 32px; padding-left: 20px; }
+.toc > ol { columns: 1; }
+.toc li { margin: 2px 0; }
+.toc a { color: inherit; text-decoration: none; }
+.toc a:hover { text-decoration: underline; }
+section { margin-top: 32px; }
+h2 { border-bottom: 2px solid #ccc; padding-bottom: 4px; }
+.rule { margin: 16px 0 24px; }
+.rule h3 { margin: 0 0 6px; font-size: 15px; }
+.rule svg.railroad-diagram { display: block; max-width: 100%; height: auto; }
+.rule pre {
+  margin: 6px 0 0;
+  padding: 8px 12px;
+  border: 1px solid #e1e4e8;
+  border-radius: 6px;
+  background: #f8f9fa;
+  font: 12px/1.5 "DejaVu Sans Mono", Menlo, Consolas, "Liberation Mono", monospace;
+  white-space: pre-wrap;
+}
+
+@page { size: A4; margin: 15mm; }
+
+@media print {
+  body { max-width: none; padding: 0; }
+  .toc { break-after: page; }
+  section { margin-top: 0; break-before: page; }
+  section:first-of-type { break-before: auto; }
+  h2, h3 { break-after: avoid; }
+  .rule { break-inside: avoid; }
+  .rule pre { background: none; }
+}
+`;
+
+function bookTitle(version: JavaVersion): string {
+  return `${getGrammar(version).title} Syntax – Railroad Diagrams`;
+}
+
+/** The book's stylesheet: diagram colors, page layout and print rules. */
+export function grammarBookCss(): string {
+  return `${standaloneCss()}\n${BOOK_CSS}`;
+}
+
+/** The book's content: title, table of contents and every section. */
+export function renderGrammarBookBody(version: JavaVersion): string {
+  const grammar = getGrammar(version);
+  const sections = SECTION_ORDER.filter((s) => grammar.sectionRules[s].length > 0);
+
+  const toc = sections
+    .map((s) => {
+      const rules = grammar.sectionRules[s]
+        .map((name) => `<li><a href="#rule-${escapeHtml(name)}">${escapeHtml(name)}</a></li>`)
+        .join("");
+      return `<li><a href="#${s}">${escapeHtml(SECTION_TITLES[s])}</a><ol>${rules}</ol></li>`;
+    })
+    .join("\n");
+
+  const body = sections
+    .map((s) => {
+      const rules = grammar.sectionRules[s]
+        .map((name) => {
+          const svg = String(grammarToDiagram(grammar.rules.get(name)!).toString());
+          const ebnf = getEbnfDefinition(name, version);
+          return [
+            `<div class="rule" id="rule-${escapeHtml(name)}">`,
+            `<h3>${escapeHtml(name)}</h3>`,
+            svg,
+            ebnf ? `<pre>${escapeHtml(ebnf)}</pre>` : "",
+            `</div>`,
+          ].join("\n");
+        })
+        .join("\n");
+      return `<section id="${s}">\n<h2>${escapeHtml(SECTION_TITLES[s])}</h2>\n${rules}\n</section>`;
+    })
+    .join("\n");
+
+  return `<h1>${escapeHtml(bookTitle(version))}</h1>
+<p class="book-subtitle">${grammar.rules.size} rules, transcribed from JLS Chapter 19 (left recursion removed where needed).</p>
+<nav class="toc">
+<h2>Contents</h2>
+<ol>
+${toc}
+</ol>
+</nav>
+${body}`;
+}
+
+/** Renders the grammar of one Java version as a standalone HTML document. */
+export function renderGrammarBook(version: JavaVersion): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(bookTitle(version))}</title>
+<style>${grammarBookCss()}</style>
+</head>
+<body>
+${renderGrammarBookBody(version)}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,402 @@
+/**
+ * Grammar Format Export
+ *
+ * Writes a grammar version in other grammar notations, straight from the
+ * grammar model:
+ *   - W3C EBNF (XML spec style, as read by railroad diagram generators)
+ *   - ISO/IEC 14977 EBNF
+ *   - ABNF (RFC 5234, with RFC 7405 case-sensitive strings)
+ *   - an ANTLR 4 combined-grammar skeleton
+ *
+ * Comment nodes (JLS prose such as "any Unicode character that is a Java
+ * letter") have no formal equivalent. They become the format's prose
+ * construct where it has one (ISO special sequence, ABNF prose value) or
+ * a comment otherwise, and every rule containing one is marked as a
+ * PLACEHOLDER to be completed by hand. The ANTLR grammar is also made to
+ * compile: see ANTLR below.
+ */
+
+import { choice, grammarEquals, sequence, walkGrammar, type GrammarNode } from "../grammar/grammarModel";
+import { SECTION_ORDER, SECTION_TITLES } from "../grammar/java25Grammar";
+import { getGrammar, type JavaVersion } from "../grammar/grammarRegistry";
+import type { GrammarVersion } from "../grammar/grammarVersion";
+
+export type GrammarFormat = "w3c" | "iso" | "abnf" | "antlr";
+
+export interface GrammarFormatInfo {
+  id: GrammarFormat;
+  label: string;
+  /** File extension including the dot. */
+  extension: string;
+}
+
+export const GRAMMAR_FORMATS: GrammarFormatInfo[] = [
+  { id: "w3c", label: "W3C EBNF", extension: ".ebnf" },
+  { id: "iso", label: "ISO 14977 EBNF", extension: ".iso.ebnf" },
+  { id: "abnf", label: "ABNF", extension: ".abnf" },
+  { id: "antlr", label: "ANTLR 4", extension: ".g4" },
+];
+
+/**
+ * Binding strength of a printing context: 0 allows a bare choice,
+ * 1 (sequence item) needs choices grouped, 2 (operand of a postfix or
+ * prefix operator) needs sequences grouped too.
+ */
+type Precedence = 0 | 1 | 2;
+type Print = (node: GrammarNode, prec: Precedence) => string;
+
+interface RuleContext {
+  grammar: GrammarVersion;
+  /** Whether the rule belongs to the lexical grammar (JLS §3). */
+  lexical: boolean;
+  /** Lexical rules referenced from the syntactic grammar. */
+  tokens: ReadonlySet<string>;
+}
+
+/** A rule changed to suit a format, with a comment saying how. */
+interface RewrittenRule {
+  node: GrammarNode;
+  note: string;
+}
+
+interface FormatSyntax {
+  comment(text: string): string;
+  /** Header lines on how the format's grammar differs from the JLS. */
+  notes?: string[];
+  ruleName(name: string, lexical: boolean): string;
+  /** Formats a rule from its name and printed alternatives. */
+  rule(name: string, alternatives: string[], ctx: RuleContext): string;
+  separator: string;
+  terminal(text: string): string;
+  prose(text: string): string;
+  /** Prose that restricts the item before it ("but not …"); defaults to `prose`. */
+  proseQualifier?(text: string): string;
+  optional(item: GrammarNode, print: Print): string;
+  zeroOrMore(item: GrammarNode, print: Print): string;
+  oneOrMore(item: GrammarNode, print: Print): string;
+  alternation: string;
+  /** Lines after the header comment, e.g. a grammar declaration. */
+  preamble?(version: GrammarVersion): string[];
+  /** Lines after all rules. */
+  epilogue?(version: GrammarVersion): string[];
+  /** Orders rules for output; defaults to section order. */
+  order?(names: string[], ctx: Omit<RuleContext, "lexical">): string[];
+  /** Rules to print instead of the grammar's own, by name. */
+  rewrite?(grammar: GrammarVersion): Map<string, RewrittenRule>;
+}
+
+function quote(text: string): string {
+  return text.includes("'") ? `"${text}"` : `'${text}'`;
+}
+
+const W3C: FormatSyntax = {
+  comment: (text) => `/* ${text.replace(/\*\//g, "* /")} */`,
+  ruleName: (name) => name,
+  rule: (name, alts) => `${name} ::= ${alts.join("\n    | ")}`,
+  separator: " ",
+  terminal: quote,
+  prose: (text) => W3C.comment(text),
+  optional: (item, p) => `${p(item, 2)}?`,
+  zeroOrMore: (item, p) => `${p(item, 2)}*`,
+  oneOrMore: (item, p) => `${p(item, 2)}+`,
+  alternation: " | ",
+};
+
+const ISO: FormatSyntax = {
+  comment: (text) => `(* ${text.replace(/\*\)/g, "* )")} *)`,
+  ruleName: (name) => name,
+  rule: (name, alts) => `${name} = ${alts.join("\n    | ")} ;`,
+  separator: ", ",
+  terminal: quote,
+  prose: (text) => `? ${text.replace(/\?/g, "")} ?`,
+  optional: (item, p) => `[ ${p(item, 0)} ]`,
+  zeroOrMore: (item, p) => `{ ${p(item, 0)} }`,
+  oneOrMore: (item, p) => `${p(item, 1)}, { ${p(item, 0)} }`,
+  alternation: " | ",
+};
+
+/**
+ * RFC 7405 `%s"…"` for printable runs; characters a quoted string cannot
+ * hold become hex values, consecutive ones concatenated (`%x22.22.22`).
+ */
+function abnfTerminal(text: string): string {
+  const parts: string[] = [];
+  let run = "";
+  let hex: string[] = [];
+  const flush = () => {
+    if (run) parts.push(`%s"${run}"`);
+    if (hex.length) parts.push(`%x${hex.join(".")}`);
+    run = "";
+    hex = [];
+  };
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code >= 0x20 && code <= 0x7e && ch !== '"') {
+      if (hex.length) flush();
+      run += ch;
+    } else {
+      if (run) flush();
+      hex.push(code.toString(16).toUpperCase().padStart(2, "0"));
+    }
+  }
+  flush();
+  return parts.length === 1 ? parts[0] : `(${parts.join(" ")})`;
+}
+
+const ABNF: FormatSyntax = {
+  comment: (text) => `; ${text}`,
+  ruleName: (name) => name,
+  rule: (name, alts) => `${name} = ${alts.join("\n    / ")}`,
+  separator: " ",
+  terminal: abnfTerminal,
+  prose: (text) => `<${text.replace(/>/g, "")}>`,
+  optional: (item, p) => `[${p(item, 0)}]`,
+  zeroOrMore: (item, p) => `*${p(item, 2)}`,
+  oneOrMore: (item, p) => `1*${p(item, 2)}`,
+  alternation: " / ",
+};
+
+/** ANTLR 4 keywords that cannot be used as rule names. */
+const ANTLR_RESERVED = new Set([
+  "import", "fragment", "lexer", "parser", "grammar", "returns", "locals", "throws",
+  "catch", "finally", "mode", "options", "tokens", "channels", "rule",
+]);
+
+function alternativesOf(node: GrammarNode): GrammarNode[] {
+  return node.kind === "choice" ? node.alternatives : [node];
+}
+
+function itemsOf(node: GrammarNode): GrammarNode[] {
+  return node.kind === "sequence" ? node.items : [node];
+}
+
+/** The rule an alternative starts with, if it starts with one. */
+function leftCall(alt: GrammarNode): string | undefined {
+  const first = itemsOf(alt)[0];
+  return first?.kind === "nonterminal" ? first.name : undefined;
+}
+
+/**
+ * ANTLR 4 accepts direct left recursion (`a : a '.' b | c ;`) but not
+ * rules that reach themselves leftmost through others, as the JLS writes
+ * primary, postfixExpression or classType. Each such group of syntactic
+ * rules gets a head, the first one whose removal breaks every cycle of the
+ * group, and the others' alternatives are inlined into the head until its
+ * leftmost calls go to itself or out of the group. The other rules still
+ * call the head, but the head no longer calls them leftmost.
+ */
+function inlineLeftRecursion(grammar: GrammarVersion): Map<string, RewrittenRule> {
+  const lexical = new Set(grammar.sectionRules.lexical);
+  const leftCalls = new Map<string, string[]>();
+  for (const [name, node] of grammar.rules) {
+    if (lexical.has(name)) continue;
+    const calls = alternativesOf(node).map(leftCall);
+    leftCalls.set(name, [...new Set(calls.filter((c): c is string => c !== undefined && !lexical.has(c)))]);
+  }
+  // Rules reachable from `from` by leftmost calls, not passing through `without`
+  const reachable = (from: string, without?: string): Set<string> => {
+    const seen = new Set<string>();
+    const stack = [from];
+    while (stack.length) {
+      for (const next of leftCalls.get(stack.pop()!) ?? []) {
+        if (next === without || seen.has(next)) continue;
+        seen.add(next);
+        stack.push(next);
+      }
+    }
+    return seen;
+  };
+
+  const rewritten = new Map<string, RewrittenRule>();
+  const grouped = new Set<string>();
+  for (const name of leftCalls.keys()) {
+    if (grouped.has(name)) continue;
+    const group = [...reachable(name)].filter((other) => other !== name && reachable(other).has(name));
+    if (group.length === 0) continue;
+    group.unshift(name);
+    group.forEach((member) => grouped.add(member));
+    const members = new Set(group);
+    const head = group.find((h) => group.every((m) => m === h || !reachable(m, h).has(m)));
+    // No single head: left as is, and check-antlr fails
+    if (!head) continue;
+
+    const inlined = new Set<string>();
+    // Terminates: without the head, the group's leftmost calls have no cycle
+    const expand = (alt: GrammarNode): GrammarNode[] => {
+      const callee = leftCall(alt);
+      if (callee === undefined || callee === head || !members.has(callee)) return [alt];
+      inlined.add(callee);
+      const rest = itemsOf(alt).slice(1);
+      return alternativesOf(grammar.rules.get(callee)!).flatMap((calleeAlt) => {
+        const items = [...itemsOf(calleeAlt), ...rest];
+        return expand(items.length === 1 ? items[0] : sequence(...items));
+      });
+    };
+    const alternatives: GrammarNode[] = [];
+    for (const alt of alternativesOf(grammar.rules.get(head)!).flatMap(expand)) {
+      if (!alternatives.some((a) => grammarEquals(a, alt))) alternatives.push(alt);
+    }
+    rewritten.set(head, {
+      node: alternatives.length === 1 ? alternatives[0] : choice(...alternatives),
+      note: `${[...inlined].map((n) => antlrRuleName(n, false)).join(", ")} inlined to make the left recursion direct`,
+    });
+  }
+  return rewritten;
+}
+
+/** Parser rules start lowercase in ANTLR; lexer rules keep their JLS name. */
+function antlrRuleName(name: string, lexical: boolean): string {
+  if (lexical) return name;
+  const lower = name[0].toLowerCase() + name.slice(1);
+  return ANTLR_RESERVED.has(lower) ? `${lower}_` : lower;
+}
+
+function antlrPlaceholder(text: string): string {
+  return `/* PLACEHOLDER: ${text.replace(/\*\//g, "* /")} */`;
+}
+
+/**
+ * ANTLR needs more than the other formats to accept the grammar: indirect
+ * left recursion is inlined (inlineLeftRecursion), and prose that stands
+ * for input matches one character, so that no token or loop matches the
+ * empty string. Prose restricting the item before it stays a comment.
+ */
+const ANTLR: FormatSyntax = {
+  comment: (text) => `// ${text}`,
+  notes: [
+    "Indirect left recursion is inlined into direct left recursion, and prose standing",
+    "for input matches any character but a line break, so that ANTLR accepts it.",
+  ],
+  ruleName: antlrRuleName,
+  rule: (name, alts, ctx) => {
+    const fragment = ctx.lexical && !ctx.tokens.has(name) ? "fragment " : "";
+    return `${fragment}${antlrRuleName(name, ctx.lexical)}\n    : ${alts.join("\n    | ")}\n    ;`;
+  },
+  separator: " ",
+  terminal: (text) => `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`,
+  prose: (text) => `~[\\r\\n] ${antlrPlaceholder(text)}`,
+  proseQualifier: antlrPlaceholder,
+  optional: (item, p) => `${p(item, 2)}?`,
+  zeroOrMore: (item, p) => `${p(item, 2)}*`,
+  oneOrMore: (item, p) => `${p(item, 2)}+`,
+  alternation: " | ",
+  preamble: (version) => [`grammar Java${version.version};`],
+  // White space and comments separate tokens (JLS §3.6, §3.7); the parser never sees them
+  epilogue: () => [
+    "// ===== White Space and Comments =====",
+    "",
+    "WS\n    : [ \\t\\f\\r\\n]+ -> skip\n    ;",
+    "",
+    "COMMENT\n    : '/*' .*? '*/' -> skip\n    ;",
+    "",
+    "LINE_COMMENT\n    : '//' ~[\\r\\n]* -> skip\n    ;",
+  ],
+  // Parser rules first, then lexer rules, as ANTLR grammars are usually laid out
+  order: (names, ctx) => {
+    const lexical = new Set(ctx.grammar.sectionRules.lexical);
+    return [...names.filter((n) => !lexical.has(n)), ...names.filter((n) => lexical.has(n))];
+  },
+  rewrite: inlineLeftRecursion,
+};
+
+const SYNTAX: Record<GrammarFormat, FormatSyntax> = { w3c: W3C, iso: ISO, abnf: ABNF, antlr: ANTLR };
+
+function printNode(syntax: FormatSyntax, node: GrammarNode, prec: Precedence, lexical: ReadonlySet<string>): string {
+  const print: Print = (child, p) => printNode(syntax, child, p, lexical);
+  switch (node.kind) {
+    case "terminal":
+      return syntax.terminal(node.text);
+    case "nonterminal":
+      return syntax.ruleName(node.name, lexical.has(node.name));
+    case "comment":
+      return syntax.prose(node.text);
+    case "optional":
+      return syntax.optional(node.item, print);
+    case "repetition":
+      return node.min === 0 ? syntax.zeroOrMore(node.item, print) : syntax.oneOrMore(node.item, print);
+    case "sequence": {
+      const text = node.items
+        .map((item, i) =>
+          i > 0 && item.kind === "comment" && syntax.proseQualifier ? syntax.proseQualifier(item.text) : print(item, 1)
+        )
+        .join(syntax.separator);
+      return prec >= 2 && node.items.length > 1 ? `(${text})` : text;
+    }
+    case "choice": {
+      const text = node.alternatives.map((alt) => print(alt, 0)).join(syntax.alternation);
+      return prec >= 1 ? `(${text})` : text;
+    }
+  }
+}
+
+function hasProse(node: GrammarNode): boolean {
+  let found = false;
+  walkGrammar(node, (n) => {
+    if (n.kind === "comment") found = true;
+  });
+  return found;
+}
+
+/** Lexical rules referenced from a syntactic rule (ANTLR token rules). */
+function tokenRules(grammar: GrammarVersion): Set<string> {
+  const lexical = new Set(grammar.sectionRules.lexical);
+  const tokens = new Set<string>();
+  for (const [name, node] of grammar.rules) {
+    if (lexical.has(name)) continue;
+    walkGrammar(node, (n) => {
+      if (n.kind === "nonterminal" && lexical.has(n.name)) tokens.add(n.name);
+    });
+  }
+  return tokens;
+}
+
+/** Writes the grammar of a Java version in the given notation. */
+export function exportGrammar(version: JavaVersion, format: GrammarFormat): string {
+  const syntax = SYNTAX[format];
+  const grammar = getGrammar(version);
+  const lexical = new Set(grammar.sectionRules.lexical);
+  const base = { grammar, tokens: tokenRules(grammar) };
+  const info = GRAMMAR_FORMATS.find((f) => f.id === format)!;
+
+  const lines = [
+    syntax.comment(`${grammar.title} grammar (${info.label}), generated from the JLS Chapter 19 transcription.`),
+    syntax.comment("Rules marked PLACEHOLDER contain JLS prose that has no formal equivalent"),
+    syntax.comment("and must be completed by hand."),
+    ...(syntax.notes ?? []).map(syntax.comment),
+    "",
+  ];
+  const rewritten = syntax.rewrite?.(grammar) ?? new Map<string, RewrittenRule>();
+  if (syntax.preamble) lines.push(...syntax.preamble(grammar), "");
+
+  const allNames = SECTION_ORDER.flatMap((s) => grammar.sectionRules[s]);
+  const ordered = syntax.order ? syntax.order(allNames, base) : allNames;
+  const sectionOf = new Map(SECTION_ORDER.flatMap((s) => grammar.sectionRules[s].map((n) => [n, s] as const)));
+
+  let currentSection: string | undefined;
+  for (const name of ordered) {
+    const section = sectionOf.get(name)!;
+    if (section !== currentSection) {
+      lines.push(syntax.comment(`===== ${SECTION_TITLES[section]} =====`), "");
+      currentSection = section;
+    }
+    const rewrite = rewritten.get(name);
+    const node = rewrite?.node ?? grammar.rules.get(name)!;
+    const ctx: RuleContext = { ...base, lexical: lexical.has(name) };
+    const alternatives = node.kind === "choice" ? node.alternatives : [node];
+    const printed = alternatives.map((alt) => printNode(syntax, alt, 0, lexical));
+    if (hasProse(node)) lines.push(syntax.comment(`PLACEHOLDER: ${name} is partly defined in prose`));
+    if (rewrite) lines.push(syntax.comment(rewrite.note));
+    // "(one of)" lists of single terminals stay on one line
+    const oneOf = alternatives.length > 1 && alternatives.every((alt) => alt.kind === "terminal");
+    lines.push(syntax.rule(name, oneOf ? [printed.join(syntax.alternation)] : printed, ctx), "");
+  }
+
+  if (syntax.epilogue) lines.push(...syntax.epilogue(grammar), "");
+  return lines.join("\n");
+}
+
+/** File name for an exported grammar; ANTLR requires it to match the grammar name. */
+export function grammarFileName(version: JavaVersion, format: GrammarFormat): string {
+  const info = GRAMMAR_FORMATS.find((f) => f.id === format)!;
+  return format === "antlr" ? `Java${version}${info.extension}` : `java${version}${info.extension}`;
+}
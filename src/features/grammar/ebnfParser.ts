@@ -0,0 +1,251 @@
+/**
+ * JLS-style EBNF Parser
+ *
+ * Parses production text in the notation written by grammarToEbnf.ts back
+ * into a GrammarNode tree:
+ *
+ *   RuleName:
+ *       alternative one
+ *       alternative two
+ *
+ * Plain text cannot tell a bracket terminal from a bracket metasymbol, so
+ * the parser relies on the same spacing convention the generator uses:
+ * metasymbols hug their contents (`[TypeArguments]`, `{, TypeArgument}`),
+ * terminals stand alone (`{ [BlockStatements] }`). Likewise `|` separates
+ * alternatives only inside a group and only after at least one symbol, so
+ * `{| ClassType}` is a repeated `|` terminal.
+ *
+ * Prose follows the JLS §2.4 conventions: "but not …" runs to the end of
+ * the line, and a line that starts with "any" or "the" is prose as a whole.
+ */
+
+import {
+  choice,
+  comment,
+  nonTerminal,
+  normalizeGrammar,
+  optional,
+  sequence,
+  terminal,
+  zeroOrMore,
+  type GrammarNode,
+} from "./grammarModel";
+
+export class EbnfSyntaxError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+    readonly column: number
+  ) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = "EbnfSyntaxError";
+  }
+}
+
+export interface ParsedProduction {
+  name: string;
+  node: GrammarNode;
+  /** 1-based line of the `Name:` header within the parsed text. */
+  line: number;
+}
+
+type TokenType = "open" | "close" | "bar" | "symbol";
+
+interface Token {
+  type: TokenType;
+  text: string;
+  line: number;
+  column: number;
+}
+
+const OPENERS = "[{(";
+const CLOSERS = "]})";
+const CLOSER_FOR: Record<string, string> = { "[": "]", "{": "}", "(": ")" };
+const ONE_OF = "(one of)";
+const HEADER = /^([A-Za-z_][\w-]*)\s*:\s*$/;
+
+/** Whether an unindented line opens a production, as in `RuleName:`. */
+export function isProductionHeader(line: string): boolean {
+  return HEADER.test(line.trim());
+}
+
+/** JLS convention: nonterminals are CamelCase, terminals are not. */
+export function isNonTerminalName(word: string): boolean {
+  return /^[A-Z][A-Za-z0-9_]*$/.test(word) && /[a-z]/.test(word);
+}
+
+function symbolNode(text: string): GrammarNode {
+  return isNonTerminalName(text) ? nonTerminal(text) : terminal(text);
+}
+
+function tokenizeLine(text: string, line: number, offset: number): Token[] {
+  const tokens: Token[] = [];
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    let word = match[0];
+    let column = offset + match.index + 1;
+    const trailing: Token[] = [];
+
+    while (word.length > 1 && OPENERS.includes(word[0])) {
+      tokens.push({ type: "open", text: word[0], line, column });
+      word = word.slice(1);
+      column++;
+    }
+    while (word.length > 1 && CLOSERS.includes(word[word.length - 1])) {
+      trailing.unshift({
+        type: "close",
+        text: word[word.length - 1],
+        line,
+        column: column + word.length - 1,
+      });
+      word = word.slice(0, -1);
+    }
+    tokens.push({ type: word === "|" ? "bar" : "symbol", text: word, line, column });
+    tokens.push(...trailing);
+  }
+  return tokens;
+}
+
+class LineParser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string
+  ) {}
+
+  parse(): GrammarNode {
+    const items = this.parseSequence(null);
+    return sequence(...items);
+  }
+
+  private parseAlternatives(closer: string, opener: Token): GrammarNode {
+    const alternatives: GrammarNode[] = [];
+    for (;;) {
+      const items = this.parseSequence(closer);
+      alternatives.push(sequence(...items));
+      const token = this.tokens[this.pos];
+      if (!token) {
+        throw new EbnfSyntaxError(`Missing '${closer}' for '${opener.text}'`, opener.line, opener.column);
+      }
+      this.pos++;
+      if (token.type === "close") break;
+    }
+    return alternatives.length === 1 ? alternatives[0] : choice(...alternatives);
+  }
+
+  private parseSequence(closer: string | null): GrammarNode[] {
+    const items: GrammarNode[] = [];
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+
+      if (token.type === "close") {
+        if (token.text === closer) return items;
+        throw new EbnfSyntaxError(`Unexpected '${token.text}'`, token.line, token.column);
+      }
+
+      if (token.type === "bar" && closer !== null && items.length > 0) return items;
+
+      this.pos++;
+
+      if (token.type === "open") {
+        const inner = this.parseAlternatives(CLOSER_FOR[token.text], token);
+        if (token.text === "[") items.push(optional(inner));
+        else if (token.text === "{") items.push(zeroOrMore(inner));
+        else items.push(inner);
+        continue;
+      }
+
+      const next = this.tokens[this.pos];
+      if (closer === null && token.text === "but" && next?.text === "not") {
+        items.push(comment(this.source.slice(token.column - 1).trim()));
+        this.pos = this.tokens.length;
+        return items;
+      }
+
+      items.push(symbolNode(token.text));
+    }
+    return items;
+  }
+}
+
+function parseAlternativeLine(text: string, line: number): GrammarNode {
+  const trimmed = text.trim();
+  if (/^(any|the)\s/.test(trimmed)) return comment(trimmed);
+  const tokens = tokenizeLine(text, line, 0);
+  return new LineParser(tokens, text).parse();
+}
+
+function parseBody(name: string, lines: { text: string; line: number }[], headerLine: number): GrammarNode {
+  const content = lines.filter((l) => l.text.trim() !== "");
+  if (content.length === 0) {
+    throw new EbnfSyntaxError(`Production '${name}' has no alternatives`, headerLine, 1);
+  }
+
+  const first = content[0].text.trim();
+  if (first.startsWith(ONE_OF)) {
+    const symbols: GrammarNode[] = [];
+    content.forEach(({ text }, i) => {
+      const start = i === 0 ? text.indexOf(ONE_OF) + ONE_OF.length : 0;
+      for (const word of text.slice(start).trim().split(/\s+/)) {
+        if (word) symbols.push(symbolNode(word));
+      }
+    });
+    return choice(...symbols);
+  }
+
+  const alternatives = content.map(({ text, line }) => parseAlternativeLine(text, line));
+  return alternatives.length === 1 ? alternatives[0] : choice(...alternatives);
+}
+
+/**
+ * Parses every production in `text`. Productions start with an unindented
+ * `Name:` line; their alternatives follow on indented lines.
+ */
+export function parseEbnfGrammar(text: string): ParsedProduction[] {
+  const productions: ParsedProduction[] = [];
+  let current: { name: string; line: number; body: { text: string; line: number }[] } | null = null;
+
+  const flush = () => {
+    if (current) {
+      productions.push({
+        name: current.name,
+        line: current.line,
+        node: normalizeGrammar(parseBody(current.name, current.body, current.line)),
+      });
+    }
+  };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    if (raw.trim() === "") return;
+
+    if (!/^\s/.test(raw)) {
+      const header = HEADER.exec(raw.trim());
+      if (!header) {
+        throw new EbnfSyntaxError("Expected a production header like 'RuleName:'", line, 1);
+      }
+      flush();
+      current = { name: header[1], line, body: [] };
+      return;
+    }
+
+    if (!current) {
+      throw new EbnfSyntaxError("Alternative appears before any production header", line, 1);
+    }
+    current.body.push({ text: raw, line });
+  });
+
+  flush();
+  return productions;
+}
+
+/** Parses text that contains exactly one production. */
+export function parseEbnfProduction(text: string): ParsedProduction {
+  const productions = parseEbnfGrammar(text);
+  if (productions.length !== 1) {
+    throw new EbnfSyntaxError(`Expected exactly one production, found ${productions.length}`, 1, 1);
+  }
+  return productions[0];
+}
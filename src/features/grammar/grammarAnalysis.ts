@@ -0,0 +1,165 @@
+/**
+ * Grammar Reference Analysis
+ *
+ * Checks the integrity of a rule set: every nonterminal a rule refers to
+ * must itself be defined, and every defined rule should be reachable from
+ * the start rule(s).
+ */
+
+import { referencedNonTerminals, type GrammarNode } from "./grammarModel";
+
+export interface UndefinedReference {
+  /** The nonterminal that has no rule. */
+  name: string;
+  /** Rules whose body refers to it. */
+  referencedBy: string[];
+}
+
+export interface ReferenceReport {
+  undefinedNonTerminals: UndefinedReference[];
+  /** Defined rules that cannot be reached from any root. */
+  unreachableRules: string[];
+}
+
+/** Builds the rule → referenced nonterminals adjacency list. */
+export function buildReferenceGraph(rules: ReadonlyMap<string, GrammarNode>): Map<string, string[]> {
+  const graph = new Map<string, string[]>();
+  for (const [name, node] of rules) graph.set(name, referencedNonTerminals(node));
+  return graph;
+}
+
+/**
+ * Builds the reverse adjacency list: nonterminal → rules that refer to it,
+ * in rule-definition order. A rule that refers to itself is included.
+ */
+export function buildReverseReferences(rules: ReadonlyMap<string, GrammarNode>): Map<string, string[]> {
+  const reverse = new Map<string, string[]>();
+  for (const [name, refs] of buildReferenceGraph(rules)) {
+    for (const ref of refs) {
+      if (!reverse.has(ref)) reverse.set(ref, []);
+      reverse.get(ref)!.push(name);
+    }
+  }
+  return reverse;
+}
+
+/** Names of all rules reachable from `roots` (roots included). */
+export function reachableRules(graph: ReadonlyMap<string, string[]>, roots: string[]): Set<string> {
+  const seen = new Set<string>();
+  const stack = roots.filter((r) => graph.has(r));
+  while (stack.length > 0) {
+    const name = stack.pop()!;
+    if (seen.has(name)) continue;
+    seen.add(name);
+    for (const next of graph.get(name) ?? []) {
+      if (graph.has(next) && !seen.has(next)) stack.push(next);
+    }
+  }
+  return seen;
+}
+
+/**
+ * Lists undefined nonterminals and unreachable rules.
+ * Both lists are sorted by name.
+ */
+export function analyzeReferences(rules: ReadonlyMap<string, GrammarNode>, roots: string[]): ReferenceReport {
+  const graph = buildReferenceGraph(rules);
+
+  const missing = new Map<string, string[]>();
+  for (const [name, refs] of graph) {
+    for (const ref of refs) {
+      if (rules.has(ref)) continue;
+      if (!missing.has(ref)) missing.set(ref, []);
+      missing.get(ref)!.push(name);
+    }
+  }
+
+  const reachable = reachableRules(graph, roots);
+
+  return {
+    undefinedNonTerminals: Array.from(missing, ([name, referencedBy]) => ({ name, referencedBy }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    unreachableRules: Array.from(rules.keys())
+      .filter((name) => !reachable.has(name))
+      .sort(),
+  };
+}
+
+/**
+ * Strongly connected components of the reference graph (Tarjan), i.e. the
+ * groups of mutually recursive rules. Only components that form a cycle
+ * are returned: two or more rules, or a single rule that refers to itself.
+ * Members of each component are sorted by name.
+ */
+export function recursiveComponents(graph: ReadonlyMap<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (name: string) => {
+    index.set(name, counter);
+    lowLink.set(name, counter);
+    counter++;
+    stack.push(name);
+    onStack.add(name);
+
+    for (const next of graph.get(name) ?? []) {
+      if (!graph.has(next)) continue;
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(name, Math.min(lowLink.get(name)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(name) === index.get(name)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+      if (component.length > 1 || graph.get(name)!.includes(name)) components.push(component.sort());
+    }
+  };
+
+  for (const name of graph.keys()) {
+    if (!index.has(name)) visit(name);
+  }
+  return components;
+}
+
+/**
+ * Rules within `hops` reference steps of `root`, following references in
+ * both directions (rules it uses and rules that use it). Includes `root`.
+ */
+export function neighborhood(graph: ReadonlyMap<string, string[]>, root: string, hops: number): Set<string> {
+  const reverse = new Map<string, string[]>();
+  for (const [name, refs] of graph) {
+    for (const ref of refs) {
+      if (!reverse.has(ref)) reverse.set(ref, []);
+      reverse.get(ref)!.push(name);
+    }
+  }
+
+  const seen = new Set<string>(graph.has(root) ? [root] : []);
+  let frontier = [...seen];
+  for (let step = 0; step < hops && frontier.length > 0; step++) {
+    const next: string[] = [];
+    for (const name of frontier) {
+      for (const other of [...(graph.get(name) ?? []), ...(reverse.get(name) ?? [])]) {
+        if (graph.has(other) && !seen.has(other)) {
+          seen.add(other);
+          next.push(other);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return seen;
+}
@@ -0,0 +1,256 @@
+/**
+ * Structural Grammar Diff
+ *
+ * Compares two GrammarNode trees and lists where they differ. Alternatives
+ * of a choice are matched regardless of order; items of a sequence are
+ * aligned by longest common subsequence. Leftovers that line up one-to-one,
+ * or that share most of their symbols, are compared recursively, so a
+ * nested change is reported where it happens rather than as a whole
+ * alternative being replaced.
+ */
+
+import { grammarEquals, normalizeGrammar, walkGrammar, type GrammarNode } from "./grammarModel";
+import { grammarNodeToEbnf } from "./grammarToEbnf";
+
+export type GrammarChange = "added" | "removed" | "changed";
+
+export interface GrammarDifference {
+  /** Location inside the rule, e.g. "alternative 2 › item 3". */
+  path: string;
+  change: GrammarChange;
+  /** Node on the "before" side; absent for "added". */
+  before?: GrammarNode;
+  /** Node on the "after" side; absent for "removed". */
+  after?: GrammarNode;
+}
+
+export interface DiffLabels {
+  before: string;
+  after: string;
+}
+
+const DEFAULT_LABELS: DiffLabels = { before: "before", after: "after" };
+
+function join(path: string, step: string): string {
+  return path ? `${path} › ${step}` : step;
+}
+
+function at(path: string): string {
+  return path || "rule";
+}
+
+/** Pairs items of `a` and `b` that are structurally equal, keeping order. */
+function lcsPairs(a: GrammarNode[], b: GrammarNode[]): [number, number][] {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = grammarEquals(a[i], b[j])
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (grammarEquals(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/** Leaf symbols of a node, used to judge how alike two nodes are. */
+function leafTokens(node: GrammarNode): string[] {
+  const out: string[] = [];
+  walkGrammar(node, (n) => {
+    if (n.kind === "terminal" || n.kind === "comment") out.push(n.text);
+    else if (n.kind === "nonterminal") out.push(n.name);
+  });
+  return out;
+}
+
+/** Share of leaf symbols two nodes have in common, in order (0…1). */
+function similarity(a: GrammarNode, b: GrammarNode): number {
+  const x = leafTokens(a);
+  const y = leafTokens(b);
+  if (x.length === 0 || y.length === 0) return 0;
+  const table = Array.from({ length: x.length + 1 }, () => new Array<number>(y.length + 1).fill(0));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      table[i][j] = x[i] === y[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table[0][0] / Math.max(x.length, y.length);
+}
+
+const PAIRING_THRESHOLD = 0.5;
+
+interface RunPairing {
+  pairs: [[number, GrammarNode], [number, GrammarNode]][];
+  removed: [number, GrammarNode][];
+  added: [number, GrammarNode][];
+}
+
+/**
+ * Pairs up unmatched runs: equal-length runs are paired positionally;
+ * otherwise nodes that are alike are paired, and anything left is
+ * removed/added.
+ */
+function pairRuns(before: [number, GrammarNode][], after: [number, GrammarNode][]): RunPairing {
+  if (before.length === after.length) {
+    return { pairs: before.map((entry, k) => [entry, after[k]]), removed: [], added: [] };
+  }
+  const result: RunPairing = { pairs: [], removed: [], added: [] };
+  const remaining = [...after];
+  for (const entry of before) {
+    let best = -1;
+    let bestScore = PAIRING_THRESHOLD;
+    remaining.forEach(([, other], k) => {
+      const score = similarity(entry[1], other);
+      if (score >= bestScore && (best < 0 || score > bestScore)) {
+        best = k;
+        bestScore = score;
+      }
+    });
+    if (best >= 0) result.pairs.push([entry, remaining.splice(best, 1)[0]]);
+    else result.removed.push(entry);
+  }
+  result.added = remaining;
+  return result;
+}
+
+function diffRuns(
+  before: [number, GrammarNode][],
+  after: [number, GrammarNode][],
+  step: string,
+  path: string,
+  out: GrammarDifference[]
+) {
+  const { pairs, removed, added } = pairRuns(before, after);
+  for (const [[i, node], [, other]] of pairs) diffNode(node, other, join(path, `${step} ${i + 1}`), out);
+  for (const [i, node] of removed) out.push({ path: join(path, `${step} ${i + 1}`), change: "removed", before: node });
+  for (const [j, node] of added) out.push({ path: join(path, `${step} ${j + 1}`), change: "added", after: node });
+}
+
+function diffSequenceItems(a: GrammarNode[], b: GrammarNode[], path: string, out: GrammarDifference[]) {
+  const pairs = [...lcsPairs(a, b), [a.length, b.length] as [number, number]];
+  let i = 0;
+  let j = 0;
+  for (const [pi, pj] of pairs) {
+    const before = a.slice(i, pi).map((n, k): [number, GrammarNode] => [i + k, n]);
+    const after = b.slice(j, pj).map((n, k): [number, GrammarNode] => [j + k, n]);
+    if (before.length || after.length) diffRuns(before, after, "item", path, out);
+    i = pi + 1;
+    j = pj + 1;
+  }
+}
+
+export type AlternativeStatus = "unchanged" | "changed" | "added" | "removed";
+
+export interface AlternativeMatch {
+  status: AlternativeStatus;
+  /** Index in the "before" alternatives; absent for "added". */
+  before?: number;
+  /** Index in the "after" alternatives; absent for "removed". */
+  after?: number;
+}
+
+/**
+ * Matches the alternatives of two choices the same way diffGrammar does:
+ * equal alternatives first, regardless of order, then the rest by
+ * similarity. Pass normalized nodes to ignore notation-only differences.
+ */
+export function matchAlternatives(a: GrammarNode[], b: GrammarNode[]): AlternativeMatch[] {
+  const unmatched = b.map((node, j): [number, GrammarNode] => [j, node]);
+  const matches: AlternativeMatch[] = [];
+  const before: [number, GrammarNode][] = [];
+  a.forEach((node, i) => {
+    const k = unmatched.findIndex(([, other]) => grammarEquals(node, other));
+    if (k >= 0) matches.push({ status: "unchanged", before: i, after: unmatched.splice(k, 1)[0][0] });
+    else before.push([i, node]);
+  });
+  const { pairs, removed, added } = pairRuns(before, unmatched);
+  for (const [[i], [j]] of pairs) matches.push({ status: "changed", before: i, after: j });
+  for (const [i] of removed) matches.push({ status: "removed", before: i });
+  for (const [j] of added) matches.push({ status: "added", after: j });
+  return matches;
+}
+
+function diffAlternatives(a: GrammarNode[], b: GrammarNode[], path: string, out: GrammarDifference[]) {
+  const removed: GrammarDifference[] = [];
+  const added: GrammarDifference[] = [];
+  for (const m of matchAlternatives(a, b)) {
+    if (m.status === "changed") {
+      diffNode(a[m.before!], b[m.after!], join(path, `alternative ${m.before! + 1}`), out);
+    } else if (m.status === "removed") {
+      removed.push({ path: join(path, `alternative ${m.before! + 1}`), change: "removed", before: a[m.before!] });
+    } else if (m.status === "added") {
+      added.push({ path: join(path, `alternative ${m.after! + 1}`), change: "added", after: b[m.after!] });
+    }
+  }
+  out.push(...removed, ...added);
+}
+
+function diffNode(a: GrammarNode, b: GrammarNode, path: string, out: GrammarDifference[]) {
+  if (grammarEquals(a, b)) return;
+
+  if (a.kind === "choice" && b.kind === "choice") {
+    diffAlternatives(a.alternatives, b.alternatives, path, out);
+  } else if (a.kind === "sequence" && b.kind === "sequence") {
+    diffSequenceItems(a.items, b.items, path, out);
+  } else if (a.kind === "optional" && b.kind === "optional") {
+    diffNode(a.item, b.item, join(path, "optional"), out);
+  } else if (a.kind === "repetition" && b.kind === "repetition" && a.min === b.min) {
+    diffNode(a.item, b.item, join(path, "repetition"), out);
+  } else {
+    out.push({ path: at(path), change: "changed", before: a, after: b });
+  }
+}
+
+/** Lists the structural differences between two rule bodies. */
+export function diffGrammar(before: GrammarNode, after: GrammarNode): GrammarDifference[] {
+  const out: GrammarDifference[] = [];
+  diffNode(normalizeGrammar(before), normalizeGrammar(after), "", out);
+  return out;
+}
+
+function describeKind(node: GrammarNode): string {
+  switch (node.kind) {
+    case "sequence":
+      return "a sequence";
+    case "choice":
+      return "a choice";
+    case "optional":
+      return "an optional";
+    case "repetition":
+      return node.min === 0 ? "a zero-or-more repetition" : "a one-or-more repetition";
+    case "terminal":
+      return "terminal";
+    case "nonterminal":
+      return "nonterminal";
+    case "comment":
+      return "comment";
+  }
+}
+
+/** One-line, human-readable description of a difference. */
+export function describeDifference(diff: GrammarDifference, labels: DiffLabels = DEFAULT_LABELS): string {
+  switch (diff.change) {
+    case "removed":
+      return `${diff.path}: \`${grammarNodeToEbnf(diff.before!)}\` present in ${labels.before} but absent in ${labels.after}`;
+    case "added":
+      return `${diff.path}: \`${grammarNodeToEbnf(diff.after!)}\` present in ${labels.after} but absent in ${labels.before}`;
+    case "changed":
+      return (
+        `${diff.path}: ${labels.before} has ${describeKind(diff.before!)} \`${grammarNodeToEbnf(diff.before!)}\`, ` +
+        `${labels.after} has ${describeKind(diff.after!)} \`${grammarNodeToEbnf(diff.after!)}\``
+      );
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Grammar Model
+ *
+ * A small typed AST for grammar productions. Each rule is written once in
+ * this model; the railroad diagrams (grammarToRailroad.ts) and the JLS-style
+ * EBNF text (grammarToEbnf.ts) are both generated from it.
+ */
+
+export interface SequenceNode {
+  kind: "sequence";
+  items: GrammarNode[];
+}
+
+export interface ChoiceNode {
+  kind: "choice";
+  alternatives: GrammarNode[];
+}
+
+export interface OptionalNode {
+  kind: "optional";
+  item: GrammarNode;
+}
+
+/** `min: 0` is JLS `{x}`; `min: 1` is `x {x}`. */
+export interface RepetitionNode {
+  kind: "repetition";
+  item: GrammarNode;
+  min: 0 | 1;
+}
+
+export interface TerminalNode {
+  kind: "terminal";
+  text: string;
+}
+
+export interface NonTerminalNode {
+  kind: "nonterminal";
+  name: string;
+}
+
+/** Prose that is not itself syntax, e.g. "but not yield". */
+export interface CommentNode {
+  kind: "comment";
+  text: string;
+}
+
+export type GrammarNode =
+  | SequenceNode
+  | ChoiceNode
+  | OptionalNode
+  | RepetitionNode
+  | TerminalNode
+  | NonTerminalNode
+  | CommentNode;
+
+export type GrammarNodeKind = GrammarNode["kind"];
+
+// ============================================================
+// Builders
+// ============================================================
+
+export function sequence(...items: GrammarNode[]): SequenceNode {
+  return { kind: "sequence", items };
+}
+
+export function choice(...alternatives: GrammarNode[]): ChoiceNode {
+  return { kind: "choice", alternatives };
+}
+
+export function optional(item: GrammarNode): OptionalNode {
+  return { kind: "optional", item };
+}
+
+export function zeroOrMore(item: GrammarNode): RepetitionNode {
+  return { kind: "repetition", item, min: 0 };
+}
+
+export function oneOrMore(item: GrammarNode): RepetitionNode {
+  return { kind: "repetition", item, min: 1 };
+}
+
+export function terminal(text: string): TerminalNode {
+  return { kind: "terminal", text };
+}
+
+export function nonTerminal(name: string): NonTerminalNode {
+  return { kind: "nonterminal", name };
+}
+
+export function comment(text: string): CommentNode {
+  return { kind: "comment", text };
+}
+
+// ============================================================
+// Traversal
+// ============================================================
+
+/** Returns the direct children of a node, in order. */
+export function childNodes(node: GrammarNode): GrammarNode[] {
+  switch (node.kind) {
+    case "sequence":
+      return node.items;
+    case "choice":
+      return node.alternatives;
+    case "optional":
+    case "repetition":
+      return [node.item];
+    default:
+      return [];
+  }
+}
+
+/** Visits `node` and all of its descendants in depth-first pre-order. */
+export function walkGrammar(node: GrammarNode, visit: (node: GrammarNode) => void): void {
+  visit(node);
+  for (const child of childNodes(node)) walkGrammar(child, visit);
+}
+
+/** The text in a node's diagram box: a terminal, nonterminal or comment. */
+export function nodeText(node: GrammarNode): string | undefined {
+  if (node.kind === "terminal" || node.kind === "comment") return node.text;
+  if (node.kind === "nonterminal") return node.name;
+  return undefined;
+}
+
+/** Names of all nonterminals referenced by `node`, in first-seen order. */
+export function referencedNonTerminals(node: GrammarNode): string[] {
+  const names = new Set<string>();
+  walkGrammar(node, (n) => {
+    if (n.kind === "nonterminal") names.add(n.name);
+  });
+  return Array.from(names);
+}
+
+// ============================================================
+// Comparison
+// ============================================================
+
+/** Structural equality of two grammar trees. */
+export function grammarEquals(a: GrammarNode, b: GrammarNode): boolean {
+  if (a.kind !== b.kind) return false;
+  switch (a.kind) {
+    case "terminal":
+    case "comment":
+      return a.text === (b as TerminalNode | CommentNode).text;
+    case "nonterminal":
+      return a.name === (b as NonTerminalNode).name;
+    case "repetition":
+      if (a.min !== (b as RepetitionNode).min) return false;
+      break;
+  }
+  const ac = childNodes(a);
+  const bc = childNodes(b);
+  return ac.length === bc.length && ac.every((child, i) => grammarEquals(child, bc[i]));
+}
+
+/**
+ * Rewrites a tree into a canonical shape so that equivalent notations
+ * compare equal:
+ *   - nested sequences are flattened and one-item sequences unwrapped
+ *   - `x {x}` becomes a one-or-more repetition of `x`
+ */
+export function normalizeGrammar(node: GrammarNode): GrammarNode {
+  switch (node.kind) {
+    case "sequence": {
+      const items: GrammarNode[] = [];
+      for (const child of node.items.map(normalizeGrammar)) {
+        if (child.kind === "sequence") items.push(...child.items);
+        else items.push(child);
+      }
+      const merged = mergeOneOrMore(items);
+      return merged.length === 1 ? merged[0] : sequence(...merged);
+    }
+    case "choice":
+      return choice(...node.alternatives.map(normalizeGrammar));
+    case "optional":
+      return optional(normalizeGrammar(node.item));
+    case "repetition":
+      return { kind: "repetition", item: normalizeGrammar(node.item), min: node.min };
+    default:
+      return node;
+  }
+}
+
+function mergeOneOrMore(items: GrammarNode[]): GrammarNode[] {
+  const out: GrammarNode[] = [];
+  for (const item of items) {
+    if (item.kind === "repetition" && item.min === 0) {
+      const body = item.item.kind === "sequence" ? item.item.items : [item.item];
+      const start = out.length - body.length;
+      if (start >= 0 && body.every((b, i) => grammarEquals(b, out[start + i]))) {
+        out.splice(start, body.length, oneOrMore(item.item));
+        continue;
+      }
+    }
+    out.push(item);
+  }
+  return out;
+}
@@ -0,0 +1,83 @@
+/**
+ * Grammar Registry
+ *
+ * Every supported Java release, keyed by version. Use these functions
+ * instead of the Java 25 rule map when the version is a user choice.
+ */
+
+import type { GrammarNode } from "./grammarModel";
+import { buildReverseReferences } from "./grammarAnalysis";
+import { grammarToDiagram } from "./grammarToRailroad";
+import type { GrammarVersion } from "./grammarVersion";
+import { JAVA_25_GRAMMAR, SECTION_ORDER, type SectionId } from "./java25Grammar";
+import { JAVA_21_GRAMMAR } from "./java21Grammar";
+import { JAVA_17_GRAMMAR } from "./java17Grammar";
+
+export type JavaVersion = "17" | "21" | "25";
+
+/** Oldest first. */
+export const JAVA_VERSIONS: JavaVersion[] = ["17", "21", "25"];
+
+export const DEFAULT_JAVA_VERSION: JavaVersion = "25";
+
+const GRAMMARS: Record<JavaVersion, GrammarVersion> = {
+  "17": JAVA_17_GRAMMAR,
+  "21": JAVA_21_GRAMMAR,
+  "25": JAVA_25_GRAMMAR,
+};
+
+export function isJavaVersion(value: string | null | undefined): value is JavaVersion {
+  return value != null && (JAVA_VERSIONS as string[]).includes(value);
+}
+
+export function getGrammar(version: JavaVersion): GrammarVersion {
+  return GRAMMARS[version];
+}
+
+/**
+ * Rule names of one section, in display order.
+ */
+export function getSectionRules(section: SectionId, version: JavaVersion = DEFAULT_JAVA_VERSION): string[] {
+  return GRAMMARS[version].sectionRules[section];
+}
+
+/**
+ * Returns the grammar model of a rule in the given version.
+ * Returns undefined if the rule does not exist in that version.
+ */
+export function getVersionedRuleNode(name: string, version: JavaVersion = DEFAULT_JAVA_VERSION): GrammarNode | undefined {
+  return GRAMMARS[version].rules.get(name);
+}
+
+/**
+ * Creates a railroad diagram for a rule in the given version.
+ * Returns undefined if the rule does not exist in that version.
+ */
+export function createVersionedRuleDiagram(name: string, version: JavaVersion = DEFAULT_JAVA_VERSION): any {
+  const node = getVersionedRuleNode(name, version);
+  return node ? grammarToDiagram(node) : undefined;
+}
+
+export interface SectionReferences {
+  section: SectionId;
+  rules: string[];
+}
+
+const reverseReferenceCache = new Map<JavaVersion, Map<string, string[]>>();
+
+/**
+ * Rules that refer to `name` in the given version, grouped by section in
+ * section order; within a section, rules keep their display order.
+ */
+export function getReferencingRules(name: string, version: JavaVersion = DEFAULT_JAVA_VERSION): SectionReferences[] {
+  if (!reverseReferenceCache.has(version)) {
+    reverseReferenceCache.set(version, buildReverseReferences(GRAMMARS[version].rules));
+  }
+  const users = new Set(reverseReferenceCache.get(version)!.get(name) ?? []);
+  const groups: SectionReferences[] = [];
+  for (const section of SECTION_ORDER) {
+    const rules = GRAMMARS[version].sectionRules[section].filter((rule) => users.has(rule));
+    if (rules.length > 0) groups.push({ section, rules });
+  }
+  return groups;
+}
@@ -0,0 +1,88 @@
+/**
+ * Grammar Model → JLS-style EBNF text
+ *
+ * Follows the notation of JLS §2.4:
+ *   - each top-level alternative goes on its own line
+ *   - `[x]` is optional, `{x}` is zero or more
+ *   - a choice made only of single symbols with at least two terminals
+ *     is written as "(one of)"
+ *
+ * Brackets that are metasymbols hug their contents (`[TypeArguments]`),
+ * while bracket terminals stand alone (`{ [BlockStatements] }`).
+ * Choices nested inside a line are written `(a | b)`.
+ */
+
+import type { GrammarNode } from "./grammarModel";
+
+const INDENT = "    ";
+const ONE_OF_WIDTH = 60;
+
+function isSymbol(node: GrammarNode): boolean {
+  return node.kind === "terminal" || node.kind === "nonterminal";
+}
+
+function isOneOf(node: GrammarNode): boolean {
+  if (node.kind !== "choice" || !node.alternatives.every(isSymbol)) return false;
+  return node.alternatives.filter((a) => a.kind === "terminal").length >= 2;
+}
+
+/** Renders `node` as the contents of a bracket pair (no extra grouping needed). */
+function formatInner(node: GrammarNode): string {
+  if (node.kind === "choice") return node.alternatives.map(formatNode).join(" | ");
+  return formatNode(node);
+}
+
+function formatNode(node: GrammarNode): string {
+  switch (node.kind) {
+    case "sequence":
+      return node.items.map(formatNode).join(" ");
+    case "choice":
+      return `(${formatInner(node)})`;
+    case "optional":
+      return `[${formatInner(node.item)}]`;
+    case "repetition":
+      return node.min === 0
+        ? `{${formatInner(node.item)}}`
+        : `${formatNode(node.item)} {${formatInner(node.item)}}`;
+    case "terminal":
+      return node.text;
+    case "nonterminal":
+      return node.name;
+    case "comment":
+      return node.text;
+  }
+}
+
+function formatOneOf(symbols: string[]): string[] {
+  const lines: string[] = [];
+  let line = "(one of)";
+  for (const symbol of symbols) {
+    if (line.length + 1 + symbol.length > ONE_OF_WIDTH && line !== "(one of)") {
+      lines.push(line);
+      line = symbol;
+    } else {
+      line += ` ${symbol}`;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/** Renders a single node inline, e.g. `[Identifier .]` or `(a | b)`. */
+export function grammarNodeToEbnf(node: GrammarNode): string {
+  return formatNode(node);
+}
+
+/** Right-hand side lines of a production, without indentation. */
+export function grammarToEbnfLines(node: GrammarNode): string[] {
+  if (isOneOf(node) && node.kind === "choice") {
+    return formatOneOf(node.alternatives.map(formatNode));
+  }
+  if (node.kind === "choice") return node.alternatives.map(formatNode);
+  return [formatNode(node)];
+}
+
+/** Renders a full production: `Name:` followed by indented alternatives. */
+export function ruleToEbnf(name: string, node: GrammarNode): string {
+  return [`${name}:`, ...grammarToEbnfLines(node).map((line) => INDENT + line)].join("\n");
+}
@@ -0,0 +1,143 @@
+/**
+ * Grammar Model → Railroad Diagram
+ *
+ * Converts a GrammarNode tree into @prantlf/railroad-diagrams objects, and
+ * reads a railroad diagram object tree back into a GrammarNode tree.
+ */
+
+import {
+  Diagram,
+  Sequence,
+  Choice,
+  Optional,
+  OneOrMore,
+  ZeroOrMore,
+  Terminal,
+  NonTerminal,
+  Comment,
+  Stack,
+  Skip,
+  Start,
+  End,
+} from "@prantlf/railroad-diagrams/lib/index.mjs";
+import {
+  choice,
+  comment,
+  nonTerminal,
+  oneOrMore,
+  optional,
+  sequence,
+  terminal,
+  zeroOrMore,
+  type GrammarNode,
+  type RepetitionNode,
+} from "./grammarModel";
+
+// NOTE: @prantlf/railroad-diagrams has shipped both factory-function and ES-class APIs
+// across versions/build targets. Calling a class without `new` throws:
+//   "Class constructor X cannot be invoked without 'new'"
+// This wrapper supports either shape at runtime.
+const __isClass = (fn: any): fn is new (...args: any[]) => any =>
+  typeof fn === "function" && /^class\s/.test(Function.prototype.toString.call(fn));
+
+const rr = (fn: any, ...args: any[]) => {
+  if (__isClass(fn)) return new fn(...args);
+
+  try {
+    return fn(...args);
+  } catch (err: any) {
+    const msg = String(err?.message ?? err);
+    if (
+      msg.includes("without 'new'") ||
+      msg.includes("Class constructor") ||
+      msg.includes("Cannot call a class as a function")
+    ) {
+      return new fn(...args);
+    }
+    throw err;
+  }
+};
+
+export interface DiagramOptions {
+  /**
+   * Extra CSS class for the SVG group of a node, e.g. to highlight it.
+   * Nodes are matched by identity.
+   */
+  classOf?: (node: GrammarNode) => string | undefined;
+  /** Text written on the loop-back line of a repetition, e.g. an iteration count. */
+  repeatLabelOf?: (node: RepetitionNode) => string | undefined;
+}
+
+function toRailroadItem(node: GrammarNode, options: DiagramOptions): any {
+  const convert = (child: GrammarNode) => toRailroadItem(child, options);
+  let item: any;
+  switch (node.kind) {
+    case "sequence":
+      item = rr(Sequence, ...node.items.map(convert));
+      break;
+    case "choice":
+      item = rr(Choice, 0, ...node.alternatives.map(convert));
+      break;
+    case "optional":
+      item = rr(Optional, convert(node.item));
+      break;
+    case "repetition": {
+      const label = options.repeatLabelOf?.(node);
+      const args = label ? [convert(node.item), rr(Comment, label)] : [convert(node.item)];
+      item = rr(node.min === 0 ? ZeroOrMore : OneOrMore, ...args);
+      break;
+    }
+    case "terminal":
+      item = rr(Terminal, node.text);
+      break;
+    case "nonterminal":
+      item = rr(NonTerminal, node.name);
+      break;
+    case "comment":
+      item = rr(Comment, node.text);
+      break;
+  }
+  const extra = options.classOf?.(node);
+  if (extra) item.attrs.class = item.attrs.class ? `${item.attrs.class} ${extra}` : extra;
+  return item;
+}
+
+/** Builds a complete railroad Diagram for a rule body. */
+export function grammarToDiagram(node: GrammarNode, options: DiagramOptions = {}): any {
+  return rr(Diagram, toRailroadItem(node, options));
+}
+
+// The library has no Optional or ZeroOrMore objects of its own:
+//   Optional(x)   is built as Choice(1, Skip, x)
+//   ZeroOrMore(x) is built as Optional(OneOrMore(x))
+// so both are recognised by a Skip alternative inside a Choice.
+function fromRailroadItem(item: any): GrammarNode {
+  if (item instanceof Sequence || item instanceof Stack) {
+    return sequence(...item.items.map(fromRailroadItem));
+  }
+  if (item instanceof Choice) {
+    const rest = item.items.filter((i: any) => !(i instanceof Skip));
+    if (rest.length === item.items.length) return choice(...rest.map(fromRailroadItem));
+    if (rest.length === 1 && rest[0] instanceof OneOrMore && rest[0].rep instanceof Skip) {
+      return zeroOrMore(fromRailroadItem(rest[0].item));
+    }
+    const inner = rest.length === 1 ? fromRailroadItem(rest[0]) : choice(...rest.map(fromRailroadItem));
+    return optional(inner);
+  }
+  if (item instanceof OneOrMore) {
+    if (!(item.rep instanceof Skip)) {
+      throw new Error("OneOrMore with a separator has no grammar model equivalent");
+    }
+    return oneOrMore(fromRailroadItem(item.item));
+  }
+  if (item instanceof Terminal) return terminal(item.text);
+  if (item instanceof NonTerminal) return nonTerminal(item.text);
+  if (item instanceof Comment) return comment(item.text);
+  throw new Error(`Unsupported railroad item: ${item?.constructor?.name ?? typeof item}`);
+}
+
+/** Reads a railroad Diagram object tree back into the grammar model. */
+export function diagramToGrammar(diagram: any): GrammarNode {
+  const items = diagram.items.filter((i: any) => !(i instanceof Start) && !(i instanceof End));
+  return items.length === 1 ? fromRailroadItem(items[0]) : sequence(...items.map(fromRailroadItem));
+}
@@ -0,0 +1,64 @@
+/**
+ * Grammar Versions
+ *
+ * A language version is a rule map plus the per-section rule order. Older
+ * versions are derived from a newer one by listing only what differs, so
+ * every unchanged production is the very same GrammarNode object in both.
+ */
+
+import type { GrammarNode } from "./grammarModel";
+import type { SectionId } from "./java25Grammar";
+
+export interface GrammarVersion {
+  /** Release number, e.g. "21". */
+  version: string;
+  /** Display name, e.g. "Java SE 21". */
+  title: string;
+  rules: ReadonlyMap<string, GrammarNode>;
+  sectionRules: Record<SectionId, string[]>;
+}
+
+export interface GrammarChanges {
+  /** Rules whose production differs; they keep their section and position. */
+  replace?: Record<string, GrammarNode>;
+  /** Rules that exist only in the derived version, placed after an existing rule. */
+  add?: { name: string; after: string; node: GrammarNode }[];
+  /** Rules that do not exist in the derived version. */
+  remove?: string[];
+}
+
+/** Creates a new version from `base` by applying `changes`. */
+export function deriveGrammarVersion(
+  base: GrammarVersion,
+  version: string,
+  title: string,
+  changes: GrammarChanges
+): GrammarVersion {
+  const rules = new Map(base.rules);
+  const sectionRules = {} as Record<SectionId, string[]>;
+  for (const [section, names] of Object.entries(base.sectionRules) as [SectionId, string[]][]) {
+    sectionRules[section] = [...names];
+  }
+
+  for (const [name, node] of Object.entries(changes.replace ?? {})) {
+    if (!rules.has(name)) throw new Error(`Java ${version}: cannot replace unknown rule ${name}`);
+    rules.set(name, node);
+  }
+
+  for (const name of changes.remove ?? []) {
+    if (!rules.delete(name)) throw new Error(`Java ${version}: cannot remove unknown rule ${name}`);
+    for (const names of Object.values(sectionRules)) {
+      const i = names.indexOf(name);
+      if (i >= 0) names.splice(i, 1);
+    }
+  }
+
+  for (const { name, after, node } of changes.add ?? []) {
+    const names = Object.values(sectionRules).find((list) => list.includes(after));
+    if (!names) throw new Error(`Java ${version}: cannot add ${name} after unknown rule ${after}`);
+    names.splice(names.indexOf(after) + 1, 0, name);
+    rules.set(name, node);
+  }
+
+  return { version, title, rules, sectionRules };
+}
@@ -0,0 +1,39 @@
+/**
+ * Java 17 Grammar – Differences from Java 21
+ *
+ * Derived from the Java SE 21 grammar; only productions that differ are
+ * listed. Based on Java Language Specification SE 17, Chapter 19.
+ *
+ * Not yet in Java 17 (both final in Java 21):
+ *   - pattern matching for switch (`case null`, case patterns, guards)
+ *   - record patterns
+ */
+
+import { sequence, choice, zeroOrMore, terminal, nonTerminal } from "./grammarModel";
+import { deriveGrammarVersion } from "./grammarVersion";
+import { JAVA_21_GRAMMAR } from "./java21Grammar";
+
+// Shorthand helpers
+const Seq = sequence;
+const Ch = choice;
+const ZOM = zeroOrMore;
+const T = terminal;
+const NT = nonTerminal;
+
+export const JAVA_17_GRAMMAR = deriveGrammarVersion(JAVA_21_GRAMMAR, "17", "Java SE 17", {
+  replace: {
+    SwitchLabel: Ch(
+      Seq(T("case"), NT("CaseConstant"), ZOM(Seq(T(","), NT("CaseConstant")))),
+      T("default")
+    ),
+
+    Pattern: NT("TypePattern"),
+  },
+
+  remove: [
+    "CasePattern",
+    "Guard",
+    "RecordPattern",
+    "PatternList",
+  ],
+});
@@ -0,0 +1,94 @@
+/**
+ * Java 21 Grammar – Differences from Java 25
+ *
+ * Derived from the Java SE 25 grammar; only productions that differ are
+ * listed. Based on Java Language Specification SE 21, Chapter 19.
+ *
+ * Not yet in Java 21 (all final in later releases):
+ *   - compact source files and module import declarations (Java 25)
+ *   - flexible constructor bodies (Java 25)
+ *   - unnamed variables and patterns `_` (Java 22)
+ */
+
+import { sequence, choice, optional, zeroOrMore, terminal, nonTerminal } from "./grammarModel";
+import { deriveGrammarVersion } from "./grammarVersion";
+import { JAVA_25_GRAMMAR } from "./java25Grammar";
+
+// Shorthand helpers
+const Seq = sequence;
+const Ch = choice;
+const Opt = optional;
+const ZOM = zeroOrMore;
+const T = terminal;
+const NT = nonTerminal;
+
+export const JAVA_21_GRAMMAR = deriveGrammarVersion(JAVA_25_GRAMMAR, "21", "Java SE 21", {
+  replace: {
+    CompilationUnit: Ch(
+      NT("OrdinaryCompilationUnit"),
+      NT("ModularCompilationUnit")
+    ),
+
+    ImportDeclaration: Ch(
+      NT("SingleTypeImportDeclaration"),
+      NT("TypeImportOnDemandDeclaration"),
+      NT("SingleStaticImportDeclaration"),
+      NT("StaticImportOnDemandDeclaration")
+    ),
+
+    ConstructorBody: Seq(
+      T("{"),
+      Opt(NT("ExplicitConstructorInvocation")),
+      Opt(NT("BlockStatements")),
+      T("}")
+    ),
+
+    VariableDeclaratorId: Seq(NT("Identifier"), Opt(NT("Dims"))),
+
+    SwitchLabel: Ch(
+      Seq(T("case"), NT("CaseConstant"), ZOM(Seq(T(","), NT("CaseConstant")))),
+      Seq(T("case"), T("null"), Opt(Seq(T(","), T("default")))),
+      Seq(T("case"), NT("CasePattern"), Opt(NT("Guard"))),
+      T("default")
+    ),
+
+    RecordPattern: Seq(NT("ReferenceType"), T("("), Opt(NT("PatternList")), T(")")),
+
+    LambdaParameters: Ch(
+      Seq(T("("), Opt(NT("LambdaParameterList")), T(")")),
+      NT("Identifier")
+    ),
+
+    LambdaParameterList: Ch(
+      Seq(NT("LambdaParameter"), ZOM(Seq(T(","), NT("LambdaParameter")))),
+      Seq(NT("Identifier"), ZOM(Seq(T(","), NT("Identifier"))))
+    ),
+  },
+
+  remove: [
+    "CompactCompilationUnit",
+    "ClassMemberDeclarationNoMethod",
+    "SingleModuleImportDeclaration",
+    "ComponentPatternList",
+    "ComponentPattern",
+    "MatchAllPattern",
+    "NormalLambdaParameter",
+    "ConciseLambdaParameter",
+  ],
+
+  add: [
+    {
+      name: "PatternList",
+      after: "RecordPattern",
+      node: Seq(NT("Pattern"), ZOM(Seq(T(","), NT("Pattern")))),
+    },
+    {
+      name: "LambdaParameter",
+      after: "LambdaParameterList",
+      node: Ch(
+        Seq(ZOM(NT("VariableModifier")), NT("LambdaParameterType"), NT("VariableDeclaratorId")),
+        NT("VariableArityParameter")
+      ),
+    },
+  ],
+});
@@ -1,62 +1,37 @@
 /**
- * Java 25 Grammar – Railroad Diagram Factories
+ * Java 25 Grammar – Rule Definitions
  *
- * This file defines diagram factories for each Java 25 grammar rule.
+ * This file defines each Java 25 grammar rule once, as a GrammarNode tree
+ * (see grammarModel.ts). Both the railroad diagram and the EBNF text of a
+ * rule are generated from that single definition.
  * Based on Java Language Specification SE 25, Chapter 19.
  *
- * Each rule is a factory function: () => D(...).
  * Use createRuleDiagram(name) to get the diagram object.
  */
 
 import {
-  Diagram,
-  Sequence,
-  Choice,
-  Optional,
-  OneOrMore,
-  ZeroOrMore,
-  Terminal,
-  NonTerminal,
-  Stack,
-  Comment,
-} from "@prantlf/railroad-diagrams/lib/index.mjs";
+  sequence,
+  choice,
+  optional,
+  zeroOrMore,
+  oneOrMore,
+  terminal,
+  nonTerminal,
+  comment,
+  type GrammarNode,
+} from "./grammarModel";
+import { grammarToDiagram } from "./grammarToRailroad";
+import type { GrammarVersion } from "./grammarVersion";
 
 // Shorthand helpers
-// NOTE: @prantlf/railroad-diagrams has shipped both factory-function and ES-class APIs
-// across versions/build targets. Calling a class without `new` throws:
-//   "Class constructor X cannot be invoked without 'new'"
-// This wrapper supports either shape at runtime.
-const __isClass = (fn: any): fn is new (...args: any[]) => any =>
-  typeof fn === "function" && /^class\s/.test(Function.prototype.toString.call(fn));
-
-const rr = (fn: any, ...args: any[]) => {
-  if (__isClass(fn)) return new fn(...args);
-
-  try {
-    return fn(...args);
-  } catch (err: any) {
-    const msg = String(err?.message ?? err);
-    if (
-      msg.includes("without 'new'") ||
-      msg.includes("Class constructor") ||
-      msg.includes("Cannot call a class as a function")
-    ) {
-      return new fn(...args);
-    }
-    throw err;
-  }
-};
-
-const D = (...items: any[]) => rr(Diagram, ...items);
-const Seq = (...items: any[]) => rr(Sequence, ...items);
-const Ch = (...items: any[]) => rr(Choice, ...items);
-const Opt = (...items: any[]) => rr(Optional, ...items);
-const OOM = (...items: any[]) => rr(OneOrMore, ...items);
-const ZOM = (...items: any[]) => rr(ZeroOrMore, ...items);
-const Stk = (...items: any[]) => rr(Stack, ...items);
-const Cmt = (text: string, ...rest: any[]) => rr(Comment, text, ...rest);
-const T = (text: string, ...rest: any[]) => rr(Terminal, text, ...rest);
-const NT = (text: string, ...rest: any[]) => rr(NonTerminal, text, ...rest);
+const Seq = sequence;
+const Ch = choice;
+const Opt = optional;
+const ZOM = zeroOrMore;
+const OOM = oneOrMore;
+const Cmt = comment;
+const T = terminal;
+const NT = nonTerminal;
 
 // ============================================================
 
@@ -98,8 +73,19 @@ export const SECTION_TITLES: Record<SectionId, string> = {
   expressions: "§15 Expressions",
 };
 
+/** JLS §7.3: the goal symbol of the syntactic grammar. */
+export const GOAL_RULE = "CompilationUnit";
+
 export const SECTION_RULES: Record<SectionId, string[]> = {
   lexical: [
+    "UnicodeInputCharacter",
+    "UnicodeEscape",
+    "UnicodeMarker",
+    "HexDigit",
+    "RawInputCharacter",
+    "LineTerminator",
+    "InputCharacter",
+    "WhiteSpace",
     "Identifier",
     "IdentifierChars",
     "JavaLetter",
@@ -107,6 +93,56 @@ export const SECTION_RULES: Record<SectionId, string[]> = {
     "TypeIdentifier",
     "UnqualifiedMethodIdentifier",
     "Literal",
+    "IntegerLiteral",
+    "DecimalIntegerLiteral",
+    "HexIntegerLiteral",
+    "OctalIntegerLiteral",
+    "BinaryIntegerLiteral",
+    "IntegerTypeSuffix",
+    "DecimalNumeral",
+    "NonZeroDigit",
+    "Digits",
+    "Digit",
+    "DigitsAndUnderscores",
+    "DigitOrUnderscore",
+    "Underscores",
+    "HexNumeral",
+    "HexDigits",
+    "HexDigitsAndUnderscores",
+    "HexDigitOrUnderscore",
+    "OctalNumeral",
+    "OctalDigits",
+    "OctalDigit",
+    "OctalDigitsAndUnderscores",
+    "OctalDigitOrUnderscore",
+    "BinaryNumeral",
+    "BinaryDigits",
+    "BinaryDigit",
+    "BinaryDigitsAndUnderscores",
+    "BinaryDigitOrUnderscore",
+    "FloatingPointLiteral",
+    "DecimalFloatingPointLiteral",
+    "ExponentPart",
+    "ExponentIndicator",
+    "SignedInteger",
+    "Sign",
+    "FloatTypeSuffix",
+    "HexadecimalFloatingPointLiteral",
+    "HexSignificand",
+    "BinaryExponent",
+    "BinaryExponentIndicator",
+    "BooleanLiteral",
+    "CharacterLiteral",
+    "SingleCharacter",
+    "StringLiteral",
+    "StringCharacter",
+    "TextBlock",
+    "TextBlockWhiteSpace",
+    "TextBlockCharacter",
+    "EscapeSequence",
+    "OctalEscape",
+    "ZeroToThree",
+    "NullLiteral",
   ],
   types: [
     "Type",
@@ -143,6 +179,8 @@ export const SECTION_RULES: Record<SectionId, string[]> = {
   packages: [
     "CompilationUnit",
     "OrdinaryCompilationUnit",
+    "CompactCompilationUnit",
+    "ClassMemberDeclarationNoMethod",
     "ModularCompilationUnit",
     "PackageDeclaration",
     "PackageModifier",
@@ -205,7 +243,7 @@ export const SECTION_RULES: Record<SectionId, string[]> = {
     "ConstructorDeclarator",
     "SimpleTypeName",
     "ConstructorBody",
-    "ConstructorInvocation",
+    "ExplicitConstructorInvocation",
     "EnumDeclaration",
     "EnumBody",
     "EnumConstantList",
@@ -373,184 +411,481 @@ export const SECTION_RULES: Record<SectionId, string[]> = {
 };
 
 // ============================================================
-// Diagram factory map
+// Rule map
 // ============================================================
 
-type DiagramFactory = () => any;
-const rules = new Map<string, DiagramFactory>();
+const rules = new Map<string, GrammarNode>();
 
 // ------------------------------------------------------------
 // §3 Lexical Structure
 // ------------------------------------------------------------
 
-rules.set("Identifier", () =>
-  D(
-    Seq(
-      NT("IdentifierChars"),
-      Cmt("but not ReservedKeyword, BooleanLiteral, or NullLiteral")
-    )
+rules.set("UnicodeInputCharacter",
+  Ch(NT("UnicodeEscape"), NT("RawInputCharacter"))
+);
+
+rules.set("UnicodeEscape",
+  Seq(T("\\"), NT("UnicodeMarker"), NT("HexDigit"), NT("HexDigit"), NT("HexDigit"), NT("HexDigit"))
+);
+
+rules.set("UnicodeMarker",
+  OOM(T("u"))
+);
+
+rules.set("HexDigit",
+  Ch(
+    T("0"), T("1"), T("2"), T("3"), T("4"), T("5"), T("6"), T("7"), T("8"), T("9"),
+    T("a"), T("b"), T("c"), T("d"), T("e"), T("f"),
+    T("A"), T("B"), T("C"), T("D"), T("E"), T("F")
+  )
+);
+
+rules.set("RawInputCharacter",
+  Cmt("any Unicode character")
+);
+
+rules.set("LineTerminator",
+  Ch(
+    Cmt('the ASCII LF character, also known as "newline"'),
+    Cmt('the ASCII CR character, also known as "return"'),
+    Cmt("the ASCII CR character followed by the ASCII LF character")
+  )
+);
+
+rules.set("InputCharacter",
+  Seq(NT("UnicodeInputCharacter"), Cmt("but not CR or LF"))
+);
+
+rules.set("WhiteSpace",
+  Ch(
+    Cmt('the ASCII SP character, also known as "space"'),
+    Cmt('the ASCII HT character, also known as "horizontal tab"'),
+    Cmt('the ASCII FF character, also known as "form feed"'),
+    NT("LineTerminator")
+  )
+);
+
+rules.set("Identifier",
+  Seq(
+    NT("IdentifierChars"),
+    Cmt("but not a ReservedKeyword or BooleanLiteral or NullLiteral")
+  )
+);
+
+rules.set("IdentifierChars",
+  Seq(NT("JavaLetter"), ZOM(NT("JavaLetterOrDigit")))
+);
+
+rules.set("JavaLetter",
+  Cmt('any Unicode character that is a "Java letter"')
+);
+
+rules.set("JavaLetterOrDigit",
+  Cmt('any Unicode character that is a "Java letter-or-digit"')
+);
+
+rules.set("TypeIdentifier",
+  Seq(
+    NT("Identifier"),
+    Cmt("but not permits, record, sealed, var, or yield")
+  )
+);
+
+rules.set("UnqualifiedMethodIdentifier",
+  Seq(NT("Identifier"), Cmt("but not yield"))
+);
+
+rules.set("Literal",
+  Ch(
+    NT("IntegerLiteral"),
+    NT("FloatingPointLiteral"),
+    NT("BooleanLiteral"),
+    NT("CharacterLiteral"),
+    NT("StringLiteral"),
+    NT("TextBlock"),
+    NT("NullLiteral")
+  )
+);
+
+// §3.10.1 Integer Literals
+
+rules.set("IntegerLiteral",
+  Ch(
+    NT("DecimalIntegerLiteral"),
+    NT("HexIntegerLiteral"),
+    NT("OctalIntegerLiteral"),
+    NT("BinaryIntegerLiteral")
+  )
+);
+
+rules.set("DecimalIntegerLiteral",
+  Seq(NT("DecimalNumeral"), Opt(NT("IntegerTypeSuffix")))
+);
+
+rules.set("HexIntegerLiteral",
+  Seq(NT("HexNumeral"), Opt(NT("IntegerTypeSuffix")))
+);
+
+rules.set("OctalIntegerLiteral",
+  Seq(NT("OctalNumeral"), Opt(NT("IntegerTypeSuffix")))
+);
+
+rules.set("BinaryIntegerLiteral",
+  Seq(NT("BinaryNumeral"), Opt(NT("IntegerTypeSuffix")))
+);
+
+rules.set("IntegerTypeSuffix",
+  Ch(T("l"), T("L"))
+);
+
+rules.set("DecimalNumeral",
+  Ch(
+    T("0"),
+    Seq(NT("NonZeroDigit"), Opt(NT("Digits"))),
+    Seq(NT("NonZeroDigit"), NT("Underscores"), NT("Digits"))
+  )
+);
+
+rules.set("NonZeroDigit",
+  Ch(T("1"), T("2"), T("3"), T("4"), T("5"), T("6"), T("7"), T("8"), T("9"))
+);
+
+rules.set("Digits",
+  Ch(
+    NT("Digit"),
+    Seq(NT("Digit"), Opt(NT("DigitsAndUnderscores")), NT("Digit"))
+  )
+);
+
+rules.set("Digit",
+  Ch(T("0"), NT("NonZeroDigit"))
+);
+
+rules.set("DigitsAndUnderscores",
+  OOM(NT("DigitOrUnderscore"))
+);
+
+rules.set("DigitOrUnderscore",
+  Ch(NT("Digit"), T("_"))
+);
+
+rules.set("Underscores",
+  OOM(T("_"))
+);
+
+rules.set("HexNumeral",
+  Ch(
+    Seq(T("0x"), NT("HexDigits")),
+    Seq(T("0X"), NT("HexDigits"))
+  )
+);
+
+rules.set("HexDigits",
+  Ch(
+    NT("HexDigit"),
+    Seq(NT("HexDigit"), Opt(NT("HexDigitsAndUnderscores")), NT("HexDigit"))
+  )
+);
+
+rules.set("HexDigitsAndUnderscores",
+  OOM(NT("HexDigitOrUnderscore"))
+);
+
+rules.set("HexDigitOrUnderscore",
+  Ch(NT("HexDigit"), T("_"))
+);
+
+rules.set("OctalNumeral",
+  Ch(
+    Seq(T("0"), NT("OctalDigits")),
+    Seq(T("0"), NT("Underscores"), NT("OctalDigits"))
+  )
+);
+
+rules.set("OctalDigits",
+  Ch(
+    NT("OctalDigit"),
+    Seq(NT("OctalDigit"), Opt(NT("OctalDigitsAndUnderscores")), NT("OctalDigit"))
+  )
+);
+
+rules.set("OctalDigit",
+  Ch(T("0"), T("1"), T("2"), T("3"), T("4"), T("5"), T("6"), T("7"))
+);
+
+rules.set("OctalDigitsAndUnderscores",
+  OOM(NT("OctalDigitOrUnderscore"))
+);
+
+rules.set("OctalDigitOrUnderscore",
+  Ch(NT("OctalDigit"), T("_"))
+);
+
+rules.set("BinaryNumeral",
+  Ch(
+    Seq(T("0b"), NT("BinaryDigits")),
+    Seq(T("0B"), NT("BinaryDigits"))
+  )
+);
+
+rules.set("BinaryDigits",
+  Ch(
+    NT("BinaryDigit"),
+    Seq(NT("BinaryDigit"), Opt(NT("BinaryDigitsAndUnderscores")), NT("BinaryDigit"))
+  )
+);
+
+rules.set("BinaryDigit",
+  Ch(T("0"), T("1"))
+);
+
+rules.set("BinaryDigitsAndUnderscores",
+  OOM(NT("BinaryDigitOrUnderscore"))
+);
+
+rules.set("BinaryDigitOrUnderscore",
+  Ch(NT("BinaryDigit"), T("_"))
+);
+
+// §3.10.2 Floating-Point Literals
+
+rules.set("FloatingPointLiteral",
+  Ch(NT("DecimalFloatingPointLiteral"), NT("HexadecimalFloatingPointLiteral"))
+);
+
+rules.set("DecimalFloatingPointLiteral",
+  Ch(
+    Seq(NT("Digits"), T("."), Opt(NT("Digits")), Opt(NT("ExponentPart")), Opt(NT("FloatTypeSuffix"))),
+    Seq(T("."), NT("Digits"), Opt(NT("ExponentPart")), Opt(NT("FloatTypeSuffix"))),
+    Seq(NT("Digits"), NT("ExponentPart"), Opt(NT("FloatTypeSuffix"))),
+    Seq(NT("Digits"), Opt(NT("ExponentPart")), NT("FloatTypeSuffix"))
+  )
+);
+
+rules.set("ExponentPart",
+  Seq(NT("ExponentIndicator"), NT("SignedInteger"))
+);
+
+rules.set("ExponentIndicator",
+  Ch(T("e"), T("E"))
+);
+
+rules.set("SignedInteger",
+  Seq(Opt(NT("Sign")), NT("Digits"))
+);
+
+rules.set("Sign",
+  Ch(T("+"), T("-"))
+);
+
+rules.set("FloatTypeSuffix",
+  Ch(T("f"), T("F"), T("d"), T("D"))
+);
+
+rules.set("HexadecimalFloatingPointLiteral",
+  Seq(NT("HexSignificand"), NT("BinaryExponent"), Opt(NT("FloatTypeSuffix")))
+);
+
+rules.set("HexSignificand",
+  Ch(
+    Seq(NT("HexNumeral"), Opt(T("."))),
+    Seq(T("0x"), Opt(NT("HexDigits")), T("."), NT("HexDigits")),
+    Seq(T("0X"), Opt(NT("HexDigits")), T("."), NT("HexDigits"))
+  )
+);
+
+rules.set("BinaryExponent",
+  Seq(NT("BinaryExponentIndicator"), NT("SignedInteger"))
+);
+
+rules.set("BinaryExponentIndicator",
+  Ch(T("p"), T("P"))
+);
+
+// §3.10.3 – §3.10.8 Boolean, Character, String, Text Block, Escape and Null Literals
+
+rules.set("BooleanLiteral",
+  Ch(T("true"), T("false"))
+);
+
+rules.set("CharacterLiteral",
+  Ch(
+    Seq(T("'"), NT("SingleCharacter"), T("'")),
+    Seq(T("'"), NT("EscapeSequence"), T("'"))
   )
 );
 
-rules.set("IdentifierChars", () =>
-  D(
-    Seq(NT("JavaLetter"), ZOM(NT("JavaLetterOrDigit")))
+rules.set("SingleCharacter",
+  Seq(NT("InputCharacter"), Cmt("but not ' or \\"))
+);
+
+rules.set("StringLiteral",
+  Seq(T('"'), ZOM(NT("StringCharacter")), T('"'))
+);
+
+rules.set("StringCharacter",
+  Ch(
+    Seq(NT("InputCharacter"), Cmt('but not " or \\')),
+    NT("EscapeSequence")
   )
 );
 
-rules.set("JavaLetter", () =>
-  D(Cmt("any Unicode character that is a Java letter"))
+rules.set("TextBlock",
+  Seq(
+    T('"""'),
+    ZOM(NT("TextBlockWhiteSpace")),
+    NT("LineTerminator"),
+    ZOM(NT("TextBlockCharacter")),
+    T('"""')
+  )
 );
 
-rules.set("JavaLetterOrDigit", () =>
-  D(Cmt("any Unicode character that is a Java letter-or-digit"))
+rules.set("TextBlockWhiteSpace",
+  Seq(NT("WhiteSpace"), Cmt("but not LineTerminator"))
 );
 
-rules.set("TypeIdentifier", () =>
-  D(
-    Seq(
-      NT("Identifier"),
-      Cmt("but not permits, record, sealed, var, or yield")
-    )
+rules.set("TextBlockCharacter",
+  Ch(
+    Seq(NT("InputCharacter"), Cmt("but not \\")),
+    NT("EscapeSequence"),
+    NT("LineTerminator")
   )
 );
 
-rules.set("UnqualifiedMethodIdentifier", () =>
-  D(
-    Seq(NT("Identifier"), Cmt("but not yield"))
+rules.set("EscapeSequence",
+  Ch(
+    T("\\b"),
+    T("\\s"),
+    T("\\t"),
+    T("\\n"),
+    T("\\f"),
+    T("\\r"),
+    Seq(T("\\"), NT("LineTerminator")),
+    T('\\"'),
+    T("\\'"),
+    T("\\\\"),
+    NT("OctalEscape")
   )
 );
 
-rules.set("Literal", () =>
-  D(
-    Ch(0,
-      NT("IntegerLiteral"),
-      NT("FloatingPointLiteral"),
-      NT("BooleanLiteral"),
-      NT("CharacterLiteral"),
-      NT("StringLiteral"),
-      NT("TextBlock"),
-      NT("NullLiteral")
-    )
+rules.set("OctalEscape",
+  Ch(
+    Seq(T("\\"), NT("OctalDigit")),
+    Seq(T("\\"), NT("OctalDigit"), NT("OctalDigit")),
+    Seq(T("\\"), NT("ZeroToThree"), NT("OctalDigit"), NT("OctalDigit"))
   )
 );
 
+rules.set("ZeroToThree",
+  Ch(T("0"), T("1"), T("2"), T("3"))
+);
+
+rules.set("NullLiteral",
+  T("null")
+);
+
 // ------------------------------------------------------------
 // §4 Types, Values, and Variables
 // ------------------------------------------------------------
 
-rules.set("Type", () =>
-  D(Ch(0, NT("PrimitiveType"), NT("ReferenceType")))
+rules.set("Type",
+  Ch(NT("PrimitiveType"), NT("ReferenceType"))
 );
 
-rules.set("PrimitiveType", () =>
-  D(
-    Ch(0,
-      Seq(ZOM(NT("Annotation")), NT("NumericType")),
-      Seq(ZOM(NT("Annotation")), T("boolean"))
-    )
+rules.set("PrimitiveType",
+  Ch(
+    Seq(ZOM(NT("Annotation")), NT("NumericType")),
+    Seq(ZOM(NT("Annotation")), T("boolean"))
   )
 );
 
-rules.set("NumericType", () =>
-  D(Ch(0, NT("IntegralType"), NT("FloatingPointType")))
+rules.set("NumericType",
+  Ch(NT("IntegralType"), NT("FloatingPointType"))
 );
 
-rules.set("IntegralType", () =>
-  D(Ch(0, T("byte"), T("short"), T("int"), T("long"), T("char")))
+rules.set("IntegralType",
+  Ch(T("byte"), T("short"), T("int"), T("long"), T("char"))
 );
 
-rules.set("FloatingPointType", () =>
-  D(Ch(0, T("float"), T("double")))
+rules.set("FloatingPointType",
+  Ch(T("float"), T("double"))
 );
 
-rules.set("ReferenceType", () =>
-  D(Ch(0, NT("ClassOrInterfaceType"), NT("TypeVariable"), NT("ArrayType")))
+rules.set("ReferenceType",
+  Ch(NT("ClassOrInterfaceType"), NT("TypeVariable"), NT("ArrayType"))
 );
 
-rules.set("ClassOrInterfaceType", () =>
-  D(Ch(0, NT("ClassType"), NT("InterfaceType")))
+rules.set("ClassOrInterfaceType",
+  Ch(NT("ClassType"), NT("InterfaceType"))
 );
 
-rules.set("ClassType", () =>
-  D(
-    Ch(0,
-      Seq(ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments"))),
-      Seq(NT("PackageName"), T("."), ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments"))),
-      Seq(NT("ClassOrInterfaceType"), T("."), ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments")))
-    )
+rules.set("ClassType",
+  Ch(
+    Seq(ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments"))),
+    Seq(NT("PackageName"), T("."), ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments"))),
+    Seq(NT("ClassOrInterfaceType"), T("."), ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments")))
   )
 );
 
-rules.set("InterfaceType", () =>
-  D(NT("ClassType"))
+rules.set("InterfaceType",
+  NT("ClassType")
 );
 
-rules.set("TypeVariable", () =>
-  D(Seq(ZOM(NT("Annotation")), NT("TypeIdentifier")))
+rules.set("TypeVariable",
+  Seq(ZOM(NT("Annotation")), NT("TypeIdentifier"))
 );
 
-rules.set("ArrayType", () =>
-  D(
-    Ch(0,
-      Seq(NT("PrimitiveType"), NT("Dims")),
-      Seq(NT("ClassOrInterfaceType"), NT("Dims")),
-      Seq(NT("TypeVariable"), NT("Dims"))
-    )
+rules.set("ArrayType",
+  Ch(
+    Seq(NT("PrimitiveType"), NT("Dims")),
+    Seq(NT("ClassOrInterfaceType"), NT("Dims")),
+    Seq(NT("TypeVariable"), NT("Dims"))
   )
 );
 
-rules.set("Dims", () =>
-  D(
-    OOM(Seq(ZOM(NT("Annotation")), T("["), T("]")))
-  )
+rules.set("Dims",
+  OOM(Seq(ZOM(NT("Annotation")), T("["), T("]")))
 );
 
-rules.set("TypeParameter", () =>
-  D(
-    Seq(ZOM(NT("TypeParameterModifier")), NT("TypeIdentifier"), Opt(NT("TypeBound")))
-  )
+rules.set("TypeParameter",
+  Seq(ZOM(NT("TypeParameterModifier")), NT("TypeIdentifier"), Opt(NT("TypeBound")))
 );
 
-rules.set("TypeParameterModifier", () =>
-  D(NT("Annotation"))
+rules.set("TypeParameterModifier",
+  NT("Annotation")
 );
 
-rules.set("TypeBound", () =>
-  D(
-    Ch(0,
-      Seq(T("extends"), NT("TypeVariable")),
-      Seq(T("extends"), NT("ClassOrInterfaceType"), ZOM(NT("AdditionalBound")))
-    )
+rules.set("TypeBound",
+  Ch(
+    Seq(T("extends"), NT("TypeVariable")),
+    Seq(T("extends"), NT("ClassOrInterfaceType"), ZOM(NT("AdditionalBound")))
   )
 );
 
-rules.set("AdditionalBound", () =>
-  D(Seq(T("&"), NT("InterfaceType")))
+rules.set("AdditionalBound",
+  Seq(T("&"), NT("InterfaceType"))
 );
 
-rules.set("TypeArguments", () =>
-  D(Seq(T("<"), NT("TypeArgumentList"), T(">")))
+rules.set("TypeArguments",
+  Seq(T("<"), NT("TypeArgumentList"), T(">"))
 );
 
-rules.set("TypeArgumentList", () =>
-  D(Seq(NT("TypeArgument"), ZOM(Seq(T(","), NT("TypeArgument")))))
+rules.set("TypeArgumentList",
+  Seq(NT("TypeArgument"), ZOM(Seq(T(","), NT("TypeArgument"))))
 );
 
-rules.set("TypeArgument", () =>
-  D(Ch(0, NT("ReferenceType"), NT("Wildcard")))
+rules.set("TypeArgument",
+  Ch(NT("ReferenceType"), NT("Wildcard"))
 );
 
-rules.set("Wildcard", () =>
-  D(Seq(ZOM(NT("Annotation")), T("?"), Opt(NT("WildcardBounds"))))
+rules.set("Wildcard",
+  Seq(ZOM(NT("Annotation")), T("?"), Opt(NT("WildcardBounds")))
 );
 
-rules.set("WildcardBounds", () =>
-  D(
-    Ch(0,
-      Seq(T("extends"), NT("ReferenceType")),
-      Seq(T("super"), NT("ReferenceType"))
-    )
+rules.set("WildcardBounds",
+  Ch(
+    Seq(T("extends"), NT("ReferenceType")),
+    Seq(T("super"), NT("ReferenceType"))
   )
 );
 
@@ -558,1375 +893,1309 @@ rules.set("WildcardBounds", () =>
 // §6 Names
 // ------------------------------------------------------------
 
-rules.set("ModuleName", () =>
-  D(Seq(NT("Identifier"), ZOM(Seq(T("."), NT("Identifier")))))
+rules.set("ModuleName",
+  Seq(NT("Identifier"), ZOM(Seq(T("."), NT("Identifier"))))
 );
 
-rules.set("PackageName", () =>
-  D(Seq(NT("Identifier"), ZOM(Seq(T("."), NT("Identifier")))))
+rules.set("PackageName",
+  Seq(NT("Identifier"), ZOM(Seq(T("."), NT("Identifier"))))
 );
 
-rules.set("TypeName", () =>
-  D(
-    Ch(0,
-      NT("TypeIdentifier"),
-      Seq(NT("PackageOrTypeName"), T("."), NT("TypeIdentifier"))
-    )
+rules.set("TypeName",
+  Ch(
+    NT("TypeIdentifier"),
+    Seq(NT("PackageOrTypeName"), T("."), NT("TypeIdentifier"))
   )
 );
 
-rules.set("ExpressionName", () =>
-  D(
-    Ch(0,
-      NT("Identifier"),
-      Seq(NT("AmbiguousName"), T("."), NT("Identifier"))
-    )
+rules.set("ExpressionName",
+  Ch(
+    NT("Identifier"),
+    Seq(NT("AmbiguousName"), T("."), NT("Identifier"))
   )
 );
 
-rules.set("MethodName", () =>
-  D(NT("UnqualifiedMethodIdentifier"))
+rules.set("MethodName",
+  NT("UnqualifiedMethodIdentifier")
 );
 
-rules.set("PackageOrTypeName", () =>
-  D(Seq(NT("Identifier"), ZOM(Seq(T("."), NT("Identifier")))))
+rules.set("PackageOrTypeName",
+  Seq(NT("Identifier"), ZOM(Seq(T("."), NT("Identifier"))))
 );
 
-rules.set("AmbiguousName", () =>
-  D(Seq(NT("Identifier"), ZOM(Seq(T("."), NT("Identifier")))))
+rules.set("AmbiguousName",
+  Seq(NT("Identifier"), ZOM(Seq(T("."), NT("Identifier"))))
 );
 
 // ------------------------------------------------------------
 // §7 Packages and Modules
 // ------------------------------------------------------------
 
-rules.set("CompilationUnit", () =>
-  D(
-    Ch(0,
-      NT("OrdinaryCompilationUnit"),
-      NT("CompactCompilationUnit"),
-      NT("ModularCompilationUnit")
-    )
+rules.set("CompilationUnit",
+  Ch(
+    NT("OrdinaryCompilationUnit"),
+    NT("CompactCompilationUnit"),
+    NT("ModularCompilationUnit")
+  )
+);
+
+rules.set("OrdinaryCompilationUnit",
+  Seq(
+    Opt(NT("PackageDeclaration")),
+    ZOM(NT("ImportDeclaration")),
+    ZOM(NT("TopLevelClassOrInterfaceDeclaration"))
   )
 );
 
-rules.set("OrdinaryCompilationUnit", () =>
-  D(
-    Seq(
-      Opt(NT("PackageDeclaration")),
-      ZOM(NT("ImportDeclaration")),
-      ZOM(NT("TopLevelClassOrInterfaceDeclaration"))
-    )
+// Java 25 compact source file: the members of an implicitly declared class,
+// which must include at least one method (typically an instance main method).
+rules.set("CompactCompilationUnit",
+  Seq(
+    ZOM(NT("ImportDeclaration")),
+    ZOM(NT("ClassMemberDeclarationNoMethod")),
+    NT("MethodDeclaration"),
+    ZOM(NT("ClassMemberDeclaration"))
   )
 );
 
-rules.set("ModularCompilationUnit", () =>
-  D(Seq(ZOM(NT("ImportDeclaration")), NT("ModuleDeclaration")))
+rules.set("ClassMemberDeclarationNoMethod",
+  Ch(
+    NT("FieldDeclaration"),
+    NT("ClassDeclaration"),
+    NT("InterfaceDeclaration"),
+    T(";")
+  )
+);
+
+rules.set("ModularCompilationUnit",
+  Seq(ZOM(NT("ImportDeclaration")), NT("ModuleDeclaration"))
 );
 
-rules.set("PackageDeclaration", () =>
-  D(
-    Seq(
-      ZOM(NT("PackageModifier")),
-      T("package"),
-      NT("Identifier"),
-      ZOM(Seq(T("."), NT("Identifier"))),
-      T(";")
-    )
+rules.set("PackageDeclaration",
+  Seq(
+    ZOM(NT("PackageModifier")),
+    T("package"),
+    NT("Identifier"),
+    ZOM(Seq(T("."), NT("Identifier"))),
+    T(";")
   )
 );
 
-rules.set("PackageModifier", () =>
-  D(NT("Annotation"))
+rules.set("PackageModifier",
+  NT("Annotation")
 );
 
-rules.set("ImportDeclaration", () =>
-  D(
-    Ch(0,
-      NT("SingleTypeImportDeclaration"),
-      NT("TypeImportOnDemandDeclaration"),
-      NT("SingleStaticImportDeclaration"),
-      NT("StaticImportOnDemandDeclaration"),
-      NT("SingleModuleImportDeclaration")
-    )
+rules.set("ImportDeclaration",
+  Ch(
+    NT("SingleTypeImportDeclaration"),
+    NT("TypeImportOnDemandDeclaration"),
+    NT("SingleStaticImportDeclaration"),
+    NT("StaticImportOnDemandDeclaration"),
+    NT("SingleModuleImportDeclaration")
   )
 );
 
-rules.set("SingleTypeImportDeclaration", () =>
-  D(Seq(T("import"), NT("TypeName"), T(";")))
+rules.set("SingleTypeImportDeclaration",
+  Seq(T("import"), NT("TypeName"), T(";"))
 );
 
-rules.set("TypeImportOnDemandDeclaration", () =>
-  D(Seq(T("import"), NT("PackageOrTypeName"), T("."), T("*"), T(";")))
+rules.set("TypeImportOnDemandDeclaration",
+  Seq(T("import"), NT("PackageOrTypeName"), T("."), T("*"), T(";"))
 );
 
-rules.set("SingleStaticImportDeclaration", () =>
-  D(Seq(T("import"), T("static"), NT("TypeName"), T("."), NT("Identifier"), T(";")))
+rules.set("SingleStaticImportDeclaration",
+  Seq(T("import"), T("static"), NT("TypeName"), T("."), NT("Identifier"), T(";"))
 );
 
-rules.set("StaticImportOnDemandDeclaration", () =>
-  D(Seq(T("import"), T("static"), NT("TypeName"), T("."), T("*"), T(";")))
+rules.set("StaticImportOnDemandDeclaration",
+  Seq(T("import"), T("static"), NT("TypeName"), T("."), T("*"), T(";"))
 );
 
-rules.set("SingleModuleImportDeclaration", () =>
-  D(Seq(T("import"), T("module"), NT("ModuleName"), T(";")))
+rules.set("SingleModuleImportDeclaration",
+  Seq(T("import"), T("module"), NT("ModuleName"), T(";"))
 );
 
-rules.set("TopLevelClassOrInterfaceDeclaration", () =>
-  D(Ch(0, NT("ClassDeclaration"), NT("InterfaceDeclaration"), T(";")))
+rules.set("TopLevelClassOrInterfaceDeclaration",
+  Ch(NT("ClassDeclaration"), NT("InterfaceDeclaration"), T(";"))
 );
 
-rules.set("ModuleDeclaration", () =>
-  D(
-    Seq(
-      ZOM(NT("Annotation")),
-      Opt(T("open")),
-      T("module"),
-      NT("Identifier"),
-      ZOM(Seq(T("."), NT("Identifier"))),
-      T("{"),
-      ZOM(NT("ModuleDirective")),
-      T("}")
-    )
+rules.set("ModuleDeclaration",
+  Seq(
+    ZOM(NT("Annotation")),
+    Opt(T("open")),
+    T("module"),
+    NT("Identifier"),
+    ZOM(Seq(T("."), NT("Identifier"))),
+    T("{"),
+    ZOM(NT("ModuleDirective")),
+    T("}")
   )
 );
 
-rules.set("ModuleDirective", () =>
-  D(
-    Ch(0,
-      Seq(T("requires"), ZOM(NT("RequiresModifier")), NT("ModuleName"), T(";")),
-      Seq(T("exports"), NT("PackageName"), Opt(Seq(T("to"), NT("ModuleName"), ZOM(Seq(T(","), NT("ModuleName"))))), T(";")),
-      Seq(T("opens"), NT("PackageName"), Opt(Seq(T("to"), NT("ModuleName"), ZOM(Seq(T(","), NT("ModuleName"))))), T(";")),
-      Seq(T("uses"), NT("TypeName"), T(";")),
-      Seq(T("provides"), NT("TypeName"), T("with"), NT("TypeName"), ZOM(Seq(T(","), NT("TypeName"))), T(";"))
-    )
+rules.set("ModuleDirective",
+  Ch(
+    Seq(T("requires"), ZOM(NT("RequiresModifier")), NT("ModuleName"), T(";")),
+    Seq(T("exports"), NT("PackageName"), Opt(Seq(T("to"), NT("ModuleName"), ZOM(Seq(T(","), NT("ModuleName"))))), T(";")),
+    Seq(T("opens"), NT("PackageName"), Opt(Seq(T("to"), NT("ModuleName"), ZOM(Seq(T(","), NT("ModuleName"))))), T(";")),
+    Seq(T("uses"), NT("TypeName"), T(";")),
+    Seq(T("provides"), NT("TypeName"), T("with"), NT("TypeName"), ZOM(Seq(T(","), NT("TypeName"))), T(";"))
   )
 );
 
-rules.set("RequiresModifier", () =>
-  D(Ch(0, T("transitive"), T("static")))
+rules.set("RequiresModifier",
+  Ch(T("transitive"), T("static"))
 );
 
 // ------------------------------------------------------------
 // §8 Classes
 // ------------------------------------------------------------
 
-rules.set("ClassDeclaration", () =>
-  D(Ch(0, NT("NormalClassDeclaration"), NT("EnumDeclaration"), NT("RecordDeclaration")))
+rules.set("ClassDeclaration",
+  Ch(NT("NormalClassDeclaration"), NT("EnumDeclaration"), NT("RecordDeclaration"))
 );
 
-rules.set("NormalClassDeclaration", () =>
-  D(
-    Seq(
-      ZOM(NT("ClassModifier")),
-      T("class"),
-      NT("TypeIdentifier"),
-      Opt(NT("TypeParameters")),
-      Opt(NT("ClassExtends")),
-      Opt(NT("ClassImplements")),
-      Opt(NT("ClassPermits")),
-      NT("ClassBody")
-    )
+rules.set("NormalClassDeclaration",
+  Seq(
+    ZOM(NT("ClassModifier")),
+    T("class"),
+    NT("TypeIdentifier"),
+    Opt(NT("TypeParameters")),
+    Opt(NT("ClassExtends")),
+    Opt(NT("ClassImplements")),
+    Opt(NT("ClassPermits")),
+    NT("ClassBody")
   )
 );
 
-rules.set("ClassModifier", () =>
-  D(
-    Ch(0,
-      NT("Annotation"),
-      T("public"),
-      T("protected"),
-      T("private"),
-      T("abstract"),
-      T("static"),
-      T("final"),
-      T("sealed"),
-      T("non-sealed"),
-      T("strictfp")
-    )
+rules.set("ClassModifier",
+  Ch(
+    NT("Annotation"),
+    T("public"),
+    T("protected"),
+    T("private"),
+    T("abstract"),
+    T("static"),
+    T("final"),
+    T("sealed"),
+    T("non-sealed"),
+    T("strictfp")
   )
 );
 
-rules.set("TypeParameters", () =>
-  D(Seq(T("<"), NT("TypeParameterList"), T(">")))
+rules.set("TypeParameters",
+  Seq(T("<"), NT("TypeParameterList"), T(">"))
 );
 
-rules.set("TypeParameterList", () =>
-  D(Seq(NT("TypeParameter"), ZOM(Seq(T(","), NT("TypeParameter")))))
+rules.set("TypeParameterList",
+  Seq(NT("TypeParameter"), ZOM(Seq(T(","), NT("TypeParameter"))))
 );
 
-rules.set("ClassExtends", () =>
-  D(Seq(T("extends"), NT("ClassType")))
+rules.set("ClassExtends",
+  Seq(T("extends"), NT("ClassType"))
 );
 
-rules.set("ClassImplements", () =>
-  D(Seq(T("implements"), NT("InterfaceTypeList")))
+rules.set("ClassImplements",
+  Seq(T("implements"), NT("InterfaceTypeList"))
 );
 
-rules.set("InterfaceTypeList", () =>
-  D(Seq(NT("InterfaceType"), ZOM(Seq(T(","), NT("InterfaceType")))))
+rules.set("InterfaceTypeList",
+  Seq(NT("InterfaceType"), ZOM(Seq(T(","), NT("InterfaceType"))))
 );
 
-rules.set("ClassPermits", () =>
-  D(Seq(T("permits"), NT("TypeName"), ZOM(Seq(T(","), NT("TypeName")))))
+rules.set("ClassPermits",
+  Seq(T("permits"), NT("TypeName"), ZOM(Seq(T(","), NT("TypeName"))))
 );
 
-rules.set("ClassBody", () =>
-  D(Seq(T("{"), ZOM(NT("ClassBodyDeclaration")), T("}")))
+rules.set("ClassBody",
+  Seq(T("{"), ZOM(NT("ClassBodyDeclaration")), T("}"))
 );
 
-rules.set("ClassBodyDeclaration", () =>
-  D(
-    Ch(0,
-      NT("ClassMemberDeclaration"),
-      NT("InstanceInitializer"),
-      NT("StaticInitializer"),
-      NT("ConstructorDeclaration")
-    )
+rules.set("ClassBodyDeclaration",
+  Ch(
+    NT("ClassMemberDeclaration"),
+    NT("InstanceInitializer"),
+    NT("StaticInitializer"),
+    NT("ConstructorDeclaration")
   )
 );
 
-rules.set("ClassMemberDeclaration", () =>
-  D(
-    Ch(0,
-      NT("FieldDeclaration"),
-      NT("MethodDeclaration"),
-      NT("ClassDeclaration"),
-      NT("InterfaceDeclaration"),
-      T(";")
-    )
+rules.set("ClassMemberDeclaration",
+  Ch(
+    NT("FieldDeclaration"),
+    NT("MethodDeclaration"),
+    NT("ClassDeclaration"),
+    NT("InterfaceDeclaration"),
+    T(";")
   )
 );
 
-rules.set("FieldDeclaration", () =>
-  D(Seq(ZOM(NT("FieldModifier")), NT("UnannType"), NT("VariableDeclaratorList"), T(";")))
+rules.set("FieldDeclaration",
+  Seq(ZOM(NT("FieldModifier")), NT("UnannType"), NT("VariableDeclaratorList"), T(";"))
 );
 
-rules.set("FieldModifier", () =>
-  D(
-    Ch(0,
-      NT("Annotation"),
-      T("public"),
-      T("protected"),
-      T("private"),
-      T("static"),
-      T("final"),
-      T("transient"),
-      T("volatile")
-    )
+rules.set("FieldModifier",
+  Ch(
+    NT("Annotation"),
+    T("public"),
+    T("protected"),
+    T("private"),
+    T("static"),
+    T("final"),
+    T("transient"),
+    T("volatile")
   )
 );
 
-rules.set("VariableDeclaratorList", () =>
-  D(Seq(NT("VariableDeclarator"), ZOM(Seq(T(","), NT("VariableDeclarator")))))
+rules.set("VariableDeclaratorList",
+  Seq(NT("VariableDeclarator"), ZOM(Seq(T(","), NT("VariableDeclarator"))))
 );
 
-rules.set("VariableDeclarator", () =>
-  D(Seq(NT("VariableDeclaratorId"), Opt(Seq(T("="), NT("VariableInitializer")))))
+rules.set("VariableDeclarator",
+  Seq(NT("VariableDeclaratorId"), Opt(Seq(T("="), NT("VariableInitializer"))))
 );
 
-rules.set("VariableDeclaratorId", () =>
-  D(Ch(0, Seq(NT("Identifier"), Opt(NT("Dims"))), T("_")))
+rules.set("VariableDeclaratorId",
+  Ch(Seq(NT("Identifier"), Opt(NT("Dims"))), T("_"))
 );
 
-rules.set("VariableInitializer", () =>
-  D(Ch(0, NT("Expression"), NT("ArrayInitializer")))
+rules.set("VariableInitializer",
+  Ch(NT("Expression"), NT("ArrayInitializer"))
 );
 
-rules.set("UnannType", () =>
-  D(Ch(0, NT("UnannPrimitiveType"), NT("UnannReferenceType")))
+rules.set("UnannType",
+  Ch(NT("UnannPrimitiveType"), NT("UnannReferenceType"))
 );
 
-rules.set("UnannPrimitiveType", () =>
-  D(Ch(0, NT("NumericType"), T("boolean")))
+rules.set("UnannPrimitiveType",
+  Ch(NT("NumericType"), T("boolean"))
 );
 
-rules.set("UnannReferenceType", () =>
-  D(Ch(0, NT("UnannClassOrInterfaceType"), NT("UnannTypeVariable"), NT("UnannArrayType")))
+rules.set("UnannReferenceType",
+  Ch(NT("UnannClassOrInterfaceType"), NT("UnannTypeVariable"), NT("UnannArrayType"))
 );
 
-rules.set("UnannClassOrInterfaceType", () =>
-  D(Ch(0, NT("UnannClassType"), NT("UnannInterfaceType")))
+rules.set("UnannClassOrInterfaceType",
+  Ch(NT("UnannClassType"), NT("UnannInterfaceType"))
 );
 
-rules.set("UnannClassType", () =>
-  D(
-    Ch(0,
-      Seq(NT("TypeIdentifier"), Opt(NT("TypeArguments"))),
-      Seq(NT("PackageName"), T("."), ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments"))),
-      Seq(NT("UnannClassOrInterfaceType"), T("."), ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments")))
-    )
+rules.set("UnannClassType",
+  Ch(
+    Seq(NT("TypeIdentifier"), Opt(NT("TypeArguments"))),
+    Seq(NT("PackageName"), T("."), ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments"))),
+    Seq(NT("UnannClassOrInterfaceType"), T("."), ZOM(NT("Annotation")), NT("TypeIdentifier"), Opt(NT("TypeArguments")))
   )
 );
 
-rules.set("UnannInterfaceType", () =>
-  D(NT("UnannClassType"))
+rules.set("UnannInterfaceType",
+  NT("UnannClassType")
 );
 
-rules.set("UnannTypeVariable", () =>
-  D(NT("TypeIdentifier"))
+rules.set("UnannTypeVariable",
+  NT("TypeIdentifier")
 );
 
-rules.set("UnannArrayType", () =>
-  D(
-    Ch(0,
-      Seq(NT("UnannPrimitiveType"), NT("Dims")),
-      Seq(NT("UnannClassOrInterfaceType"), NT("Dims")),
-      Seq(NT("UnannTypeVariable"), NT("Dims"))
-    )
+rules.set("UnannArrayType",
+  Ch(
+    Seq(NT("UnannPrimitiveType"), NT("Dims")),
+    Seq(NT("UnannClassOrInterfaceType"), NT("Dims")),
+    Seq(NT("UnannTypeVariable"), NT("Dims"))
   )
 );
 
-rules.set("MethodDeclaration", () =>
-  D(Seq(ZOM(NT("MethodModifier")), NT("MethodHeader"), NT("MethodBody")))
+rules.set("MethodDeclaration",
+  Seq(ZOM(NT("MethodModifier")), NT("MethodHeader"), NT("MethodBody"))
 );
 
-rules.set("MethodModifier", () =>
-  D(
-    Ch(0,
-      NT("Annotation"),
-      T("public"),
-      T("protected"),
-      T("private"),
-      T("abstract"),
-      T("static"),
-      T("final"),
-      T("synchronized"),
-      T("native"),
-      T("strictfp")
-    )
+rules.set("MethodModifier",
+  Ch(
+    NT("Annotation"),
+    T("public"),
+    T("protected"),
+    T("private"),
+    T("abstract"),
+    T("static"),
+    T("final"),
+    T("synchronized"),
+    T("native"),
+    T("strictfp")
   )
 );
 
-rules.set("MethodHeader", () =>
-  D(
-    Ch(0,
-      Seq(NT("Result"), NT("MethodDeclarator"), Opt(NT("Throws"))),
-      Seq(NT("TypeParameters"), ZOM(NT("Annotation")), NT("Result"), NT("MethodDeclarator"), Opt(NT("Throws")))
-    )
+rules.set("MethodHeader",
+  Ch(
+    Seq(NT("Result"), NT("MethodDeclarator"), Opt(NT("Throws"))),
+    Seq(NT("TypeParameters"), ZOM(NT("Annotation")), NT("Result"), NT("MethodDeclarator"), Opt(NT("Throws")))
   )
 );
 
-rules.set("Result", () =>
-  D(Ch(0, NT("UnannType"), T("void")))
+rules.set("Result",
+  Ch(NT("UnannType"), T("void"))
 );
 
-rules.set("MethodDeclarator", () =>
-  D(
-    Seq(
-      NT("Identifier"),
-      T("("),
-      Opt(Seq(NT("ReceiverParameter"), T(","))),
-      Opt(NT("FormalParameterList")),
-      T(")"),
-      Opt(NT("Dims"))
-    )
+rules.set("MethodDeclarator",
+  Seq(
+    NT("Identifier"),
+    T("("),
+    Opt(Seq(NT("ReceiverParameter"), T(","))),
+    Opt(NT("FormalParameterList")),
+    T(")"),
+    Opt(NT("Dims"))
   )
 );
 
-rules.set("ReceiverParameter", () =>
-  D(Seq(ZOM(NT("Annotation")), NT("UnannType"), Opt(Seq(NT("Identifier"), T("."))), T("this")))
+rules.set("ReceiverParameter",
+  Seq(ZOM(NT("Annotation")), NT("UnannType"), Opt(Seq(NT("Identifier"), T("."))), T("this"))
 );
 
-rules.set("FormalParameterList", () =>
-  D(Seq(NT("FormalParameter"), ZOM(Seq(T(","), NT("FormalParameter")))))
+rules.set("FormalParameterList",
+  Seq(NT("FormalParameter"), ZOM(Seq(T(","), NT("FormalParameter"))))
 );
 
-rules.set("FormalParameter", () =>
-  D(
-    Ch(0,
-      Seq(ZOM(NT("VariableModifier")), NT("UnannType"), NT("VariableDeclaratorId")),
-      NT("VariableArityParameter")
-    )
+rules.set("FormalParameter",
+  Ch(
+    Seq(ZOM(NT("VariableModifier")), NT("UnannType"), NT("VariableDeclaratorId")),
+    NT("VariableArityParameter")
   )
 );
 
-rules.set("VariableArityParameter", () =>
-  D(Seq(ZOM(NT("VariableModifier")), NT("UnannType"), ZOM(NT("Annotation")), T("..."), NT("Identifier")))
+rules.set("VariableArityParameter",
+  Seq(ZOM(NT("VariableModifier")), NT("UnannType"), ZOM(NT("Annotation")), T("..."), NT("Identifier"))
 );
 
-rules.set("VariableModifier", () =>
-  D(Ch(0, NT("Annotation"), T("final")))
+rules.set("VariableModifier",
+  Ch(NT("Annotation"), T("final"))
 );
 
-rules.set("Throws", () =>
-  D(Seq(T("throws"), NT("ExceptionTypeList")))
+rules.set("Throws",
+  Seq(T("throws"), NT("ExceptionTypeList"))
 );
 
-rules.set("ExceptionTypeList", () =>
-  D(Seq(NT("ExceptionType"), ZOM(Seq(T(","), NT("ExceptionType")))))
+rules.set("ExceptionTypeList",
+  Seq(NT("ExceptionType"), ZOM(Seq(T(","), NT("ExceptionType"))))
 );
 
-rules.set("ExceptionType", () =>
-  D(Ch(0, NT("ClassType"), NT("TypeVariable")))
+rules.set("ExceptionType",
+  Ch(NT("ClassType"), NT("TypeVariable"))
 );
 
-rules.set("MethodBody", () =>
-  D(Ch(0, NT("Block"), T(";")))
+rules.set("MethodBody",
+  Ch(NT("Block"), T(";"))
 );
 
-rules.set("InstanceInitializer", () =>
-  D(NT("Block"))
+rules.set("InstanceInitializer",
+  NT("Block")
 );
 
-rules.set("StaticInitializer", () =>
-  D(Seq(T("static"), NT("Block")))
+rules.set("StaticInitializer",
+  Seq(T("static"), NT("Block"))
 );
 
-rules.set("ConstructorDeclaration", () =>
-  D(Seq(ZOM(NT("ConstructorModifier")), NT("ConstructorDeclarator"), Opt(NT("Throws")), NT("ConstructorBody")))
+rules.set("ConstructorDeclaration",
+  Seq(ZOM(NT("ConstructorModifier")), NT("ConstructorDeclarator"), Opt(NT("Throws")), NT("ConstructorBody"))
 );
 
-rules.set("ConstructorModifier", () =>
-  D(Ch(0, NT("Annotation"), T("public"), T("protected"), T("private")))
+rules.set("ConstructorModifier",
+  Ch(NT("Annotation"), T("public"), T("protected"), T("private"))
 );
 
-rules.set("ConstructorDeclarator", () =>
-  D(
-    Seq(
-      Opt(NT("TypeParameters")),
-      NT("SimpleTypeName"),
-      T("("),
-      Opt(Seq(NT("ReceiverParameter"), T(","))),
-      Opt(NT("FormalParameterList")),
-      T(")")
-    )
+rules.set("ConstructorDeclarator",
+  Seq(
+    Opt(NT("TypeParameters")),
+    NT("SimpleTypeName"),
+    T("("),
+    Opt(Seq(NT("ReceiverParameter"), T(","))),
+    Opt(NT("FormalParameterList")),
+    T(")")
   )
 );
 
-rules.set("SimpleTypeName", () =>
-  D(NT("TypeIdentifier"))
+rules.set("SimpleTypeName",
+  NT("TypeIdentifier")
 );
 
-rules.set("ConstructorBody", () =>
-  D(
-    Ch(0,
-      Seq(T("{"), Opt(NT("BlockStatements")), NT("ConstructorInvocation"), Opt(NT("BlockStatements")), T("}")),
-      Seq(T("{"), Opt(NT("BlockStatements")), T("}"))
-    )
+// Java 25 flexible constructor bodies: statements may precede this(...)/super(...).
+rules.set("ConstructorBody",
+  Ch(
+    Seq(T("{"), Opt(NT("BlockStatements")), T("}")),
+    Seq(T("{"), Opt(NT("BlockStatements")), NT("ExplicitConstructorInvocation"), Opt(NT("BlockStatements")), T("}"))
   )
 );
 
-rules.set("ConstructorInvocation", () =>
-  D(
-    Ch(0,
-      Seq(Opt(NT("TypeArguments")), T("this"), T("("), Opt(NT("ArgumentList")), T(")"), T(";")),
-      Seq(Opt(NT("TypeArguments")), T("super"), T("("), Opt(NT("ArgumentList")), T(")"), T(";")),
-      Seq(NT("ExpressionName"), T("."), Opt(NT("TypeArguments")), T("super"), T("("), Opt(NT("ArgumentList")), T(")"), T(";")),
-      Seq(NT("Primary"), T("."), Opt(NT("TypeArguments")), T("super"), T("("), Opt(NT("ArgumentList")), T(")"), T(";"))
-    )
+rules.set("ExplicitConstructorInvocation",
+  Ch(
+    Seq(Opt(NT("TypeArguments")), T("this"), T("("), Opt(NT("ArgumentList")), T(")"), T(";")),
+    Seq(Opt(NT("TypeArguments")), T("super"), T("("), Opt(NT("ArgumentList")), T(")"), T(";")),
+    Seq(NT("ExpressionName"), T("."), Opt(NT("TypeArguments")), T("super"), T("("), Opt(NT("ArgumentList")), T(")"), T(";")),
+    Seq(NT("Primary"), T("."), Opt(NT("TypeArguments")), T("super"), T("("), Opt(NT("ArgumentList")), T(")"), T(";"))
   )
 );
 
-rules.set("EnumDeclaration", () =>
-  D(Seq(ZOM(NT("ClassModifier")), T("enum"), NT("TypeIdentifier"), Opt(NT("ClassImplements")), NT("EnumBody")))
+rules.set("EnumDeclaration",
+  Seq(ZOM(NT("ClassModifier")), T("enum"), NT("TypeIdentifier"), Opt(NT("ClassImplements")), NT("EnumBody"))
 );
 
-rules.set("EnumBody", () =>
-  D(Seq(T("{"), Opt(NT("EnumConstantList")), Opt(T(",")), Opt(NT("EnumBodyDeclarations")), T("}")))
+rules.set("EnumBody",
+  Seq(T("{"), Opt(NT("EnumConstantList")), Opt(T(",")), Opt(NT("EnumBodyDeclarations")), T("}"))
 );
 
-rules.set("EnumConstantList", () =>
-  D(Seq(NT("EnumConstant"), ZOM(Seq(T(","), NT("EnumConstant")))))
+rules.set("EnumConstantList",
+  Seq(NT("EnumConstant"), ZOM(Seq(T(","), NT("EnumConstant"))))
 );
 
-rules.set("EnumConstant", () =>
-  D(Seq(ZOM(NT("EnumConstantModifier")), NT("Identifier"), Opt(Seq(T("("), Opt(NT("ArgumentList")), T(")"))), Opt(NT("ClassBody"))))
+rules.set("EnumConstant",
+  Seq(ZOM(NT("EnumConstantModifier")), NT("Identifier"), Opt(Seq(T("("), Opt(NT("ArgumentList")), T(")"))), Opt(NT("ClassBody")))
 );
 
-rules.set("EnumConstantModifier", () =>
-  D(NT("Annotation"))
+rules.set("EnumConstantModifier",
+  NT("Annotation")
 );
 
-rules.set("EnumBodyDeclarations", () =>
-  D(Seq(T(";"), ZOM(NT("ClassBodyDeclaration"))))
+rules.set("EnumBodyDeclarations",
+  Seq(T(";"), ZOM(NT("ClassBodyDeclaration")))
 );
 
-rules.set("RecordDeclaration", () =>
-  D(
-    Seq(
-      ZOM(NT("ClassModifier")),
-      T("record"),
-      NT("TypeIdentifier"),
-      Opt(NT("TypeParameters")),
-      NT("RecordHeader"),
-      Opt(NT("ClassImplements")),
-      NT("RecordBody")
-    )
+rules.set("RecordDeclaration",
+  Seq(
+    ZOM(NT("ClassModifier")),
+    T("record"),
+    NT("TypeIdentifier"),
+    Opt(NT("TypeParameters")),
+    NT("RecordHeader"),
+    Opt(NT("ClassImplements")),
+    NT("RecordBody")
   )
 );
 
-rules.set("RecordHeader", () =>
-  D(Seq(T("("), Opt(NT("RecordComponentList")), T(")")))
+rules.set("RecordHeader",
+  Seq(T("("), Opt(NT("RecordComponentList")), T(")"))
 );
 
-rules.set("RecordComponentList", () =>
-  D(Seq(NT("RecordComponent"), ZOM(Seq(T(","), NT("RecordComponent")))))
+rules.set("RecordComponentList",
+  Seq(NT("RecordComponent"), ZOM(Seq(T(","), NT("RecordComponent"))))
 );
 
-rules.set("RecordComponent", () =>
-  D(
-    Ch(0,
-      Seq(ZOM(NT("RecordComponentModifier")), NT("UnannType"), NT("Identifier")),
-      NT("VariableArityRecordComponent")
-    )
+rules.set("RecordComponent",
+  Ch(
+    Seq(ZOM(NT("RecordComponentModifier")), NT("UnannType"), NT("Identifier")),
+    NT("VariableArityRecordComponent")
   )
 );
 
-rules.set("VariableArityRecordComponent", () =>
-  D(Seq(ZOM(NT("RecordComponentModifier")), NT("UnannType"), ZOM(NT("Annotation")), T("..."), NT("Identifier")))
+rules.set("VariableArityRecordComponent",
+  Seq(ZOM(NT("RecordComponentModifier")), NT("UnannType"), ZOM(NT("Annotation")), T("..."), NT("Identifier"))
 );
 
-rules.set("RecordComponentModifier", () =>
-  D(NT("Annotation"))
+rules.set("RecordComponentModifier",
+  NT("Annotation")
 );
 
-rules.set("RecordBody", () =>
-  D(Seq(T("{"), ZOM(NT("RecordBodyDeclaration")), T("}")))
+rules.set("RecordBody",
+  Seq(T("{"), ZOM(NT("RecordBodyDeclaration")), T("}"))
 );
 
-rules.set("RecordBodyDeclaration", () =>
-  D(Ch(0, NT("ClassBodyDeclaration"), NT("CompactConstructorDeclaration")))
+rules.set("RecordBodyDeclaration",
+  Ch(NT("ClassBodyDeclaration"), NT("CompactConstructorDeclaration"))
 );
 
-rules.set("CompactConstructorDeclaration", () =>
-  D(Seq(ZOM(NT("ConstructorModifier")), NT("SimpleTypeName"), NT("ConstructorBody")))
+rules.set("CompactConstructorDeclaration",
+  Seq(ZOM(NT("ConstructorModifier")), NT("SimpleTypeName"), NT("ConstructorBody"))
 );
 
 // ------------------------------------------------------------
 // §9 Interfaces
 // ------------------------------------------------------------
 
-rules.set("InterfaceDeclaration", () =>
-  D(Ch(0, NT("NormalInterfaceDeclaration"), NT("AnnotationInterfaceDeclaration")))
+rules.set("InterfaceDeclaration",
+  Ch(NT("NormalInterfaceDeclaration"), NT("AnnotationInterfaceDeclaration"))
 );
 
-rules.set("NormalInterfaceDeclaration", () =>
-  D(
-    Seq(
-      ZOM(NT("InterfaceModifier")),
-      T("interface"),
-      NT("TypeIdentifier"),
-      Opt(NT("TypeParameters")),
-      Opt(NT("InterfaceExtends")),
-      Opt(NT("InterfacePermits")),
-      NT("InterfaceBody")
-    )
+rules.set("NormalInterfaceDeclaration",
+  Seq(
+    ZOM(NT("InterfaceModifier")),
+    T("interface"),
+    NT("TypeIdentifier"),
+    Opt(NT("TypeParameters")),
+    Opt(NT("InterfaceExtends")),
+    Opt(NT("InterfacePermits")),
+    NT("InterfaceBody")
   )
 );
 
-rules.set("InterfaceModifier", () =>
-  D(
-    Ch(0,
-      NT("Annotation"),
-      T("public"),
-      T("protected"),
-      T("private"),
-      T("abstract"),
-      T("static"),
-      T("sealed"),
-      T("non-sealed"),
-      T("strictfp")
-    )
+rules.set("InterfaceModifier",
+  Ch(
+    NT("Annotation"),
+    T("public"),
+    T("protected"),
+    T("private"),
+    T("abstract"),
+    T("static"),
+    T("sealed"),
+    T("non-sealed"),
+    T("strictfp")
   )
 );
 
-rules.set("InterfaceExtends", () =>
-  D(Seq(T("extends"), NT("InterfaceTypeList")))
+rules.set("InterfaceExtends",
+  Seq(T("extends"), NT("InterfaceTypeList"))
 );
 
-rules.set("InterfacePermits", () =>
-  D(Seq(T("permits"), NT("TypeName"), ZOM(Seq(T(","), NT("TypeName")))))
+rules.set("InterfacePermits",
+  Seq(T("permits"), NT("TypeName"), ZOM(Seq(T(","), NT("TypeName"))))
 );
 
-rules.set("InterfaceBody", () =>
-  D(Seq(T("{"), ZOM(NT("InterfaceMemberDeclaration")), T("}")))
+rules.set("InterfaceBody",
+  Seq(T("{"), ZOM(NT("InterfaceMemberDeclaration")), T("}"))
 );
 
-rules.set("InterfaceMemberDeclaration", () =>
-  D(
-    Ch(0,
-      NT("ConstantDeclaration"),
-      NT("InterfaceMethodDeclaration"),
-      NT("ClassDeclaration"),
-      NT("InterfaceDeclaration"),
-      T(";")
-    )
+rules.set("InterfaceMemberDeclaration",
+  Ch(
+    NT("ConstantDeclaration"),
+    NT("InterfaceMethodDeclaration"),
+    NT("ClassDeclaration"),
+    NT("InterfaceDeclaration"),
+    T(";")
   )
 );
 
-rules.set("ConstantDeclaration", () =>
-  D(Seq(ZOM(NT("ConstantModifier")), NT("UnannType"), NT("VariableDeclaratorList"), T(";")))
+rules.set("ConstantDeclaration",
+  Seq(ZOM(NT("ConstantModifier")), NT("UnannType"), NT("VariableDeclaratorList"), T(";"))
 );
 
-rules.set("ConstantModifier", () =>
-  D(Ch(0, NT("Annotation"), T("public"), T("static"), T("final")))
+rules.set("ConstantModifier",
+  Ch(NT("Annotation"), T("public"), T("static"), T("final"))
 );
 
-rules.set("InterfaceMethodDeclaration", () =>
-  D(Seq(ZOM(NT("InterfaceMethodModifier")), NT("MethodHeader"), NT("MethodBody")))
+rules.set("InterfaceMethodDeclaration",
+  Seq(ZOM(NT("InterfaceMethodModifier")), NT("MethodHeader"), NT("MethodBody"))
 );
 
-rules.set("InterfaceMethodModifier", () =>
-  D(Ch(0, NT("Annotation"), T("public"), T("private"), T("abstract"), T("default"), T("static"), T("strictfp")))
+rules.set("InterfaceMethodModifier",
+  Ch(NT("Annotation"), T("public"), T("private"), T("abstract"), T("default"), T("static"), T("strictfp"))
 );
 
-rules.set("AnnotationInterfaceDeclaration", () =>
-  D(Seq(ZOM(NT("InterfaceModifier")), T("@"), T("interface"), NT("TypeIdentifier"), NT("AnnotationInterfaceBody")))
+rules.set("AnnotationInterfaceDeclaration",
+  Seq(ZOM(NT("InterfaceModifier")), T("@"), T("interface"), NT("TypeIdentifier"), NT("AnnotationInterfaceBody"))
 );
 
-rules.set("AnnotationInterfaceBody", () =>
-  D(Seq(T("{"), ZOM(NT("AnnotationInterfaceMemberDeclaration")), T("}")))
+rules.set("AnnotationInterfaceBody",
+  Seq(T("{"), ZOM(NT("AnnotationInterfaceMemberDeclaration")), T("}"))
 );
 
-rules.set("AnnotationInterfaceMemberDeclaration", () =>
-  D(
-    Ch(0,
-      NT("AnnotationInterfaceElementDeclaration"),
-      NT("ConstantDeclaration"),
-      NT("ClassDeclaration"),
-      NT("InterfaceDeclaration"),
-      T(";")
-    )
+rules.set("AnnotationInterfaceMemberDeclaration",
+  Ch(
+    NT("AnnotationInterfaceElementDeclaration"),
+    NT("ConstantDeclaration"),
+    NT("ClassDeclaration"),
+    NT("InterfaceDeclaration"),
+    T(";")
   )
 );
 
-rules.set("AnnotationInterfaceElementDeclaration", () =>
-  D(
-    Seq(
-      ZOM(NT("AnnotationInterfaceElementModifier")),
-      NT("UnannType"),
-      NT("Identifier"),
-      T("("),
-      T(")"),
-      Opt(NT("Dims")),
-      Opt(NT("DefaultValue")),
-      T(";")
-    )
+rules.set("AnnotationInterfaceElementDeclaration",
+  Seq(
+    ZOM(NT("AnnotationInterfaceElementModifier")),
+    NT("UnannType"),
+    NT("Identifier"),
+    T("("),
+    T(")"),
+    Opt(NT("Dims")),
+    Opt(NT("DefaultValue")),
+    T(";")
   )
 );
 
-rules.set("AnnotationInterfaceElementModifier", () =>
-  D(Ch(0, NT("Annotation"), T("public"), T("abstract")))
+rules.set("AnnotationInterfaceElementModifier",
+  Ch(NT("Annotation"), T("public"), T("abstract"))
 );
 
-rules.set("DefaultValue", () =>
-  D(Seq(T("default"), NT("ElementValue")))
+rules.set("DefaultValue",
+  Seq(T("default"), NT("ElementValue"))
 );
 
-rules.set("Annotation", () =>
-  D(Ch(0, NT("NormalAnnotation"), NT("MarkerAnnotation"), NT("SingleElementAnnotation")))
+rules.set("Annotation",
+  Ch(NT("NormalAnnotation"), NT("MarkerAnnotation"), NT("SingleElementAnnotation"))
 );
 
-rules.set("NormalAnnotation", () =>
-  D(Seq(T("@"), NT("TypeName"), T("("), Opt(NT("ElementValuePairList")), T(")")))
+rules.set("NormalAnnotation",
+  Seq(T("@"), NT("TypeName"), T("("), Opt(NT("ElementValuePairList")), T(")"))
 );
 
-rules.set("ElementValuePairList", () =>
-  D(Seq(NT("ElementValuePair"), ZOM(Seq(T(","), NT("ElementValuePair")))))
+rules.set("ElementValuePairList",
+  Seq(NT("ElementValuePair"), ZOM(Seq(T(","), NT("ElementValuePair"))))
 );
 
-rules.set("ElementValuePair", () =>
-  D(Seq(NT("Identifier"), T("="), NT("ElementValue")))
+rules.set("ElementValuePair",
+  Seq(NT("Identifier"), T("="), NT("ElementValue"))
 );
 
-rules.set("ElementValue", () =>
-  D(Ch(0, NT("ConditionalExpression"), NT("ElementValueArrayInitializer"), NT("Annotation")))
+rules.set("ElementValue",
+  Ch(NT("ConditionalExpression"), NT("ElementValueArrayInitializer"), NT("Annotation"))
 );
 
-rules.set("ElementValueArrayInitializer", () =>
-  D(Seq(T("{"), Opt(NT("ElementValueList")), Opt(T(",")), T("}")))
+rules.set("ElementValueArrayInitializer",
+  Seq(T("{"), Opt(NT("ElementValueList")), Opt(T(",")), T("}"))
 );
 
-rules.set("ElementValueList", () =>
-  D(Seq(NT("ElementValue"), ZOM(Seq(T(","), NT("ElementValue")))))
+rules.set("ElementValueList",
+  Seq(NT("ElementValue"), ZOM(Seq(T(","), NT("ElementValue"))))
 );
 
-rules.set("MarkerAnnotation", () =>
-  D(Seq(T("@"), NT("TypeName")))
+rules.set("MarkerAnnotation",
+  Seq(T("@"), NT("TypeName"))
 );
 
-rules.set("SingleElementAnnotation", () =>
-  D(Seq(T("@"), NT("TypeName"), T("("), NT("ElementValue"), T(")")))
+rules.set("SingleElementAnnotation",
+  Seq(T("@"), NT("TypeName"), T("("), NT("ElementValue"), T(")"))
 );
 
 // ------------------------------------------------------------
 // §10 Arrays
 // ------------------------------------------------------------
 
-rules.set("ArrayInitializer", () =>
-  D(Seq(T("{"), Opt(NT("VariableInitializerList")), Opt(T(",")), T("}")))
+rules.set("ArrayInitializer",
+  Seq(T("{"), Opt(NT("VariableInitializerList")), Opt(T(",")), T("}"))
 );
 
-rules.set("VariableInitializerList", () =>
-  D(Seq(NT("VariableInitializer"), ZOM(Seq(T(","), NT("VariableInitializer")))))
+rules.set("VariableInitializerList",
+  Seq(NT("VariableInitializer"), ZOM(Seq(T(","), NT("VariableInitializer"))))
 );
 
 // ------------------------------------------------------------
 // §14 Blocks, Statements, and Patterns
 // ------------------------------------------------------------
 
-rules.set("Block", () =>
-  D(Seq(T("{"), Opt(NT("BlockStatements")), T("}")))
+rules.set("Block",
+  Seq(T("{"), Opt(NT("BlockStatements")), T("}"))
 );
 
-rules.set("BlockStatements", () =>
-  D(OOM(NT("BlockStatement")))
+rules.set("BlockStatements",
+  OOM(NT("BlockStatement"))
 );
 
-rules.set("BlockStatement", () =>
-  D(Ch(0, NT("LocalClassOrInterfaceDeclaration"), NT("LocalVariableDeclarationStatement"), NT("Statement")))
+rules.set("BlockStatement",
+  Ch(NT("LocalClassOrInterfaceDeclaration"), NT("LocalVariableDeclarationStatement"), NT("Statement"))
 );
 
-rules.set("LocalClassOrInterfaceDeclaration", () =>
-  D(Ch(0, NT("ClassDeclaration"), NT("NormalInterfaceDeclaration")))
+rules.set("LocalClassOrInterfaceDeclaration",
+  Ch(NT("ClassDeclaration"), NT("NormalInterfaceDeclaration"))
 );
 
-rules.set("LocalVariableDeclarationStatement", () =>
-  D(Seq(NT("LocalVariableDeclaration"), T(";")))
+rules.set("LocalVariableDeclarationStatement",
+  Seq(NT("LocalVariableDeclaration"), T(";"))
 );
 
-rules.set("LocalVariableDeclaration", () =>
-  D(Seq(ZOM(NT("VariableModifier")), NT("LocalVariableType"), NT("VariableDeclaratorList")))
+rules.set("LocalVariableDeclaration",
+  Seq(ZOM(NT("VariableModifier")), NT("LocalVariableType"), NT("VariableDeclaratorList"))
 );
 
-rules.set("LocalVariableType", () =>
-  D(Ch(0, NT("UnannType"), T("var")))
+rules.set("LocalVariableType",
+  Ch(NT("UnannType"), T("var"))
 );
 
-rules.set("Statement", () =>
-  D(
-    Ch(0,
-      NT("StatementWithoutTrailingSubstatement"),
-      NT("LabeledStatement"),
-      NT("IfThenStatement"),
-      NT("IfThenElseStatement"),
-      NT("WhileStatement"),
-      NT("ForStatement")
-    )
+rules.set("Statement",
+  Ch(
+    NT("StatementWithoutTrailingSubstatement"),
+    NT("LabeledStatement"),
+    NT("IfThenStatement"),
+    NT("IfThenElseStatement"),
+    NT("WhileStatement"),
+    NT("ForStatement")
   )
 );
 
-rules.set("StatementNoShortIf", () =>
-  D(
-    Ch(0,
-      NT("StatementWithoutTrailingSubstatement"),
-      NT("LabeledStatementNoShortIf"),
-      NT("IfThenElseStatementNoShortIf"),
-      NT("WhileStatementNoShortIf"),
-      NT("ForStatementNoShortIf")
-    )
+rules.set("StatementNoShortIf",
+  Ch(
+    NT("StatementWithoutTrailingSubstatement"),
+    NT("LabeledStatementNoShortIf"),
+    NT("IfThenElseStatementNoShortIf"),
+    NT("WhileStatementNoShortIf"),
+    NT("ForStatementNoShortIf")
   )
 );
 
-rules.set("StatementWithoutTrailingSubstatement", () =>
-  D(
-    Ch(0,
-      NT("Block"),
-      NT("EmptyStatement"),
-      NT("ExpressionStatement"),
-      NT("AssertStatement"),
-      NT("SwitchStatement"),
-      NT("DoStatement"),
-      NT("BreakStatement"),
-      NT("ContinueStatement"),
-      NT("ReturnStatement"),
-      NT("SynchronizedStatement"),
-      NT("ThrowStatement"),
-      NT("TryStatement"),
-      NT("YieldStatement")
-    )
+rules.set("StatementWithoutTrailingSubstatement",
+  Ch(
+    NT("Block"),
+    NT("EmptyStatement"),
+    NT("ExpressionStatement"),
+    NT("AssertStatement"),
+    NT("SwitchStatement"),
+    NT("DoStatement"),
+    NT("BreakStatement"),
+    NT("ContinueStatement"),
+    NT("ReturnStatement"),
+    NT("SynchronizedStatement"),
+    NT("ThrowStatement"),
+    NT("TryStatement"),
+    NT("YieldStatement")
   )
 );
 
-rules.set("EmptyStatement", () =>
-  D(T(";"))
+rules.set("EmptyStatement",
+  T(";")
 );
 
-rules.set("LabeledStatement", () =>
-  D(Seq(NT("Identifier"), T(":"), NT("Statement")))
+rules.set("LabeledStatement",
+  Seq(NT("Identifier"), T(":"), NT("Statement"))
 );
 
-rules.set("LabeledStatementNoShortIf", () =>
-  D(Seq(NT("Identifier"), T(":"), NT("StatementNoShortIf")))
+rules.set("LabeledStatementNoShortIf",
+  Seq(NT("Identifier"), T(":"), NT("StatementNoShortIf"))
 );
 
-rules.set("ExpressionStatement", () =>
-  D(Seq(NT("StatementExpression"), T(";")))
+rules.set("ExpressionStatement",
+  Seq(NT("StatementExpression"), T(";"))
 );
 
-rules.set("StatementExpression", () =>
-  D(
-    Ch(0,
-      NT("Assignment"),
-      NT("PreIncrementExpression"),
-      NT("PreDecrementExpression"),
-      NT("PostIncrementExpression"),
-      NT("PostDecrementExpression"),
-      NT("MethodInvocation"),
-      NT("ClassInstanceCreationExpression")
-    )
+rules.set("StatementExpression",
+  Ch(
+    NT("Assignment"),
+    NT("PreIncrementExpression"),
+    NT("PreDecrementExpression"),
+    NT("PostIncrementExpression"),
+    NT("PostDecrementExpression"),
+    NT("MethodInvocation"),
+    NT("ClassInstanceCreationExpression")
   )
 );
 
-rules.set("IfThenStatement", () =>
-  D(Seq(T("if"), T("("), NT("Expression"), T(")"), NT("Statement")))
+rules.set("IfThenStatement",
+  Seq(T("if"), T("("), NT("Expression"), T(")"), NT("Statement"))
 );
 
-rules.set("IfThenElseStatement", () =>
-  D(Seq(T("if"), T("("), NT("Expression"), T(")"), NT("StatementNoShortIf"), T("else"), NT("Statement")))
+rules.set("IfThenElseStatement",
+  Seq(T("if"), T("("), NT("Expression"), T(")"), NT("StatementNoShortIf"), T("else"), NT("Statement"))
 );
 
-rules.set("IfThenElseStatementNoShortIf", () =>
-  D(Seq(T("if"), T("("), NT("Expression"), T(")"), NT("StatementNoShortIf"), T("else"), NT("StatementNoShortIf")))
+rules.set("IfThenElseStatementNoShortIf",
+  Seq(T("if"), T("("), NT("Expression"), T(")"), NT("StatementNoShortIf"), T("else"), NT("StatementNoShortIf"))
 );
 
-rules.set("AssertStatement", () =>
-  D(
-    Ch(0,
-      Seq(T("assert"), NT("Expression"), T(";")),
-      Seq(T("assert"), NT("Expression"), T(":"), NT("Expression"), T(";"))
-    )
+rules.set("AssertStatement",
+  Ch(
+    Seq(T("assert"), NT("Expression"), T(";")),
+    Seq(T("assert"), NT("Expression"), T(":"), NT("Expression"), T(";"))
   )
 );
 
-rules.set("SwitchStatement", () =>
-  D(Seq(T("switch"), T("("), NT("Expression"), T(")"), NT("SwitchBlock")))
+rules.set("SwitchStatement",
+  Seq(T("switch"), T("("), NT("Expression"), T(")"), NT("SwitchBlock"))
 );
 
-rules.set("SwitchBlock", () =>
-  D(
-    Ch(0,
-      Seq(T("{"), OOM(NT("SwitchRule")), T("}")),
-      Seq(T("{"), ZOM(NT("SwitchBlockStatementGroup")), ZOM(Seq(NT("SwitchLabel"), T(":"))), T("}"))
-    )
+rules.set("SwitchBlock",
+  Ch(
+    Seq(T("{"), OOM(NT("SwitchRule")), T("}")),
+    Seq(T("{"), ZOM(NT("SwitchBlockStatementGroup")), ZOM(Seq(NT("SwitchLabel"), T(":"))), T("}"))
   )
 );
 
-rules.set("SwitchRule", () =>
-  D(
-    Ch(0,
-      Seq(NT("SwitchLabel"), T("->"), NT("Expression"), T(";")),
-      Seq(NT("SwitchLabel"), T("->"), NT("Block")),
-      Seq(NT("SwitchLabel"), T("->"), NT("ThrowStatement"))
-    )
+rules.set("SwitchRule",
+  Ch(
+    Seq(NT("SwitchLabel"), T("->"), NT("Expression"), T(";")),
+    Seq(NT("SwitchLabel"), T("->"), NT("Block")),
+    Seq(NT("SwitchLabel"), T("->"), NT("ThrowStatement"))
   )
 );
 
-rules.set("SwitchBlockStatementGroup", () =>
-  D(Seq(NT("SwitchLabel"), T(":"), ZOM(Seq(NT("SwitchLabel"), T(":"))), NT("BlockStatements")))
+rules.set("SwitchBlockStatementGroup",
+  Seq(NT("SwitchLabel"), T(":"), ZOM(Seq(NT("SwitchLabel"), T(":"))), NT("BlockStatements"))
 );
 
-rules.set("SwitchLabel", () =>
-  D(
-    Ch(0,
-      Seq(T("case"), NT("CaseConstant"), ZOM(Seq(T(","), NT("CaseConstant")))),
-      Seq(T("case"), T("null"), Opt(Seq(T(","), T("default")))),
-      Seq(T("case"), NT("CasePattern"), ZOM(Seq(T(","), NT("CasePattern"))), Opt(NT("Guard"))),
-      T("default")
-    )
+rules.set("SwitchLabel",
+  Ch(
+    Seq(T("case"), NT("CaseConstant"), ZOM(Seq(T(","), NT("CaseConstant")))),
+    Seq(T("case"), T("null"), Opt(Seq(T(","), T("default")))),
+    Seq(T("case"), NT("CasePattern"), ZOM(Seq(T(","), NT("CasePattern"))), Opt(NT("Guard"))),
+    T("default")
   )
 );
 
-rules.set("CaseConstant", () =>
-  D(NT("ConditionalExpression"))
+rules.set("CaseConstant",
+  NT("ConditionalExpression")
 );
 
-rules.set("CasePattern", () =>
-  D(NT("Pattern"))
+rules.set("CasePattern",
+  NT("Pattern")
 );
 
-rules.set("Guard", () =>
-  D(Seq(T("when"), NT("Expression")))
+rules.set("Guard",
+  Seq(T("when"), NT("Expression"))
 );
 
-rules.set("WhileStatement", () =>
-  D(Seq(T("while"), T("("), NT("Expression"), T(")"), NT("Statement")))
+rules.set("WhileStatement",
+  Seq(T("while"), T("("), NT("Expression"), T(")"), NT("Statement"))
 );
 
-rules.set("WhileStatementNoShortIf", () =>
-  D(Seq(T("while"), T("("), NT("Expression"), T(")"), NT("StatementNoShortIf")))
+rules.set("WhileStatementNoShortIf",
+  Seq(T("while"), T("("), NT("Expression"), T(")"), NT("StatementNoShortIf"))
 );
 
-rules.set("DoStatement", () =>
-  D(Seq(T("do"), NT("Statement"), T("while"), T("("), NT("Expression"), T(")"), T(";")))
+rules.set("DoStatement",
+  Seq(T("do"), NT("Statement"), T("while"), T("("), NT("Expression"), T(")"), T(";"))
 );
 
-rules.set("ForStatement", () =>
-  D(Ch(0, NT("BasicForStatement"), NT("EnhancedForStatement")))
+rules.set("ForStatement",
+  Ch(NT("BasicForStatement"), NT("EnhancedForStatement"))
 );
 
-rules.set("ForStatementNoShortIf", () =>
-  D(Ch(0, NT("BasicForStatementNoShortIf"), NT("EnhancedForStatementNoShortIf")))
+rules.set("ForStatementNoShortIf",
+  Ch(NT("BasicForStatementNoShortIf"), NT("EnhancedForStatementNoShortIf"))
 );
 
-rules.set("BasicForStatement", () =>
-  D(Seq(T("for"), T("("), Opt(NT("ForInit")), T(";"), Opt(NT("Expression")), T(";"), Opt(NT("ForUpdate")), T(")"), NT("Statement")))
+rules.set("BasicForStatement",
+  Seq(T("for"), T("("), Opt(NT("ForInit")), T(";"), Opt(NT("Expression")), T(";"), Opt(NT("ForUpdate")), T(")"), NT("Statement"))
 );
 
-rules.set("BasicForStatementNoShortIf", () =>
-  D(Seq(T("for"), T("("), Opt(NT("ForInit")), T(";"), Opt(NT("Expression")), T(";"), Opt(NT("ForUpdate")), T(")"), NT("StatementNoShortIf")))
+rules.set("BasicForStatementNoShortIf",
+  Seq(T("for"), T("("), Opt(NT("ForInit")), T(";"), Opt(NT("Expression")), T(";"), Opt(NT("ForUpdate")), T(")"), NT("StatementNoShortIf"))
 );
 
-rules.set("ForInit", () =>
-  D(Ch(0, NT("StatementExpressionList"), NT("LocalVariableDeclaration")))
+rules.set("ForInit",
+  Ch(NT("StatementExpressionList"), NT("LocalVariableDeclaration"))
 );
 
-rules.set("ForUpdate", () =>
-  D(NT("StatementExpressionList"))
+rules.set("ForUpdate",
+  NT("StatementExpressionList")
 );
 
-rules.set("StatementExpressionList", () =>
-  D(Seq(NT("StatementExpression"), ZOM(Seq(T(","), NT("StatementExpression")))))
+rules.set("StatementExpressionList",
+  Seq(NT("StatementExpression"), ZOM(Seq(T(","), NT("StatementExpression"))))
 );
 
-rules.set("EnhancedForStatement", () =>
-  D(Seq(T("for"), T("("), NT("LocalVariableDeclaration"), T(":"), NT("Expression"), T(")"), NT("Statement")))
+rules.set("EnhancedForStatement",
+  Seq(T("for"), T("("), NT("LocalVariableDeclaration"), T(":"), NT("Expression"), T(")"), NT("Statement"))
 );
 
-rules.set("EnhancedForStatementNoShortIf", () =>
-  D(Seq(T("for"), T("("), NT("LocalVariableDeclaration"), T(":"), NT("Expression"), T(")"), NT("StatementNoShortIf")))
+rules.set("EnhancedForStatementNoShortIf",
+  Seq(T("for"), T("("), NT("LocalVariableDeclaration"), T(":"), NT("Expression"), T(")"), NT("StatementNoShortIf"))
 );
 
-rules.set("BreakStatement", () =>
-  D(Seq(T("break"), Opt(NT("Identifier")), T(";")))
+rules.set("BreakStatement",
+  Seq(T("break"), Opt(NT("Identifier")), T(";"))
 );
 
-rules.set("YieldStatement", () =>
-  D(Seq(T("yield"), NT("Expression"), T(";")))
+rules.set("YieldStatement",
+  Seq(T("yield"), NT("Expression"), T(";"))
 );
 
-rules.set("ContinueStatement", () =>
-  D(Seq(T("continue"), Opt(NT("Identifier")), T(";")))
+rules.set("ContinueStatement",
+  Seq(T("continue"), Opt(NT("Identifier")), T(";"))
 );
 
-rules.set("ReturnStatement", () =>
-  D(Seq(T("return"), Opt(NT("Expression")), T(";")))
+rules.set("ReturnStatement",
+  Seq(T("return"), Opt(NT("Expression")), T(";"))
 );
 
-rules.set("ThrowStatement", () =>
-  D(Seq(T("throw"), NT("Expression"), T(";")))
+rules.set("ThrowStatement",
+  Seq(T("throw"), NT("Expression"), T(";"))
 );
 
-rules.set("SynchronizedStatement", () =>
-  D(Seq(T("synchronized"), T("("), NT("Expression"), T(")"), NT("Block")))
+rules.set("SynchronizedStatement",
+  Seq(T("synchronized"), T("("), NT("Expression"), T(")"), NT("Block"))
 );
 
-rules.set("TryStatement", () =>
-  D(
-    Ch(0,
-      Seq(T("try"), NT("Block"), NT("Catches")),
-      Seq(T("try"), NT("Block"), Opt(NT("Catches")), NT("Finally")),
-      NT("TryWithResourcesStatement")
-    )
+rules.set("TryStatement",
+  Ch(
+    Seq(T("try"), NT("Block"), NT("Catches")),
+    Seq(T("try"), NT("Block"), Opt(NT("Catches")), NT("Finally")),
+    NT("TryWithResourcesStatement")
   )
 );
 
-rules.set("Catches", () =>
-  D(OOM(NT("CatchClause")))
+rules.set("Catches",
+  OOM(NT("CatchClause"))
 );
 
-rules.set("CatchClause", () =>
-  D(Seq(T("catch"), T("("), NT("CatchFormalParameter"), T(")"), NT("Block")))
+rules.set("CatchClause",
+  Seq(T("catch"), T("("), NT("CatchFormalParameter"), T(")"), NT("Block"))
 );
 
-rules.set("CatchFormalParameter", () =>
-  D(Seq(ZOM(NT("VariableModifier")), NT("CatchType"), NT("VariableDeclaratorId")))
+rules.set("CatchFormalParameter",
+  Seq(ZOM(NT("VariableModifier")), NT("CatchType"), NT("VariableDeclaratorId"))
 );
 
-rules.set("CatchType", () =>
-  D(Seq(NT("UnannClassType"), ZOM(Seq(T("|"), NT("ClassType")))))
+rules.set("CatchType",
+  Seq(NT("UnannClassType"), ZOM(Seq(T("|"), NT("ClassType"))))
 );
 
-rules.set("Finally", () =>
-  D(Seq(T("finally"), NT("Block")))
+rules.set("Finally",
+  Seq(T("finally"), NT("Block"))
 );
 
-rules.set("TryWithResourcesStatement", () =>
-  D(Seq(T("try"), NT("ResourceSpecification"), NT("Block"), Opt(NT("Catches")), Opt(NT("Finally"))))
+rules.set("TryWithResourcesStatement",
+  Seq(T("try"), NT("ResourceSpecification"), NT("Block"), Opt(NT("Catches")), Opt(NT("Finally")))
 );
 
-rules.set("ResourceSpecification", () =>
-  D(Seq(T("("), NT("ResourceList"), Opt(T(";")), T(")")))
+rules.set("ResourceSpecification",
+  Seq(T("("), NT("ResourceList"), Opt(T(";")), T(")"))
 );
 
-rules.set("ResourceList", () =>
-  D(Seq(NT("Resource"), ZOM(Seq(T(";"), NT("Resource")))))
+rules.set("ResourceList",
+  Seq(NT("Resource"), ZOM(Seq(T(";"), NT("Resource"))))
 );
 
-rules.set("Resource", () =>
-  D(Ch(0, NT("LocalVariableDeclaration"), NT("VariableAccess")))
+rules.set("Resource",
+  Ch(NT("LocalVariableDeclaration"), NT("VariableAccess"))
 );
 
-rules.set("VariableAccess", () =>
-  D(Ch(0, NT("ExpressionName"), NT("FieldAccess")))
+rules.set("VariableAccess",
+  Ch(NT("ExpressionName"), NT("FieldAccess"))
 );
 
-rules.set("Pattern", () =>
-  D(Ch(0, NT("TypePattern"), NT("RecordPattern")))
+rules.set("Pattern",
+  Ch(NT("TypePattern"), NT("RecordPattern"))
 );
 
-rules.set("TypePattern", () =>
-  D(NT("LocalVariableDeclaration"))
+rules.set("TypePattern",
+  NT("LocalVariableDeclaration")
 );
 
-rules.set("RecordPattern", () =>
-  D(Seq(NT("ReferenceType"), T("("), Opt(NT("ComponentPatternList")), T(")")))
+rules.set("RecordPattern",
+  Seq(NT("ReferenceType"), T("("), Opt(NT("ComponentPatternList")), T(")"))
 );
 
-rules.set("ComponentPatternList", () =>
-  D(Seq(NT("ComponentPattern"), ZOM(Seq(T(","), NT("ComponentPattern")))))
+rules.set("ComponentPatternList",
+  Seq(NT("ComponentPattern"), ZOM(Seq(T(","), NT("ComponentPattern"))))
 );
 
-rules.set("ComponentPattern", () =>
-  D(Ch(0, NT("Pattern"), NT("MatchAllPattern")))
+rules.set("ComponentPattern",
+  Ch(NT("Pattern"), NT("MatchAllPattern"))
 );
 
-rules.set("MatchAllPattern", () =>
-  D(T("_"))
+rules.set("MatchAllPattern",
+  T("_")
 );
 
 // ------------------------------------------------------------
 // §15 Expressions
 // ------------------------------------------------------------
 
-rules.set("Primary", () =>
-  D(Ch(0, NT("PrimaryNoNewArray"), NT("ArrayCreationExpression")))
+rules.set("Primary",
+  Ch(NT("PrimaryNoNewArray"), NT("ArrayCreationExpression"))
 );
 
-rules.set("PrimaryNoNewArray", () =>
-  D(
-    Ch(0,
-      NT("Literal"),
-      NT("ClassLiteral"),
-      T("this"),
-      Seq(NT("TypeName"), T("."), T("this")),
-      Seq(T("("), NT("Expression"), T(")")),
-      NT("ClassInstanceCreationExpression"),
-      NT("FieldAccess"),
-      NT("ArrayAccess"),
-      NT("MethodInvocation"),
-      NT("MethodReference")
-    )
+rules.set("PrimaryNoNewArray",
+  Ch(
+    NT("Literal"),
+    NT("ClassLiteral"),
+    T("this"),
+    Seq(NT("TypeName"), T("."), T("this")),
+    Seq(T("("), NT("Expression"), T(")")),
+    NT("ClassInstanceCreationExpression"),
+    NT("FieldAccess"),
+    NT("ArrayAccess"),
+    NT("MethodInvocation"),
+    NT("MethodReference")
   )
 );
 
-rules.set("ClassLiteral", () =>
-  D(
-    Ch(0,
-      Seq(NT("TypeName"), ZOM(Seq(T("["), T("]"))), T("."), T("class")),
-      Seq(NT("NumericType"), ZOM(Seq(T("["), T("]"))), T("."), T("class")),
-      Seq(T("boolean"), ZOM(Seq(T("["), T("]"))), T("."), T("class")),
-      Seq(T("void"), T("."), T("class"))
-    )
+rules.set("ClassLiteral",
+  Ch(
+    Seq(NT("TypeName"), ZOM(Seq(T("["), T("]"))), T("."), T("class")),
+    Seq(NT("NumericType"), ZOM(Seq(T("["), T("]"))), T("."), T("class")),
+    Seq(T("boolean"), ZOM(Seq(T("["), T("]"))), T("."), T("class")),
+    Seq(T("void"), T("."), T("class"))
   )
 );
 
-rules.set("ClassInstanceCreationExpression", () =>
-  D(
-    Ch(0,
-      NT("UnqualifiedClassInstanceCreationExpression"),
-      Seq(NT("ExpressionName"), T("."), NT("UnqualifiedClassInstanceCreationExpression")),
-      Seq(NT("Primary"), T("."), NT("UnqualifiedClassInstanceCreationExpression"))
-    )
+rules.set("ClassInstanceCreationExpression",
+  Ch(
+    NT("UnqualifiedClassInstanceCreationExpression"),
+    Seq(NT("ExpressionName"), T("."), NT("UnqualifiedClassInstanceCreationExpression")),
+    Seq(NT("Primary"), T("."), NT("UnqualifiedClassInstanceCreationExpression"))
   )
 );
 
-rules.set("UnqualifiedClassInstanceCreationExpression", () =>
-  D(Seq(T("new"), Opt(NT("TypeArguments")), NT("ClassOrInterfaceTypeToInstantiate"), T("("), Opt(NT("ArgumentList")), T(")"), Opt(NT("ClassBody"))))
+rules.set("UnqualifiedClassInstanceCreationExpression",
+  Seq(T("new"), Opt(NT("TypeArguments")), NT("ClassOrInterfaceTypeToInstantiate"), T("("), Opt(NT("ArgumentList")), T(")"), Opt(NT("ClassBody")))
 );
 
-rules.set("ClassOrInterfaceTypeToInstantiate", () =>
-  D(
-    Seq(
-      ZOM(NT("Annotation")),
-      NT("Identifier"),
-      ZOM(Seq(T("."), ZOM(NT("Annotation")), NT("Identifier"))),
-      Opt(NT("TypeArgumentsOrDiamond"))
-    )
+rules.set("ClassOrInterfaceTypeToInstantiate",
+  Seq(
+    ZOM(NT("Annotation")),
+    NT("Identifier"),
+    ZOM(Seq(T("."), ZOM(NT("Annotation")), NT("Identifier"))),
+    Opt(NT("TypeArgumentsOrDiamond"))
   )
 );
 
-rules.set("TypeArgumentsOrDiamond", () =>
-  D(Ch(0, NT("TypeArguments"), Seq(T("<"), T(">"))))
+rules.set("TypeArgumentsOrDiamond",
+  Ch(NT("TypeArguments"), Seq(T("<"), T(">")))
 );
 
-rules.set("ArrayCreationExpression", () =>
-  D(Ch(0, NT("ArrayCreationExpressionWithoutInitializer"), NT("ArrayCreationExpressionWithInitializer")))
+rules.set("ArrayCreationExpression",
+  Ch(NT("ArrayCreationExpressionWithoutInitializer"), NT("ArrayCreationExpressionWithInitializer"))
 );
 
-rules.set("ArrayCreationExpressionWithoutInitializer", () =>
-  D(
-    Ch(0,
-      Seq(T("new"), NT("PrimitiveType"), NT("DimExprs"), Opt(NT("Dims"))),
-      Seq(T("new"), NT("ClassOrInterfaceType"), NT("DimExprs"), Opt(NT("Dims")))
-    )
+rules.set("ArrayCreationExpressionWithoutInitializer",
+  Ch(
+    Seq(T("new"), NT("PrimitiveType"), NT("DimExprs"), Opt(NT("Dims"))),
+    Seq(T("new"), NT("ClassOrInterfaceType"), NT("DimExprs"), Opt(NT("Dims")))
   )
 );
 
-rules.set("ArrayCreationExpressionWithInitializer", () =>
-  D(
-    Ch(0,
-      Seq(T("new"), NT("PrimitiveType"), NT("Dims"), NT("ArrayInitializer")),
-      Seq(T("new"), NT("ClassOrInterfaceType"), NT("Dims"), NT("ArrayInitializer"))
-    )
+rules.set("ArrayCreationExpressionWithInitializer",
+  Ch(
+    Seq(T("new"), NT("PrimitiveType"), NT("Dims"), NT("ArrayInitializer")),
+    Seq(T("new"), NT("ClassOrInterfaceType"), NT("Dims"), NT("ArrayInitializer"))
   )
 );
 
-rules.set("DimExprs", () =>
-  D(OOM(NT("DimExpr")))
+rules.set("DimExprs",
+  OOM(NT("DimExpr"))
 );
 
-rules.set("DimExpr", () =>
-  D(Seq(ZOM(NT("Annotation")), T("["), NT("Expression"), T("]")))
+rules.set("DimExpr",
+  Seq(ZOM(NT("Annotation")), T("["), NT("Expression"), T("]"))
 );
 
-rules.set("ArrayAccess", () =>
-  D(
-    Ch(0,
-      Seq(NT("ExpressionName"), T("["), NT("Expression"), T("]")),
-      Seq(NT("PrimaryNoNewArray"), T("["), NT("Expression"), T("]")),
-      Seq(NT("ArrayCreationExpressionWithInitializer"), T("["), NT("Expression"), T("]"))
-    )
+rules.set("ArrayAccess",
+  Ch(
+    Seq(NT("ExpressionName"), T("["), NT("Expression"), T("]")),
+    Seq(NT("PrimaryNoNewArray"), T("["), NT("Expression"), T("]")),
+    Seq(NT("ArrayCreationExpressionWithInitializer"), T("["), NT("Expression"), T("]"))
   )
 );
 
-rules.set("FieldAccess", () =>
-  D(
-    Ch(0,
-      Seq(NT("Primary"), T("."), NT("Identifier")),
-      Seq(T("super"), T("."), NT("Identifier")),
-      Seq(NT("TypeName"), T("."), T("super"), T("."), NT("Identifier"))
-    )
+rules.set("FieldAccess",
+  Ch(
+    Seq(NT("Primary"), T("."), NT("Identifier")),
+    Seq(T("super"), T("."), NT("Identifier")),
+    Seq(NT("TypeName"), T("."), T("super"), T("."), NT("Identifier"))
   )
 );
 
-rules.set("MethodInvocation", () =>
-  D(
-    Ch(0,
-      Seq(NT("MethodName"), T("("), Opt(NT("ArgumentList")), T(")")),
-      Seq(NT("TypeName"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")")),
-      Seq(NT("ExpressionName"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")")),
-      Seq(NT("Primary"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")")),
-      Seq(T("super"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")")),
-      Seq(NT("TypeName"), T("."), T("super"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")"))
-    )
+rules.set("MethodInvocation",
+  Ch(
+    Seq(NT("MethodName"), T("("), Opt(NT("ArgumentList")), T(")")),
+    Seq(NT("TypeName"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")")),
+    Seq(NT("ExpressionName"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")")),
+    Seq(NT("Primary"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")")),
+    Seq(T("super"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")")),
+    Seq(NT("TypeName"), T("."), T("super"), T("."), Opt(NT("TypeArguments")), NT("Identifier"), T("("), Opt(NT("ArgumentList")), T(")"))
   )
 );
 
-rules.set("ArgumentList", () =>
-  D(Seq(NT("Expression"), ZOM(Seq(T(","), NT("Expression")))))
+rules.set("ArgumentList",
+  Seq(NT("Expression"), ZOM(Seq(T(","), NT("Expression"))))
 );
 
-rules.set("MethodReference", () =>
-  D(
-    Ch(0,
-      Seq(NT("ExpressionName"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
-      Seq(NT("Primary"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
-      Seq(NT("ReferenceType"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
-      Seq(T("super"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
-      Seq(NT("TypeName"), T("."), T("super"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
-      Seq(NT("ClassType"), T("::"), Opt(NT("TypeArguments")), T("new")),
-      Seq(NT("ArrayType"), T("::"), T("new"))
-    )
+rules.set("MethodReference",
+  Ch(
+    Seq(NT("ExpressionName"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
+    Seq(NT("Primary"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
+    Seq(NT("ReferenceType"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
+    Seq(T("super"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
+    Seq(NT("TypeName"), T("."), T("super"), T("::"), Opt(NT("TypeArguments")), NT("Identifier")),
+    Seq(NT("ClassType"), T("::"), Opt(NT("TypeArguments")), T("new")),
+    Seq(NT("ArrayType"), T("::"), T("new"))
   )
 );
 
-rules.set("Expression", () =>
-  D(Ch(0, NT("LambdaExpression"), NT("AssignmentExpression")))
+rules.set("Expression",
+  Ch(NT("LambdaExpression"), NT("AssignmentExpression"))
 );
 
-rules.set("LambdaExpression", () =>
-  D(Seq(NT("LambdaParameters"), T("->"), NT("LambdaBody")))
+rules.set("LambdaExpression",
+  Seq(NT("LambdaParameters"), T("->"), NT("LambdaBody"))
 );
 
-rules.set("LambdaParameters", () =>
-  D(Ch(0, Seq(T("("), Opt(NT("LambdaParameterList")), T(")")), NT("ConciseLambdaParameter")))
+rules.set("LambdaParameters",
+  Ch(Seq(T("("), Opt(NT("LambdaParameterList")), T(")")), NT("ConciseLambdaParameter"))
 );
 
-rules.set("LambdaParameterList", () =>
-  D(
-    Ch(0,
-      Seq(NT("NormalLambdaParameter"), ZOM(Seq(T(","), NT("NormalLambdaParameter")))),
-      Seq(NT("ConciseLambdaParameter"), ZOM(Seq(T(","), NT("ConciseLambdaParameter"))))
-    )
+rules.set("LambdaParameterList",
+  Ch(
+    Seq(NT("NormalLambdaParameter"), ZOM(Seq(T(","), NT("NormalLambdaParameter")))),
+    Seq(NT("ConciseLambdaParameter"), ZOM(Seq(T(","), NT("ConciseLambdaParameter"))))
   )
 );
 
-rules.set("NormalLambdaParameter", () =>
-  D(
-    Ch(0,
-      Seq(ZOM(NT("VariableModifier")), NT("LambdaParameterType"), NT("VariableDeclaratorId")),
-      NT("VariableArityParameter")
-    )
+rules.set("NormalLambdaParameter",
+  Ch(
+    Seq(ZOM(NT("VariableModifier")), NT("LambdaParameterType"), NT("VariableDeclaratorId")),
+    NT("VariableArityParameter")
   )
 );
 
-rules.set("LambdaParameterType", () =>
-  D(Ch(0, NT("UnannType"), T("var")))
+rules.set("LambdaParameterType",
+  Ch(NT("UnannType"), T("var"))
 );
 
-rules.set("ConciseLambdaParameter", () =>
-  D(Ch(0, NT("Identifier"), T("_")))
+rules.set("ConciseLambdaParameter",
+  Ch(NT("Identifier"), T("_"))
 );
 
-rules.set("LambdaBody", () =>
-  D(Ch(0, NT("Expression"), NT("Block")))
+rules.set("LambdaBody",
+  Ch(NT("Expression"), NT("Block"))
 );
 
-rules.set("AssignmentExpression", () =>
-  D(Ch(0, NT("ConditionalExpression"), NT("Assignment")))
+rules.set("AssignmentExpression",
+  Ch(NT("ConditionalExpression"), NT("Assignment"))
 );
 
-rules.set("Assignment", () =>
-  D(Seq(NT("LeftHandSide"), NT("AssignmentOperator"), NT("Expression")))
+rules.set("Assignment",
+  Seq(NT("LeftHandSide"), NT("AssignmentOperator"), NT("Expression"))
 );
 
-rules.set("LeftHandSide", () =>
-  D(Ch(0, NT("ExpressionName"), NT("FieldAccess"), NT("ArrayAccess")))
+rules.set("LeftHandSide",
+  Ch(NT("ExpressionName"), NT("FieldAccess"), NT("ArrayAccess"))
 );
 
-rules.set("AssignmentOperator", () =>
-  D(Ch(0, T("="), T("*="), T("/="), T("%="), T("+="), T("-="), T("<<="), T(">>="), T(">>>="), T("&="), T("^="), T("|=")))
+rules.set("AssignmentOperator",
+  Ch(T("="), T("*="), T("/="), T("%="), T("+="), T("-="), T("<<="), T(">>="), T(">>>="), T("&="), T("^="), T("|="))
 );
 
-rules.set("ConditionalExpression", () =>
-  D(
-    Ch(0,
-      NT("ConditionalOrExpression"),
-      Seq(NT("ConditionalOrExpression"), T("?"), NT("Expression"), T(":"), NT("ConditionalExpression")),
-      Seq(NT("ConditionalOrExpression"), T("?"), NT("Expression"), T(":"), NT("LambdaExpression"))
-    )
+rules.set("ConditionalExpression",
+  Ch(
+    NT("ConditionalOrExpression"),
+    Seq(NT("ConditionalOrExpression"), T("?"), NT("Expression"), T(":"), NT("ConditionalExpression")),
+    Seq(NT("ConditionalOrExpression"), T("?"), NT("Expression"), T(":"), NT("LambdaExpression"))
   )
 );
 
-rules.set("ConditionalOrExpression", () =>
-  D(Seq(NT("ConditionalAndExpression"), ZOM(Seq(T("||"), NT("ConditionalAndExpression")))))
+rules.set("ConditionalOrExpression",
+  Seq(NT("ConditionalAndExpression"), ZOM(Seq(T("||"), NT("ConditionalAndExpression"))))
 );
 
-rules.set("ConditionalAndExpression", () =>
-  D(Seq(NT("InclusiveOrExpression"), ZOM(Seq(T("&&"), NT("InclusiveOrExpression")))))
+rules.set("ConditionalAndExpression",
+  Seq(NT("InclusiveOrExpression"), ZOM(Seq(T("&&"), NT("InclusiveOrExpression"))))
 );
 
-rules.set("InclusiveOrExpression", () =>
-  D(Seq(NT("ExclusiveOrExpression"), ZOM(Seq(T("|"), NT("ExclusiveOrExpression")))))
+rules.set("InclusiveOrExpression",
+  Seq(NT("ExclusiveOrExpression"), ZOM(Seq(T("|"), NT("ExclusiveOrExpression"))))
 );
 
-rules.set("ExclusiveOrExpression", () =>
-  D(Seq(NT("AndExpression"), ZOM(Seq(T("^"), NT("AndExpression")))))
+rules.set("ExclusiveOrExpression",
+  Seq(NT("AndExpression"), ZOM(Seq(T("^"), NT("AndExpression"))))
 );
 
-rules.set("AndExpression", () =>
-  D(Seq(NT("EqualityExpression"), ZOM(Seq(T("&"), NT("EqualityExpression")))))
+rules.set("AndExpression",
+  Seq(NT("EqualityExpression"), ZOM(Seq(T("&"), NT("EqualityExpression"))))
 );
 
-rules.set("EqualityExpression", () =>
-  D(Seq(NT("RelationalExpression"), ZOM(Ch(0, Seq(T("=="), NT("RelationalExpression")), Seq(T("!="), NT("RelationalExpression"))))))
+rules.set("EqualityExpression",
+  Seq(NT("RelationalExpression"), ZOM(Ch(Seq(T("=="), NT("RelationalExpression")), Seq(T("!="), NT("RelationalExpression")))))
 );
 
-rules.set("RelationalExpression", () =>
-  D(
-    Ch(0,
-      NT("ShiftExpression"),
-      Seq(NT("RelationalExpression"), T("<"), NT("ShiftExpression")),
-      Seq(NT("RelationalExpression"), T(">"), NT("ShiftExpression")),
-      Seq(NT("RelationalExpression"), T("<="), NT("ShiftExpression")),
-      Seq(NT("RelationalExpression"), T(">="), NT("ShiftExpression")),
-      NT("InstanceofExpression")
-    )
+rules.set("RelationalExpression",
+  Ch(
+    NT("ShiftExpression"),
+    Seq(NT("RelationalExpression"), T("<"), NT("ShiftExpression")),
+    Seq(NT("RelationalExpression"), T(">"), NT("ShiftExpression")),
+    Seq(NT("RelationalExpression"), T("<="), NT("ShiftExpression")),
+    Seq(NT("RelationalExpression"), T(">="), NT("ShiftExpression")),
+    NT("InstanceofExpression")
   )
 );
 
-rules.set("InstanceofExpression", () =>
-  D(
-    Ch(0,
-      Seq(NT("RelationalExpression"), T("instanceof"), NT("ReferenceType")),
-      Seq(NT("RelationalExpression"), T("instanceof"), NT("Pattern"))
-    )
+rules.set("InstanceofExpression",
+  Ch(
+    Seq(NT("RelationalExpression"), T("instanceof"), NT("ReferenceType")),
+    Seq(NT("RelationalExpression"), T("instanceof"), NT("Pattern"))
   )
 );
 
-rules.set("ShiftExpression", () =>
-  D(Seq(NT("AdditiveExpression"), ZOM(Ch(0, Seq(T("<<"), NT("AdditiveExpression")), Seq(T(">>"), NT("AdditiveExpression")), Seq(T(">>>"), NT("AdditiveExpression"))))))
+rules.set("ShiftExpression",
+  Seq(NT("AdditiveExpression"), ZOM(Ch(Seq(T("<<"), NT("AdditiveExpression")), Seq(T(">>"), NT("AdditiveExpression")), Seq(T(">>>"), NT("AdditiveExpression")))))
 );
 
-rules.set("AdditiveExpression", () =>
-  D(Seq(NT("MultiplicativeExpression"), ZOM(Ch(0, Seq(T("+"), NT("MultiplicativeExpression")), Seq(T("-"), NT("MultiplicativeExpression"))))))
+rules.set("AdditiveExpression",
+  Seq(NT("MultiplicativeExpression"), ZOM(Ch(Seq(T("+"), NT("MultiplicativeExpression")), Seq(T("-"), NT("MultiplicativeExpression")))))
 );
 
-rules.set("MultiplicativeExpression", () =>
-  D(Seq(NT("UnaryExpression"), ZOM(Ch(0, Seq(T("*"), NT("UnaryExpression")), Seq(T("/"), NT("UnaryExpression")), Seq(T("%"), NT("UnaryExpression"))))))
+rules.set("MultiplicativeExpression",
+  Seq(NT("UnaryExpression"), ZOM(Ch(Seq(T("*"), NT("UnaryExpression")), Seq(T("/"), NT("UnaryExpression")), Seq(T("%"), NT("UnaryExpression")))))
 );
 
-rules.set("UnaryExpression", () =>
-  D(
-    Ch(0,
-      NT("PreIncrementExpression"),
-      NT("PreDecrementExpression"),
-      Seq(T("+"), NT("UnaryExpression")),
-      Seq(T("-"), NT("UnaryExpression")),
-      NT("UnaryExpressionNotPlusMinus")
-    )
+rules.set("UnaryExpression",
+  Ch(
+    NT("PreIncrementExpression"),
+    NT("PreDecrementExpression"),
+    Seq(T("+"), NT("UnaryExpression")),
+    Seq(T("-"), NT("UnaryExpression")),
+    NT("UnaryExpressionNotPlusMinus")
   )
 );
 
-rules.set("PreIncrementExpression", () =>
-  D(Seq(T("++"), NT("UnaryExpression")))
+rules.set("PreIncrementExpression",
+  Seq(T("++"), NT("UnaryExpression"))
 );
 
-rules.set("PreDecrementExpression", () =>
-  D(Seq(T("--"), NT("UnaryExpression")))
+rules.set("PreDecrementExpression",
+  Seq(T("--"), NT("UnaryExpression"))
 );
 
-rules.set("UnaryExpressionNotPlusMinus", () =>
-  D(
-    Ch(0,
-      NT("PostfixExpression"),
-      Seq(T("~"), NT("UnaryExpression")),
-      Seq(T("!"), NT("UnaryExpression")),
-      NT("CastExpression"),
-      NT("SwitchExpression")
-    )
+rules.set("UnaryExpressionNotPlusMinus",
+  Ch(
+    NT("PostfixExpression"),
+    Seq(T("~"), NT("UnaryExpression")),
+    Seq(T("!"), NT("UnaryExpression")),
+    NT("CastExpression"),
+    NT("SwitchExpression")
   )
 );
 
-rules.set("PostfixExpression", () =>
-  D(Ch(0, NT("Primary"), NT("ExpressionName"), NT("PostIncrementExpression"), NT("PostDecrementExpression")))
+rules.set("PostfixExpression",
+  Ch(NT("Primary"), NT("ExpressionName"), NT("PostIncrementExpression"), NT("PostDecrementExpression"))
 );
 
-rules.set("PostIncrementExpression", () =>
-  D(Seq(NT("PostfixExpression"), T("++")))
+rules.set("PostIncrementExpression",
+  Seq(NT("PostfixExpression"), T("++"))
 );
 
-rules.set("PostDecrementExpression", () =>
-  D(Seq(NT("PostfixExpression"), T("--")))
+rules.set("PostDecrementExpression",
+  Seq(NT("PostfixExpression"), T("--"))
 );
 
-rules.set("CastExpression", () =>
-  D(
-    Ch(0,
-      Seq(T("("), NT("PrimitiveType"), T(")"), NT("UnaryExpression")),
-      Seq(T("("), NT("ReferenceType"), ZOM(NT("AdditionalBound")), T(")"), NT("UnaryExpressionNotPlusMinus")),
-      Seq(T("("), NT("ReferenceType"), ZOM(NT("AdditionalBound")), T(")"), NT("LambdaExpression"))
-    )
+rules.set("CastExpression",
+  Ch(
+    Seq(T("("), NT("PrimitiveType"), T(")"), NT("UnaryExpression")),
+    Seq(T("("), NT("ReferenceType"), ZOM(NT("AdditionalBound")), T(")"), NT("UnaryExpressionNotPlusMinus")),
+    Seq(T("("), NT("ReferenceType"), ZOM(NT("AdditionalBound")), T(")"), NT("LambdaExpression"))
   )
 );
 
-rules.set("SwitchExpression", () =>
-  D(Seq(T("switch"), T("("), NT("Expression"), T(")"), NT("SwitchBlock")))
+rules.set("SwitchExpression",
+  Seq(T("switch"), T("("), NT("Expression"), T(")"), NT("SwitchBlock"))
 );
 
 // ============================================================
 // Public API
 // ============================================================
 
+/**
+ * Returns the grammar model for the given rule name.
+ * Returns undefined if no rule exists for that name.
+ */
+export function getRuleNode(name: string): GrammarNode | undefined {
+  return rules.get(name);
+}
+
+/**
+ * The Java SE 25 grammar; older versions are derived from it.
+ */
+export const JAVA_25_GRAMMAR: GrammarVersion = {
+  version: "25",
+  title: "Java SE 25",
+  rules,
+  sectionRules: SECTION_RULES,
+};
+
+/**
+ * Returns every rule definition, keyed by rule name.
+ */
+export function getGrammarRules(): ReadonlyMap<string, GrammarNode> {
+  return rules;
+}
+
 /**
  * Creates a railroad diagram for the given rule name.
- * Returns undefined if no diagram factory exists for that name.
+ * Returns undefined if no rule exists for that name.
  */
 export function createRuleDiagram(name: string): any {
-  const factory = rules.get(name);
-  return factory ? factory() : undefined;
+  const node = rules.get(name);
+  return node ? grammarToDiagram(node) : undefined;
 }
 
 /**
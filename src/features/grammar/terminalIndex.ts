@@ -0,0 +1,82 @@
+/**
+ * Terminal Index
+ *
+ * Every terminal of a version's rules with the rules that use it: a
+ * reverse lookup answering "where in the grammar can `default` appear?".
+ * Terminals are grouped by what they are as Java tokens (JLS §3.9–3.12);
+ * the characters lexical rules are spelled with (`0x`, `\u`, `e`, …) form
+ * a group of their own.
+ */
+
+import { walkGrammar } from "./grammarModel";
+import { getGrammar, type JavaVersion } from "./grammarRegistry";
+import { SECTION_ORDER, type SectionId } from "./java25Grammar";
+import { CONTEXTUAL_KEYWORDS, OPERATORS, RESERVED_KEYWORDS, SEPARATORS } from "../lexer/javaTokenizer";
+
+export type TerminalGroup = "keyword" | "contextual" | "literal" | "operator" | "separator" | "other";
+
+export const TERMINAL_GROUP_ORDER: TerminalGroup[] = ["keyword", "contextual", "literal", "operator", "separator", "other"];
+
+export const TERMINAL_GROUP_TITLES: Record<TerminalGroup, string> = {
+  keyword: "Keywords",
+  contextual: "Contextual Keywords",
+  literal: "Literals",
+  operator: "Operators",
+  separator: "Separators",
+  other: "Lexical Symbols",
+};
+
+export interface TerminalUse {
+  rule: string;
+  section: SectionId;
+}
+
+export interface TerminalEntry {
+  text: string;
+  group: TerminalGroup;
+  /** Rules whose production contains the terminal, in section order. */
+  uses: TerminalUse[];
+}
+
+const LITERALS = new Set(["true", "false", "null"]);
+
+/** The token group of a terminal's text. */
+export function classifyTerminal(text: string): TerminalGroup {
+  if (RESERVED_KEYWORDS.has(text)) return "keyword";
+  // `non-sealed` is a contextual keyword, though tokenized as three tokens
+  if (CONTEXTUAL_KEYWORDS.has(text) || text === "non-sealed") return "contextual";
+  if (LITERALS.has(text)) return "literal";
+  if (OPERATORS.includes(text)) return "operator";
+  if (SEPARATORS.includes(text)) return "separator";
+  return "other";
+}
+
+const indexes = new Map<JavaVersion, TerminalEntry[]>();
+
+/**
+ * Terminal entries of a version, ordered by group and then by text.
+ * Each rule is listed once per terminal, however often it uses it.
+ */
+export function getTerminalIndex(version: JavaVersion): TerminalEntry[] {
+  if (!indexes.has(version)) {
+    const grammar = getGrammar(version);
+    const uses = new Map<string, TerminalUse[]>();
+    for (const section of SECTION_ORDER) {
+      for (const rule of grammar.sectionRules[section]) {
+        const terminals = new Set<string>();
+        walkGrammar(grammar.rules.get(rule)!, (node) => {
+          if (node.kind === "terminal") terminals.add(node.text);
+        });
+        for (const text of terminals) {
+          if (!uses.has(text)) uses.set(text, []);
+          uses.get(text)!.push({ rule, section });
+        }
+      }
+    }
+    const entries = [...uses].map(([text, list]) => ({ text, group: classifyTerminal(text), uses: list }));
+    const groupIndex = (entry: TerminalEntry) => TERMINAL_GROUP_ORDER.indexOf(entry.group);
+    entries.sort((a, b) => groupIndex(a) - groupIndex(b) || (a.text < b.text ? -1 : a.text > b.text ? 1 : 0));
+    indexes.set(version, entries);
+  }
+  return indexes.get(version)!;
+}
@@ -0,0 +1,78 @@
+/**
+ * Version Diff
+ *
+ * Compares the rule sets of two Java versions: which rules were added,
+ * removed or changed, and – for a single rule – which alternatives of its
+ * production were added, removed or altered.
+ */
+
+import { normalizeGrammar, type GrammarNode } from "./grammarModel";
+import { diffGrammar, matchAlternatives, type AlternativeStatus, type GrammarDifference } from "./grammarDiff";
+import { getGrammar, type JavaVersion } from "./grammarRegistry";
+import { SECTION_ORDER, type SectionId } from "./java25Grammar";
+
+export type RuleChangeStatus = "added" | "removed" | "changed";
+
+export interface RuleChange {
+  name: string;
+  section: SectionId;
+  status: RuleChangeStatus;
+  /** Structural differences; empty for added and removed rules. */
+  differences: GrammarDifference[];
+}
+
+/**
+ * Lists every rule that differs between two versions, in section order.
+ * Within a section, rules follow the `to` version's order; rules that
+ * only exist in `from` come last.
+ */
+export function compareVersions(from: JavaVersion, to: JavaVersion): RuleChange[] {
+  const before = getGrammar(from);
+  const after = getGrammar(to);
+  const changes: RuleChange[] = [];
+
+  for (const section of SECTION_ORDER) {
+    for (const name of after.sectionRules[section]) {
+      const oldNode = before.rules.get(name);
+      const newNode = after.rules.get(name)!;
+      if (!oldNode) {
+        changes.push({ name, section, status: "added", differences: [] });
+      } else if (oldNode !== newNode) {
+        const differences = diffGrammar(oldNode, newNode);
+        if (differences.length > 0) changes.push({ name, section, status: "changed", differences });
+      }
+    }
+    for (const name of before.sectionRules[section]) {
+      if (!after.rules.has(name)) changes.push({ name, section, status: "removed", differences: [] });
+    }
+  }
+  return changes;
+}
+
+/** Top-level alternatives of a production; a non-choice is its own single alternative. */
+function alternativesOf(node: GrammarNode): GrammarNode[] {
+  return node.kind === "choice" ? node.alternatives : [node];
+}
+
+export interface AlternativeHighlights {
+  before: Map<GrammarNode, AlternativeStatus>;
+  after: Map<GrammarNode, AlternativeStatus>;
+}
+
+/**
+ * Classifies the top-level alternatives of a rule in two versions. The
+ * map keys are the original (not normalized) alternative nodes, so they
+ * can be matched by identity while building the diagrams. Either side may
+ * be undefined when the rule does not exist in that version.
+ */
+export function highlightAlternatives(before?: GrammarNode, after?: GrammarNode): AlternativeHighlights {
+  const result: AlternativeHighlights = { before: new Map(), after: new Map() };
+  const a = before ? alternativesOf(before) : [];
+  const b = after ? alternativesOf(after) : [];
+  const matches = matchAlternatives(a.map(normalizeGrammar), b.map(normalizeGrammar));
+  for (const m of matches) {
+    if (m.before !== undefined) result.before.set(a[m.before], m.status);
+    if (m.after !== undefined) result.after.set(b[m.after], m.status);
+  }
+  return result;
+}
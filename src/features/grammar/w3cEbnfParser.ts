@@ -0,0 +1,295 @@
+/**
+ * W3C EBNF Parser
+ *
+ * Parses grammars in the notation of the XML specification (§6), as read
+ * by most railroad diagram generators:
+ *
+ *   [1] document ::= prolog element Misc*
+ *   Name ::= NameStartChar (NameChar)*
+ *
+ * Mapping to the grammar model:
+ *   - 'text', "text"           terminal
+ *   - [a-z], [^<&], #x20       terminal, written as in the source
+ *   - A?  A*  A+               optional, zero-or-more, one-or-more
+ *   - A | B, (A B)             choice, grouping
+ *   - A - B                    A followed by the prose comment "but not B"
+ *   - /* text *\/               prose comment, inside a production
+ *
+ * A comment belongs to a production when it shares a line with one of its
+ * tokens or the production continues after it (`X ::= /* any character *\/`).
+ * Comments on lines of their own between productions are returned with
+ * their line instead, so the caller can use them as headings.
+ *
+ * Production numbers (`[1]`) and well-formedness/validity constraint notes
+ * (`[ wfc: … ]`, `[ vc: … ]`) are skipped.
+ */
+
+import {
+  choice,
+  comment,
+  nonTerminal,
+  normalizeGrammar,
+  oneOrMore,
+  optional,
+  sequence,
+  terminal,
+  zeroOrMore,
+  type GrammarNode,
+} from "./grammarModel";
+import { EbnfSyntaxError, type ParsedProduction } from "./ebnfParser";
+
+export interface W3cProduction extends ParsedProduction {
+  /** 1-based line of the production's last token. */
+  endLine: number;
+}
+
+export interface W3cComment {
+  text: string;
+  line: number;
+}
+
+export interface W3cGrammar {
+  productions: W3cProduction[];
+  comments: W3cComment[];
+}
+
+type TokenType = "name" | "define" | "string" | "class" | "hex" | "punct" | "comment";
+
+interface Token {
+  type: TokenType;
+  text: string;
+  line: number;
+  column: number;
+  /** Offsets into the source, end exclusive. */
+  start: number;
+  end: number;
+}
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_CHAR = /[\w.\-]/;
+const PUNCT = "()|?*+-";
+const CONSTRAINT = /^\[\s*(wfc|vc)\s*:/i;
+const PRODUCTION_NUMBER = /^\[\d+\]$/;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const advance = (to: number) => {
+    for (; pos < to; pos++) {
+      if (text[pos] === "\n") {
+        line++;
+        lineStart = pos + 1;
+      }
+    }
+  };
+  const fail = (reason: string): never => {
+    throw new EbnfSyntaxError(reason, line, pos - lineStart + 1);
+  };
+
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (/\s/.test(ch)) {
+      advance(pos + 1);
+      continue;
+    }
+
+    const startLine = line;
+    const column = pos - lineStart + 1;
+    const push = (type: TokenType, end: number) => {
+      tokens.push({ type, text: text.slice(pos, end), line: startLine, column, start: pos, end });
+      advance(end);
+    };
+
+    if (text.startsWith("/*", pos)) {
+      const end = text.indexOf("*/", pos + 2);
+      if (end < 0) fail("Unterminated comment");
+      push("comment", end + 2);
+    } else if (text.startsWith("::=", pos)) {
+      push("define", pos + 3);
+    } else if (ch === "'" || ch === '"') {
+      const end = text.indexOf(ch, pos + 1);
+      const newline = text.indexOf("\n", pos + 1);
+      if (end < 0 || (newline >= 0 && newline < end)) fail("Unterminated string");
+      if (end === pos + 1) fail("Empty string");
+      push("string", end + 1);
+    } else if (ch === "[") {
+      const end = text.indexOf("]", pos + 2);
+      if (end < 0) fail("Unterminated character class");
+      const body = text.slice(pos, end + 1);
+      if (CONSTRAINT.test(body)) advance(end + 1);
+      else push("class", end + 1);
+    } else if (text.startsWith("#x", pos)) {
+      let end = pos + 2;
+      while (end < text.length && /[0-9A-Fa-f]/.test(text[end])) end++;
+      if (end === pos + 2) fail("Expected hex digits after '#x'");
+      push("hex", end);
+    } else if (NAME_START.test(ch)) {
+      let end = pos + 1;
+      while (end < text.length && NAME_CHAR.test(text[end])) end++;
+      push("name", end);
+    } else if (PUNCT.includes(ch)) {
+      push("punct", pos + 1);
+    } else {
+      fail(`Unexpected character '${ch}'`);
+    }
+  }
+  return tokens;
+}
+
+function commentText(token: Token): string {
+  return token.text.slice(2, -2).trim();
+}
+
+class Parser {
+  private pos = 0;
+  readonly comments: W3cComment[] = [];
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string
+  ) {}
+
+  parseGrammar(): W3cProduction[] {
+    const productions: W3cProduction[] = [];
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (token.type === "comment") {
+        this.comments.push({ text: commentText(token), line: token.line });
+        this.pos++;
+        continue;
+      }
+      if (this.isNumberedStart(this.pos)) this.pos++;
+      const name = this.tokens[this.pos];
+      if (!this.isStart(this.pos)) {
+        throw new EbnfSyntaxError("Expected a production like 'Name ::= …'", name.line, name.column);
+      }
+      this.pos += 2;
+      const node = this.parseChoice();
+      const last = this.tokens[this.pos - 1];
+      if (last.type === "define") {
+        throw new EbnfSyntaxError(`Production '${name.text}' is empty`, name.line, name.column);
+      }
+      const next = this.tokens[this.pos];
+      if (next && next.type !== "comment" && !this.isNumberedStart(this.pos) && !this.isStart(this.pos)) {
+        throw new EbnfSyntaxError(`Unexpected '${next.text}'`, next.line, next.column);
+      }
+      productions.push({ name: name.text, node: normalizeGrammar(node), line: name.line, endLine: last.line });
+    }
+    return productions;
+  }
+
+  /** Whether the comment at `i` is part of the production being parsed. */
+  private isInnerComment(i: number): boolean {
+    if (this.tokens[i].line === this.tokens[i - 1]?.line) return true;
+    let next = i + 1;
+    while (this.tokens[next]?.type === "comment") next++;
+    return next < this.tokens.length && !this.isStart(next) && !this.isNumberedStart(next);
+  }
+
+  private isStart(i: number): boolean {
+    return this.tokens[i]?.type === "name" && this.tokens[i + 1]?.type === "define";
+  }
+
+  private isNumberedStart(i: number): boolean {
+    const token = this.tokens[i];
+    return token?.type === "class" && PRODUCTION_NUMBER.test(token.text) && this.isStart(i + 1);
+  }
+
+  private peek(text: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.type === "punct" && token.text === text;
+  }
+
+  private parseChoice(): GrammarNode {
+    const alternatives = [this.parseSequence()];
+    while (this.peek("|")) {
+      this.pos++;
+      alternatives.push(this.parseSequence());
+    }
+    const present = alternatives.filter((alt) => alt.kind !== "sequence" || alt.items.length > 0);
+    if (present.length === 0) return sequence();
+    const body = present.length === 1 ? present[0] : choice(...present);
+    // An empty alternative, as in `( A | )`, makes the rest optional
+    return present.length < alternatives.length ? optional(body) : body;
+  }
+
+  private parseSequence(): GrammarNode {
+    const items: GrammarNode[] = [];
+    while (this.pos < this.tokens.length) {
+      if (this.peek("|") || this.peek(")")) break;
+      if (this.isStart(this.pos) || this.isNumberedStart(this.pos)) break;
+      const token = this.tokens[this.pos];
+      if (token.type === "comment") {
+        if (!this.isInnerComment(this.pos)) break;
+        items.push(comment(commentText(token)));
+        this.pos++;
+        continue;
+      }
+      items.push(...this.parseExclusion());
+    }
+    return items.length === 1 ? items[0] : sequence(...items);
+  }
+
+  /** `A - B`; returns A and the "but not B" comment as sequence items. */
+  private parseExclusion(): GrammarNode[] {
+    const items = [this.parsePostfix()];
+    while (this.peek("-")) {
+      const operator = this.tokens[this.pos++];
+      const first = this.tokens[this.pos];
+      if (!first) throw new EbnfSyntaxError("Expected an expression after '-'", operator.line, operator.column);
+      this.parsePostfix();
+      const excluded = this.source.slice(first.start, this.tokens[this.pos - 1].end);
+      items.push(comment(`but not ${excluded}`));
+    }
+    return items;
+  }
+
+  private parsePostfix(): GrammarNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      if (this.peek("?")) node = optional(node);
+      else if (this.peek("*")) node = zeroOrMore(node);
+      else if (this.peek("+")) node = oneOrMore(node);
+      else return node;
+      this.pos++;
+    }
+  }
+
+  private parsePrimary(): GrammarNode {
+    const token = this.tokens[this.pos];
+    if (!token) {
+      const last = this.tokens[this.tokens.length - 1];
+      throw new EbnfSyntaxError("Unexpected end of grammar", last.line, last.column);
+    }
+    this.pos++;
+    switch (token.type) {
+      case "name":
+        return nonTerminal(token.text);
+      case "string":
+        return terminal(token.text.slice(1, -1));
+      case "class":
+      case "hex":
+        return terminal(token.text);
+      case "punct":
+        if (token.text === "(") {
+          const inner = this.parseChoice();
+          if (!this.peek(")")) {
+            throw new EbnfSyntaxError("Missing ')' for '('", token.line, token.column);
+          }
+          this.pos++;
+          return inner;
+        }
+    }
+    throw new EbnfSyntaxError(`Unexpected '${token.text}'`, token.line, token.column);
+  }
+}
+
+/** Parses every production in a W3C EBNF grammar. */
+export function parseW3cEbnfGrammar(text: string): W3cGrammar {
+  const parser = new Parser(tokenize(text), text);
+  const productions = parser.parseGrammar();
+  return { productions, comments: parser.comments };
+}
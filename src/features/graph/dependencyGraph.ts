@@ -0,0 +1,151 @@
+/**
+ * Dependency Graph Layout
+ *
+ * Lays out the rule reference graph of one grammar version as a node-link
+ * diagram: one column per section (in section order), rules stacked in
+ * their display order, an edge for every reference between two rules.
+ * Everything is computed client-side from the grammar model.
+ */
+
+import { buildReferenceGraph, recursiveComponents } from "../grammar/grammarAnalysis";
+import type { GrammarVersion } from "../grammar/grammarVersion";
+import { SECTION_ORDER, type SectionId } from "../grammar/java25Grammar";
+
+export interface GraphNode {
+  name: string;
+  section: SectionId;
+  x: number;
+  y: number;
+  width: number;
+  /** Index into GraphLayout.components; absent if the rule is not recursive. */
+  component?: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  /** Both ends belong to the same recursive component. */
+  recursive: boolean;
+}
+
+export interface GraphColumn {
+  section: SectionId;
+  x: number;
+  width: number;
+}
+
+export interface GraphLayout {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  columns: GraphColumn[];
+  /** Groups of mutually recursive rules (strongly connected components). */
+  components: string[][];
+  width: number;
+  height: number;
+}
+
+export const NODE_HEIGHT = 20;
+export const HEADER_HEIGHT = 28;
+const CHAR_WIDTH = 7;
+const NODE_PADDING = 12;
+const ROW_GAP = 6;
+const COLUMN_GAP = 90;
+const MARGIN = 16;
+
+interface GraphAnalysis {
+  graph: Map<string, string[]>;
+  components: string[][];
+  componentOf: Map<string, number>;
+}
+
+const analysisCache = new WeakMap<GrammarVersion, GraphAnalysis>();
+
+function analyze(grammar: GrammarVersion): GraphAnalysis {
+  let analysis = analysisCache.get(grammar);
+  if (!analysis) {
+    const graph = buildReferenceGraph(grammar.rules);
+    const components = recursiveComponents(graph);
+    const componentOf = new Map<string, number>();
+    components.forEach((members, i) => members.forEach((name) => componentOf.set(name, i)));
+    analysis = { graph, components, componentOf };
+    analysisCache.set(grammar, analysis);
+  }
+  return analysis;
+}
+
+/** The rule → referenced rules adjacency list of a grammar version (cached). */
+export function getReferenceGraph(grammar: GrammarVersion): ReadonlyMap<string, string[]> {
+  return analyze(grammar).graph;
+}
+
+/**
+ * Computes node positions and edges. When `visible` is given, only those
+ * rules (and the references between them) are laid out.
+ */
+export function layoutDependencyGraph(grammar: GrammarVersion, visible?: ReadonlySet<string>): GraphLayout {
+  const { graph, components, componentOf } = analyze(grammar);
+
+  const nodes: GraphNode[] = [];
+  const columns: GraphColumn[] = [];
+  let x = MARGIN;
+  let height = 0;
+
+  for (const section of SECTION_ORDER) {
+    const names = grammar.sectionRules[section].filter((name) => !visible || visible.has(name));
+    if (names.length === 0) continue;
+
+    const width = Math.max(...names.map((name) => name.length * CHAR_WIDTH + NODE_PADDING));
+    names.forEach((name, row) => {
+      nodes.push({
+        name,
+        section,
+        x,
+        y: MARGIN + HEADER_HEIGHT + row * (NODE_HEIGHT + ROW_GAP),
+        width,
+        component: componentOf.get(name),
+      });
+    });
+    columns.push({ section, x, width });
+    height = Math.max(height, MARGIN + HEADER_HEIGHT + names.length * (NODE_HEIGHT + ROW_GAP));
+    x += width + COLUMN_GAP;
+  }
+
+  const placed = new Set(nodes.map((n) => n.name));
+  const edges: GraphEdge[] = [];
+  for (const from of placed) {
+    for (const to of graph.get(from) ?? []) {
+      if (!placed.has(to)) continue;
+      const component = componentOf.get(from);
+      edges.push({ from, to, recursive: component !== undefined && component === componentOf.get(to) });
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    columns,
+    components,
+    width: Math.max(x - COLUMN_GAP + MARGIN, 0),
+    height: height + MARGIN,
+  };
+}
+
+/**
+ * SVG path for an edge: leaves the source on the side facing the target
+ * and enters the target from the other; references within one column
+ * bulge out to the right.
+ */
+export function edgePath(from: GraphNode, to: GraphNode): string {
+  const y1 = from.y + NODE_HEIGHT / 2;
+  const y2 = to.y + NODE_HEIGHT / 2;
+  if (from.x === to.x) {
+    const side = from.x + from.width;
+    const bulge = 24 + Math.min(Math.abs(y2 - y1) / 4, 60);
+    return `M${side},${y1} C${side + bulge},${y1} ${side + bulge},${y2} ${side},${y2}`;
+  }
+  const forward = to.x > from.x;
+  const x1 = forward ? from.x + from.width : from.x;
+  const x2 = forward ? to.x : to.x + to.width;
+  const mid = (x1 + x2) / 2;
+  return `M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}`;
+}
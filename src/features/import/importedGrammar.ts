@@ -0,0 +1,185 @@
+/**
+ * Imported Grammars
+ *
+ * Turns a user-supplied grammar file into rules and sections for the rule
+ * viewer. Two notations are understood:
+ *   - W3C EBNF (`Name ::= …`, see w3cEbnfParser.ts), recognized by `::=`
+ *   - JLS-style EBNF (`Name:` headers with indented alternatives, see
+ *     ebnfParser.ts)
+ *
+ * Sections: in W3C files a comment framed by `=`, `-` or `#` runs, such as
+ * `/* ===== Expressions ===== *\/`, starts a section; in JLS-style files
+ * every unindented line that is not a production header does, such as
+ * `Productions from §3 (Lexical Structure)`. Rules before the first
+ * heading form a section named after the file.
+ *
+ * All names and text in an imported grammar are untrusted. They may only
+ * reach the page as React text or through diagramToEscapedSvgString().
+ */
+
+import { nonTerminal, referencedNonTerminals, type GrammarNode } from "../grammar/grammarModel";
+import { buildReverseReferences } from "../grammar/grammarAnalysis";
+import { EbnfSyntaxError, isProductionHeader, parseEbnfGrammar } from "../grammar/ebnfParser";
+import { parseW3cEbnfGrammar } from "../grammar/w3cEbnfParser";
+
+export type ImportFormat = "w3c" | "jls";
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  w3c: "W3C EBNF",
+  jls: "JLS-style EBNF",
+};
+
+/** Largest grammar file accepted, in bytes. */
+export const MAX_IMPORT_SIZE = 1024 * 1024;
+
+export interface ImportedSection {
+  /** Element id, unique within the grammar. */
+  id: string;
+  title: string;
+  /** Rule names in file order. */
+  rules: string[];
+}
+
+export interface ImportedGrammar {
+  fileName: string;
+  format: ImportFormat;
+  rules: ReadonlyMap<string, GrammarNode>;
+  /** Each production as written in the file. */
+  sourceText: ReadonlyMap<string, string>;
+  sections: ImportedSection[];
+  /** Referenced names that have no production, in first-seen order. */
+  undefinedRules: string[];
+}
+
+interface Production {
+  name: string;
+  node: GrammarNode;
+  /** 1-based first and last line in the file. */
+  line: number;
+  endLine: number;
+}
+
+interface Heading {
+  title: string;
+  line: number;
+}
+
+const W3C_DEFINITION = /^\s*(\[\d+\]\s*)?[A-Za-z_][\w.\-]*\s*::=/m;
+const FRAMED_HEADING = /^([=#-])\1+\s*(.*?)\s*\1+$/;
+
+export function detectImportFormat(text: string): ImportFormat {
+  return W3C_DEFINITION.test(text) ? "w3c" : "jls";
+}
+
+function readW3c(text: string): { productions: Production[]; headings: Heading[] } {
+  const { productions, comments } = parseW3cEbnfGrammar(text);
+  const headings: Heading[] = [];
+  for (const { text, line } of comments) {
+    const match = FRAMED_HEADING.exec(text);
+    if (match && match[2]) headings.push({ title: match[2], line });
+  }
+  return { productions, headings };
+}
+
+function readJls(text: string): { productions: Production[]; headings: Heading[] } {
+  const lines = text.split(/\r?\n/);
+  const headings: Heading[] = [];
+  // Headings are blanked out so that line numbers in errors stay correct
+  const body = lines.map((raw, i) => {
+    if (raw.trim() === "" || /^\s/.test(raw) || isProductionHeader(raw)) return raw;
+    headings.push({ title: raw.trim(), line: i + 1 });
+    return "";
+  });
+
+  const parsed = parseEbnfGrammar(body.join("\n"));
+  const starts = [...parsed.map((p) => p.line), ...headings.map((h) => h.line)].sort((a, b) => a - b);
+  const productions = parsed.map((p) => {
+    let endLine = (starts.find((s) => s > p.line) ?? lines.length + 1) - 1;
+    while (endLine > p.line && body[endLine - 1].trim() === "") endLine--;
+    return { ...p, endLine };
+  });
+  return { productions, headings };
+}
+
+/**
+ * The JLS-style parser tells nonterminals from terminals by CamelCase;
+ * in an imported grammar any word that names a production is a reference.
+ */
+function resolveReferences(node: GrammarNode, names: ReadonlySet<string>): GrammarNode {
+  switch (node.kind) {
+    case "terminal":
+      return names.has(node.text) ? nonTerminal(node.text) : node;
+    case "sequence":
+      return { ...node, items: node.items.map((n) => resolveReferences(n, names)) };
+    case "choice":
+      return { ...node, alternatives: node.alternatives.map((n) => resolveReferences(n, names)) };
+    case "optional":
+    case "repetition":
+      return { ...node, item: resolveReferences(node.item, names) };
+    default:
+      return node;
+  }
+}
+
+/**
+ * Parses a grammar file. Throws EbnfSyntaxError with the file position of
+ * the first problem.
+ */
+export function importGrammar(text: string, fileName: string): ImportedGrammar {
+  const format = detectImportFormat(text);
+  const { productions, headings } = format === "w3c" ? readW3c(text) : readJls(text);
+  if (productions.length === 0) {
+    throw new EbnfSyntaxError("No productions found", 1, 1);
+  }
+
+  const lines = text.split(/\r?\n/);
+  const names = new Set<string>();
+  for (const p of productions) {
+    if (names.has(p.name)) throw new EbnfSyntaxError(`Duplicate production '${p.name}'`, p.line, 1);
+    names.add(p.name);
+  }
+
+  const rules = new Map<string, GrammarNode>();
+  const sourceText = new Map<string, string>();
+  for (const p of productions) {
+    rules.set(p.name, format === "jls" ? resolveReferences(p.node, names) : p.node);
+    sourceText.set(p.name, lines.slice(p.line - 1, p.endLine).join("\n"));
+  }
+
+  const sections: ImportedSection[] = [];
+  let title = fileName;
+  let headingIndex = 0;
+  const sorted = [...headings].sort((a, b) => a.line - b.line);
+  for (const p of productions) {
+    while (headingIndex < sorted.length && sorted[headingIndex].line < p.line) {
+      title = sorted[headingIndex++].title;
+    }
+    const last = sections[sections.length - 1];
+    if (last?.title === title) last.rules.push(p.name);
+    else sections.push({ id: `imported-section-${sections.length + 1}`, title, rules: [p.name] });
+  }
+
+  const undefinedRules = new Set<string>();
+  for (const node of rules.values()) {
+    for (const ref of referencedNonTerminals(node)) {
+      if (!rules.has(ref)) undefinedRules.add(ref);
+    }
+  }
+
+  return { fileName, format, rules, sourceText, sections, undefinedRules: [...undefinedRules] };
+}
+
+const reverseReferenceCache = new WeakMap<ImportedGrammar, Map<string, string[]>>();
+
+/**
+ * Rules that refer to `name`, grouped by section in file order.
+ */
+export function getImportedReferencingRules(grammar: ImportedGrammar, name: string): ImportedSection[] {
+  if (!reverseReferenceCache.has(grammar)) {
+    reverseReferenceCache.set(grammar, buildReverseReferences(grammar.rules));
+  }
+  const users = new Set(reverseReferenceCache.get(grammar)!.get(name) ?? []);
+  return grammar.sections
+    .map((section) => ({ ...section, rules: section.rules.filter((rule) => users.has(rule)) }))
+    .filter((section) => section.rules.length > 0);
+}
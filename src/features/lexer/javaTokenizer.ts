@@ -0,0 +1,341 @@
+/**
+ * Java Tokenizer
+ *
+ * Implements the lexical grammar of JLS §3, as diagrammed in the lexical
+ * section:
+ *
+ *   §3.3   Unicode escapes (`\u0041`, `\uuu0041`) are translated first,
+ *          unless the backslash is itself escaped (`\\u0041`)
+ *   §3.4   LF, CR and CR LF end a line
+ *   §3.5   the input is white space, comments and tokens; a final
+ *          SUB character (`\u001a`) is ignored
+ *   §3.7   traditional and end-of-line comments, returned only on request
+ *   §3.8   identifiers, with JavaLetter and JavaLetterOrDigit read as
+ *          Character.isJavaIdentifierStart/Part
+ *   §3.9   reserved keywords; contextual keywords stay identifiers and
+ *          are flagged, since only the syntactic grammar gives them meaning
+ *   §3.10  every literal form, including text blocks and octal escapes
+ *   §3.11, §3.12  separators and operators, by maximal munch
+ *
+ * Because of maximal munch `>>` is one token even where the syntactic
+ * grammar reads two `>` (see JLS §3.2); parsers split such tokens
+ * themselves.
+ */
+
+export type TokenKind = "identifier" | "keyword" | "literal" | "separator" | "operator" | "comment";
+
+/** Lexical rule of a literal token, as named in JLS §3.10. */
+export type LiteralKind =
+  | "IntegerLiteral"
+  | "FloatingPointLiteral"
+  | "BooleanLiteral"
+  | "CharacterLiteral"
+  | "StringLiteral"
+  | "TextBlock"
+  | "NullLiteral";
+
+export interface JavaToken {
+  kind: TokenKind;
+  /** Set for literals only. */
+  literal?: LiteralKind;
+  /**
+   * The most specific lexical rule the token is an instance of, e.g.
+   * `HexIntegerLiteral`; unset for keywords, separators, operators and
+   * comments, which have no rule of their own.
+   */
+  rule?: string;
+  /** Set for identifiers that are contextual keywords (JLS §3.9). */
+  contextual?: boolean;
+  /** The token after Unicode escape translation. */
+  text: string;
+  /** Offsets into the source as written, end exclusive. */
+  start: number;
+  end: number;
+  /** 1-based position of the first character in the source as written. */
+  line: number;
+  column: number;
+}
+
+export interface TokenizeOptions {
+  /** Also return comments, as tokens of kind "comment". */
+  comments?: boolean;
+}
+
+export class JavaLexicalError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+    readonly column: number
+  ) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = "JavaLexicalError";
+  }
+}
+
+/** JLS §3.9 ReservedKeyword. */
+export const RESERVED_KEYWORDS: ReadonlySet<string> = new Set([
+  "abstract", "assert", "boolean", "break", "byte", "case", "catch", "char", "class", "const",
+  "continue", "default", "do", "double", "else", "enum", "extends", "final", "finally", "float",
+  "for", "if", "goto", "implements", "import", "instanceof", "int", "interface", "long", "native",
+  "new", "package", "private", "protected", "public", "return", "short", "static", "strictfp", "super",
+  "switch", "synchronized", "this", "throw", "throws", "transient", "try", "void", "volatile", "while",
+  "_",
+]);
+
+/**
+ * JLS §3.9 ContextualKeyword, except `non-sealed`, which is read as the
+ * tokens `non`, `-` and `sealed`.
+ */
+export const CONTEXTUAL_KEYWORDS: ReadonlySet<string> = new Set([
+  "exports", "module", "open", "opens", "permits", "provides", "record", "requires", "sealed", "to",
+  "transitive", "uses", "var", "when", "with", "yield",
+]);
+
+/** JLS §3.11 Separator and §3.12 Operator, longest first. */
+export const SEPARATORS: readonly string[] = ["...", "::", "(", ")", "{", "}", "[", "]", ";", ",", ".", "@"];
+export const OPERATORS: readonly string[] = [
+  ">>>=", "<<=", ">>=", ">>>", "->", "==", ">=", "<=", "!=", "&&", "||", "++", "--", "<<", ">>",
+  "+=", "-=", "*=", "/=", "&=", "|=", "^=", "%=",
+  "=", ">", "<", "!", "~", "?", ":", "+", "-", "*", "/", "&", "|", "^", "%",
+];
+
+// Character.isJavaIdentifierStart and isJavaIdentifierPart
+const JAVA_LETTER = /^[\p{L}\p{Nl}\p{Sc}\p{Pc}]$/u;
+const JAVA_LETTER_OR_DIGIT = /^[\p{L}\p{Nl}\p{Sc}\p{Pc}\p{Nd}\p{Mn}\p{Mc}\p{Cf}\u0000-\u0008\u000e-\u001b\u007f-\u009f]$/u;
+
+// JLS §3.10.1 and §3.10.2, anchored at the current position (sticky)
+const DIGITS = "[0-9](?:[0-9_]*[0-9])?";
+const HEX_DIGITS = "[0-9A-Fa-f](?:[0-9A-Fa-f_]*[0-9A-Fa-f])?";
+const EXPONENT = `[eE][+-]?${DIGITS}`;
+const NUMBER_PATTERNS: { pattern: RegExp; literal: LiteralKind; rule: string }[] = [
+  {
+    pattern: new RegExp(`0[xX](?:${HEX_DIGITS})?\\.?(?:${HEX_DIGITS})?[pP][+-]?${DIGITS}[fFdD]?`, "y"),
+    literal: "FloatingPointLiteral",
+    rule: "HexadecimalFloatingPointLiteral",
+  },
+  { pattern: new RegExp(`0[xX]${HEX_DIGITS}[lL]?`, "y"), literal: "IntegerLiteral", rule: "HexIntegerLiteral" },
+  { pattern: /0[bB][01](?:[01_]*[01])?[lL]?/y, literal: "IntegerLiteral", rule: "BinaryIntegerLiteral" },
+  {
+    pattern: new RegExp(
+      `(?:${DIGITS}\\.(?:${DIGITS})?(?:${EXPONENT})?[fFdD]?|\\.${DIGITS}(?:${EXPONENT})?[fFdD]?|${DIGITS}${EXPONENT}[fFdD]?|${DIGITS}[fFdD])`,
+      "y"
+    ),
+    literal: "FloatingPointLiteral",
+    rule: "DecimalFloatingPointLiteral",
+  },
+  { pattern: new RegExp(`${DIGITS}[lL]?`, "y"), literal: "IntegerLiteral", rule: "DecimalIntegerLiteral" },
+];
+
+/** JLS §3.10.1 OctalNumeral, with an optional IntegerTypeSuffix. */
+const OCTAL_NUMERAL = /^0_*[0-7](?:[0-7_]*[0-7])?[lL]?$/;
+
+/** JLS §3.10.7 EscapeSequence, after the backslash; `\ LineTerminator` only in text blocks. */
+const ESCAPE = /(?:[btnfrs"'\\]|[0-3][0-7]{2}|[0-7]{1,2})/y;
+const TEXT_BLOCK_ESCAPE = /(?:[btnfrs"'\\]|[0-3][0-7]{2}|[0-7]{1,2}|\r\n|\r|\n)/y;
+
+/** JLS §3.10.4: a SingleCharacter (one UTF-16 code unit) or one EscapeSequence. */
+const CHARACTER_BODY = /^(?:[^\\]|\\(?:[btnfrs"'\\]|[0-3][0-7]{2}|[0-7]{1,2}))$/;
+
+interface TranslatedSource {
+  text: string;
+  /** Offset in the source as written of each character of `text`, plus its end. */
+  offsets: number[] | null;
+}
+
+/**
+ * JLS §3.3: replaces Unicode escapes by the characters they stand for. A
+ * backslash preceded by an odd number of backslashes starts no escape, and
+ * one produced by an escape (`\u005c`) cannot start another.
+ */
+function translateUnicodeEscapes(source: string, fail: (reason: string, at: number) => never): TranslatedSource {
+  if (!source.includes("\\u")) return { text: source, offsets: null };
+
+  let text = "";
+  const offsets: number[] = [];
+  let backslashes = 0;
+  for (let i = 0; i < source.length; ) {
+    if (source[i] === "\\" && backslashes % 2 === 0 && source[i + 1] === "u") {
+      let j = i + 1;
+      while (source[j] === "u") j++;
+      const hex = source.slice(j, j + 4);
+      if (!/^[0-9A-Fa-f]{4}$/.test(hex)) fail("Invalid Unicode escape", i);
+      text += String.fromCharCode(parseInt(hex, 16));
+      offsets.push(i);
+      backslashes = 0;
+      i = j + 4;
+    } else {
+      backslashes = source[i] === "\\" ? backslashes + 1 : 0;
+      text += source[i];
+      offsets.push(i);
+      i++;
+    }
+  }
+  offsets.push(source.length);
+  return { text, offsets };
+}
+
+/** Offsets of the first character of every line of `source`. */
+function lineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "\n" || (ch === "\r" && source[i + 1] !== "\n")) starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * Tokenizes Java source. Throws JavaLexicalError at the first character
+ * that starts no token.
+ */
+export function tokenizeJava(source: string, options: TokenizeOptions = {}): JavaToken[] {
+  const starts = lineStarts(source);
+  const positionOf = (offset: number) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (starts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - starts[low] + 1 };
+  };
+  const failAt = (reason: string, offset: number): never => {
+    const { line, column } = positionOf(offset);
+    throw new JavaLexicalError(reason, line, column);
+  };
+
+  const { text: input, offsets } = translateUnicodeEscapes(source, failAt);
+  const sourceOffset = (i: number) => (offsets ? offsets[i] : i);
+
+  const tokens: JavaToken[] = [];
+  let pos = 0;
+
+  const fail = (reason: string, at = pos): never => failAt(reason, sourceOffset(at));
+  const push = (kind: TokenKind, end: number, extra: Partial<JavaToken> = {}) => {
+    const start = sourceOffset(pos);
+    tokens.push({ kind, ...extra, text: input.slice(pos, end), start, end: sourceOffset(end), ...positionOf(start) });
+    pos = end;
+  };
+
+  /** End of a quoted literal starting at `pos`, validating escapes. */
+  const quotedEnd = (quote: string, what: string): number => {
+    let i = pos + 1;
+    for (;;) {
+      const ch = input[i];
+      if (ch === undefined || ch === "\n" || ch === "\r") fail(`Unterminated ${what}`);
+      if (ch === quote) return i + 1;
+      if (ch === "\\") {
+        ESCAPE.lastIndex = i + 1;
+        if (!ESCAPE.test(input)) fail("Invalid escape sequence", i);
+        i = ESCAPE.lastIndex;
+      } else {
+        i++;
+      }
+    }
+  };
+
+  // A final SUB character is ignored (JLS §3.5)
+  const length = input.endsWith("\u001a") ? input.length - 1 : input.length;
+
+  while (pos < length) {
+    const ch = input[pos];
+
+    if (ch === " " || ch === "\t" || ch === "\f" || ch === "\n" || ch === "\r") {
+      pos++;
+      continue;
+    }
+
+    if (input.startsWith("//", pos)) {
+      let end = pos;
+      while (end < input.length && input[end] !== "\n" && input[end] !== "\r") end++;
+      if (options.comments) push("comment", end);
+      pos = end;
+      continue;
+    }
+    if (input.startsWith("/*", pos)) {
+      const close = input.indexOf("*/", pos + 2);
+      if (close < 0) fail("Unterminated comment");
+      if (options.comments) push("comment", close + 2);
+      pos = close + 2;
+      continue;
+    }
+
+    const codePoint = String.fromCodePoint(input.codePointAt(pos)!);
+    if (JAVA_LETTER.test(codePoint)) {
+      let end = pos + codePoint.length;
+      for (let next; end < length && JAVA_LETTER_OR_DIGIT.test((next = String.fromCodePoint(input.codePointAt(end)!))); ) {
+        end += next.length;
+      }
+      const word = input.slice(pos, end);
+      if (word === "true" || word === "false") push("literal", end, { literal: "BooleanLiteral", rule: "BooleanLiteral" });
+      else if (word === "null") push("literal", end, { literal: "NullLiteral", rule: "NullLiteral" });
+      else if (RESERVED_KEYWORDS.has(word)) push("keyword", end);
+      else if (CONTEXTUAL_KEYWORDS.has(word)) push("identifier", end, { rule: "Identifier", contextual: true });
+      else push("identifier", end, { rule: "Identifier" });
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(input[pos + 1] ?? ""))) {
+      const number = NUMBER_PATTERNS.find(({ pattern }) => {
+        pattern.lastIndex = pos;
+        return pattern.test(input);
+      });
+      if (!number) fail("Malformed number");
+      const end = number!.pattern.lastIndex;
+      if (JAVA_LETTER_OR_DIGIT.test(input[end] ?? "")) fail("Malformed number", end);
+      let rule = number!.rule;
+      if (rule === "DecimalIntegerLiteral" && ch === "0" && end - pos > 1 && !/^0[lL]$/.test(input.slice(pos, end))) {
+        if (!OCTAL_NUMERAL.test(input.slice(pos, end))) fail("Invalid digit in octal literal");
+        rule = "OctalIntegerLiteral";
+      }
+      push("literal", end, { literal: number!.literal, rule });
+      continue;
+    }
+
+    if (input.startsWith('"""', pos)) {
+      const opening = /"""[ \t\f]*(\r\n|\r|\n)/y;
+      opening.lastIndex = pos;
+      if (!opening.test(input)) fail('Text block must start with a line terminator after the opening """');
+      let i = opening.lastIndex;
+      for (;;) {
+        if (i >= input.length) fail("Unterminated text block");
+        if (input[i] === "\\") {
+          TEXT_BLOCK_ESCAPE.lastIndex = i + 1;
+          if (!TEXT_BLOCK_ESCAPE.test(input)) fail("Invalid escape sequence", i);
+          i = TEXT_BLOCK_ESCAPE.lastIndex;
+        } else if (input.startsWith('"""', i)) {
+          break;
+        } else {
+          i++;
+        }
+      }
+      push("literal", i + 3, { literal: "TextBlock", rule: "TextBlock" });
+      continue;
+    }
+    if (ch === '"') {
+      push("literal", quotedEnd('"', "string literal"), { literal: "StringLiteral", rule: "StringLiteral" });
+      continue;
+    }
+    if (ch === "'") {
+      const end = quotedEnd("'", "character literal");
+      if (!CHARACTER_BODY.test(input.slice(pos + 1, end - 1))) fail("Character literal must hold exactly one character");
+      push("literal", end, { literal: "CharacterLiteral", rule: "CharacterLiteral" });
+      continue;
+    }
+
+    const separator = SEPARATORS.find((s) => input.startsWith(s, pos));
+    if (separator) {
+      push("separator", pos + separator.length);
+      continue;
+    }
+    const operator = OPERATORS.find((o) => input.startsWith(o, pos));
+    if (operator) {
+      push("operator", pos + operator.length);
+      continue;
+    }
+
+    fail(`Unexpected character '${codePoint}'`);
+  }
+  return tokens;
+}
@@ -0,0 +1,399 @@
+/**
+ * Earley Parser
+ *
+ * Parses an input sequence against rules of the grammar model. The rules
+ * are first compiled to plain BNF, with every choice, optional and
+ * repetition turned into a helper nonterminal, so ambiguous and
+ * left-recursive productions need no rewriting. Nullable nonterminals are
+ * handled as in Aycock & Horspool, "Practical Earley Parsing" (2002).
+ *
+ * What an input element is, and which elements a terminal or token rule
+ * matches, is up to the caller (EarleyMatcher). A terminal may span
+ * several elements, e.g. `>>` read from two adjacent `>` pieces.
+ *
+ * Accepted input also yields one derivation, built from back-pointers kept
+ * in the chart; ruleTree() folds its helper productions back into the
+ * rules they came from.
+ */
+
+import type { ChoiceNode, GrammarNode, OptionalNode, RepetitionNode } from "../grammar/grammarModel";
+
+/**
+ * A BNF symbol. `node` is the grammar node it was compiled from: the
+ * terminal or nonterminal itself, or the choice, optional or repetition a
+ * helper rule stands for.
+ */
+export type EarleySymbol = (
+  | { kind: "rule"; name: string }
+  | { kind: "terminal"; text: string }
+  /** A lexical rule matched against whole input elements, e.g. Identifier. */
+  | { kind: "token"; name: string }
+) & { node?: GrammarNode };
+
+export type InputSymbol = Exclude<EarleySymbol, { kind: "rule" }>;
+
+/** The grammar construct a production was compiled from. */
+export type ProductionOrigin =
+  | { kind: "rule"; name: string }
+  | { kind: "choice"; node: ChoiceNode; alternative: number }
+  | { kind: "optional"; node: OptionalNode; present: boolean }
+  /** `first` is the first iteration, `more` every further one, `none` zero iterations. */
+  | { kind: "repetition"; node: RepetitionNode; step: "none" | "first" | "more" };
+
+export interface EarleyProduction {
+  id: number;
+  lhs: string;
+  rhs: EarleySymbol[];
+  origin: ProductionOrigin;
+}
+
+export interface CompiledGrammar {
+  productions: EarleyProduction[];
+  byLhs: ReadonlyMap<string, EarleyProduction[]>;
+  /** Nullable rules, each with a production that derives the empty string. */
+  nullable: ReadonlyMap<string, EarleyProduction>;
+}
+
+export interface EarleyMatcher<T> {
+  /** Number of input elements `symbol` matches at `index`; 0 if none. */
+  match(symbol: InputSymbol, input: readonly T[], index: number): number;
+}
+
+export interface EarleyResult {
+  accepted: boolean;
+  /**
+   * Index of the furthest input element the parser got to: the offending
+   * element, or `input.length` if the input ended too early.
+   */
+  position: number;
+  /** Terminals and token rules that could have continued the parse at `position`. */
+  expected: InputSymbol[];
+  /** One derivation of the input, if accepted. */
+  tree?: EarleyTree;
+}
+
+/** A derivation of input elements `start` to `end` (exclusive) by `production`. */
+export interface EarleyTree {
+  production: EarleyProduction;
+  start: number;
+  end: number;
+  /** One per symbol of the production's right-hand side. */
+  children: (EarleyTree | EarleyLeaf)[];
+}
+
+export interface EarleyLeaf {
+  symbol: InputSymbol;
+  start: number;
+  end: number;
+}
+
+/**
+ * Compiles `roots` and every rule they reach to BNF. Names in
+ * `tokenRules` are not expanded; they become token symbols.
+ */
+export function compileGrammar(
+  rules: ReadonlyMap<string, GrammarNode>,
+  roots: string[],
+  tokenRules: ReadonlySet<string>
+): CompiledGrammar {
+  const productions: EarleyProduction[] = [];
+  const compiled = new Set<string>();
+  const pending = [...roots];
+  let helpers = 0;
+
+  const add = (lhs: string, rhs: EarleySymbol[], origin: ProductionOrigin) => {
+    productions.push({ id: productions.length, lhs, rhs, origin });
+  };
+
+  const symbolsOf = (node: GrammarNode, rule: string): EarleySymbol[] => {
+    switch (node.kind) {
+      case "sequence":
+        return node.items.flatMap((item) => symbolsOf(item, rule));
+      case "terminal":
+        return [{ kind: "terminal", text: node.text, node }];
+      case "nonterminal":
+        if (tokenRules.has(node.name)) return [{ kind: "token", name: node.name, node }];
+        if (!rules.has(node.name)) throw new Error(`Rule ${rule} refers to undefined rule ${node.name}`);
+        pending.push(node.name);
+        return [{ kind: "rule", name: node.name, node }];
+      case "comment":
+        throw new Error(`Rule ${rule} contains prose ("${node.text}") and cannot be parsed`);
+    }
+
+    const helper = `${rule}#${++helpers}`;
+    const self: EarleySymbol = { kind: "rule", name: helper, node };
+    switch (node.kind) {
+      case "choice":
+        node.alternatives.forEach((alt, alternative) =>
+          add(helper, symbolsOf(alt, rule), { kind: "choice", node, alternative })
+        );
+        break;
+      case "optional":
+        add(helper, [], { kind: "optional", node, present: false });
+        add(helper, symbolsOf(node.item, rule), { kind: "optional", node, present: true });
+        break;
+      case "repetition": {
+        // Left recursion keeps the chart small for long lists
+        const item = symbolsOf(node.item, rule);
+        if (node.min === 0) add(helper, [], { kind: "repetition", node, step: "none" });
+        else add(helper, item, { kind: "repetition", node, step: "first" });
+        add(helper, node.min === 0 ? item : [self, ...item], {
+          kind: "repetition",
+          node,
+          step: node.min === 0 ? "first" : "more",
+        });
+        if (node.min === 0) add(helper, [self, ...item], { kind: "repetition", node, step: "more" });
+        break;
+      }
+    }
+    return [self];
+  };
+
+  while (pending.length > 0) {
+    const name = pending.pop()!;
+    if (compiled.has(name)) continue;
+    compiled.add(name);
+    add(name, symbolsOf(rules.get(name)!, name), { kind: "rule", name });
+  }
+
+  const byLhs = new Map<string, EarleyProduction[]>();
+  for (const p of productions) {
+    if (!byLhs.has(p.lhs)) byLhs.set(p.lhs, []);
+    byLhs.get(p.lhs)!.push(p);
+  }
+
+  const nullable = new Map<string, EarleyProduction>();
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const p of productions) {
+      if (!nullable.has(p.lhs) && p.rhs.every((s) => s.kind === "rule" && nullable.has(s.name))) {
+        nullable.set(p.lhs, p);
+        changed = true;
+      }
+    }
+  }
+
+  return { productions, byLhs, nullable };
+}
+
+interface Item {
+  production: EarleyProduction;
+  dot: number;
+  origin: number;
+  /** Index of the set the item is in. */
+  index: number;
+  /** The item this one advanced from; unset for predictions. */
+  previous?: Item;
+  /** The completed item of the rule before the dot, or "empty" if that rule was skipped as nullable. */
+  completed?: Item | "empty";
+}
+
+interface EarleySet {
+  items: Item[];
+  keys: Set<number>;
+  /** Items whose next symbol is the keyed rule. */
+  waiting: Map<string, Item[]>;
+}
+
+function symbolKey(symbol: InputSymbol): string {
+  return symbol.kind === "terminal" ? `t:${symbol.text}` : `k:${symbol.name}`;
+}
+
+/** Recognizes `input` as an instance of rule `start`. */
+export function earleyParse<T>(
+  grammar: CompiledGrammar,
+  start: string,
+  input: readonly T[],
+  matcher: EarleyMatcher<T>
+): EarleyResult {
+  const maxDot = Math.max(...grammar.productions.map((p) => p.rhs.length)) + 1;
+  const sets: EarleySet[] = [];
+  const setAt = (i: number) => (sets[i] ??= { items: [], keys: new Set(), waiting: new Map() });
+
+  const addItem = (
+    i: number,
+    production: EarleyProduction,
+    dot: number,
+    origin: number,
+    previous?: Item,
+    completed?: Item | "empty"
+  ) => {
+    const set = setAt(i);
+    const key = (production.id * maxDot + dot) * (input.length + 1) + origin;
+    // The first way an item is reached is the derivation kept for it
+    if (set.keys.has(key)) return;
+    set.keys.add(key);
+    const item: Item = { production, dot, origin, index: i, previous, completed };
+    set.items.push(item);
+    const next = production.rhs[dot];
+    if (next?.kind === "rule") {
+      if (!set.waiting.has(next.name)) set.waiting.set(next.name, []);
+      set.waiting.get(next.name)!.push(item);
+    }
+  };
+
+  for (const p of grammar.byLhs.get(start) ?? []) addItem(0, p, 0, 0);
+
+  let position = 0;
+  for (let i = 0; i <= input.length; i++) {
+    const set = sets[i];
+    if (!set) continue;
+    position = i;
+
+    for (let k = 0; k < set.items.length; k++) {
+      const item = set.items[k];
+      const { production, dot, origin } = item;
+      const next = production.rhs[dot];
+
+      if (!next) {
+        // Complete: advance every item that waited for this rule
+        for (const waiting of sets[origin].waiting.get(production.lhs) ?? []) {
+          addItem(i, waiting.production, waiting.dot + 1, waiting.origin, waiting, item);
+        }
+      } else if (next.kind === "rule") {
+        // Predict
+        for (const p of grammar.byLhs.get(next.name) ?? []) addItem(i, p, 0, i);
+        if (grammar.nullable.has(next.name)) addItem(i, production, dot + 1, origin, item, "empty");
+      } else if (i < input.length) {
+        // Scan
+        const length = matcher.match(next, input, i);
+        if (length > 0) addItem(i + length, production, dot + 1, origin, item);
+      }
+    }
+  }
+
+  const final =
+    position === input.length
+      ? sets[position].items.find(
+          (item) => item.origin === 0 && item.production.lhs === start && item.dot === item.production.rhs.length
+        )
+      : undefined;
+  if (final) return { accepted: true, position, expected: [], tree: derivation(final, grammar) };
+
+  const expected = new Map<string, InputSymbol>();
+  for (const { production, dot } of sets[position].items) {
+    const next = production.rhs[dot];
+    if (next && next.kind !== "rule") expected.set(symbolKey(next), next);
+  }
+  return { accepted: false, position, expected: [...expected.values()] };
+}
+
+/** Derivation of the empty string from nullable `rule`. */
+function emptyTree(rule: string, at: number, grammar: CompiledGrammar): EarleyTree {
+  const production = grammar.nullable.get(rule)!;
+  return {
+    production,
+    start: at,
+    end: at,
+    children: production.rhs.map((s) => emptyTree((s as { name: string }).name, at, grammar)),
+  };
+}
+
+interface DerivationFrame {
+  item: Item;
+  /** The next back-pointer to follow; children are found right to left. */
+  at: Item;
+  children: (EarleyTree | EarleyLeaf)[];
+}
+
+/**
+ * Follows the back-pointers of a completed item. Repetitions nest one
+ * helper production per iteration, so this keeps its own stack rather
+ * than recursing once per level.
+ */
+function derivation(final: Item, grammar: CompiledGrammar): EarleyTree {
+  const stack: DerivationFrame[] = [{ item: final, at: final, children: [] }];
+  let subtree: EarleyTree | undefined;
+  for (;;) {
+    const frame = stack[stack.length - 1];
+    if (subtree) {
+      // The derivation of frame.at.completed is done
+      frame.children.push(subtree);
+      frame.at = frame.at.previous!;
+      subtree = undefined;
+    }
+    const { item, at } = frame;
+    if (!at.previous) {
+      const tree = { production: item.production, start: item.origin, end: item.index, children: frame.children.reverse() };
+      stack.pop();
+      if (stack.length === 0) return tree;
+      subtree = tree;
+      continue;
+    }
+    const symbol = item.production.rhs[at.dot - 1];
+    if (at.completed === "empty") {
+      frame.children.push(emptyTree((symbol as { name: string }).name, at.index, grammar));
+      frame.at = at.previous;
+    } else if (at.completed) {
+      stack.push({ item: at.completed, at: at.completed, children: [] });
+    } else {
+      frame.children.push({ symbol: symbol as InputSymbol, start: at.previous.index, end: at.index });
+      frame.at = at.previous;
+    }
+  }
+}
+
+/** A rule of the grammar model matched against the input, helper rules folded in. */
+export interface RuleTree {
+  rule: string;
+  start: number;
+  end: number;
+  /** Rules matched as part of this one, in input order. */
+  children: RuleTree[];
+  /** Nodes of the rule's definition the input went through. */
+  taken: ReadonlySet<GrammarNode>;
+  /** Iterations per repetition taken. */
+  iterations: ReadonlyMap<RepetitionNode, number>;
+}
+
+interface RuleTreeBuilder {
+  rule: string;
+  start: number;
+  end: number;
+  children: RuleTreeBuilder[];
+  taken: Set<GrammarNode>;
+  iterations: Map<RepetitionNode, number>;
+}
+
+function ruleTreeBuilder(tree: EarleyTree): RuleTreeBuilder {
+  return { rule: tree.production.lhs, start: tree.start, end: tree.end, children: [], taken: new Set(), iterations: new Map() };
+}
+
+/** Folds the helper productions of `tree`, a derivation of a grammar rule, into that rule. */
+export function ruleTree(tree: EarleyTree): RuleTree {
+  const root = ruleTreeBuilder(tree);
+  // Depth-first in input order, on a stack of its own (see derivation()).
+  // `nested` derivations start a rule of their own, a child of `owner`.
+  const stack: { tree: EarleyTree; owner: RuleTreeBuilder; nested: boolean }[] = [
+    { tree, owner: root, nested: false },
+  ];
+  while (stack.length > 0) {
+    const { tree: t, owner, nested } = stack.pop()!;
+    let rule = owner;
+    if (nested) {
+      rule = ruleTreeBuilder(t);
+      owner.children.push(rule);
+    }
+
+    const { origin } = t.production;
+    if (origin.kind === "repetition" && origin.step !== "none") {
+      rule.iterations.set(origin.node, (rule.iterations.get(origin.node) ?? 0) + 1);
+    }
+    const next: typeof stack = [];
+    t.children.forEach((child, i) => {
+      const { node } = t.production.rhs[i];
+      if (!("production" in child)) {
+        if (node) rule.taken.add(node);
+      } else if (child.production.origin.kind === "rule") {
+        if (node) rule.taken.add(node);
+        next.push({ tree: child, owner: rule, nested: true });
+      } else {
+        // A skipped optional or repetition is not part of the path
+        if (node && child.end > child.start) rule.taken.add(node);
+        next.push({ tree: child, owner: rule, nested: false });
+      }
+    });
+    for (let k = next.length - 1; k >= 0; k--) stack.push(next[k]);
+  }
+  return root;
+}
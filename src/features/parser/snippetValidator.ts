@@ -0,0 +1,210 @@
+/**
+ * Snippet Validator
+ *
+ * Checks Java source against a start rule of the syntactic grammar of a
+ * Java version, using the rules shown as diagrams: tokenizeJava() reads the
+ * tokens, earleyParse() parses them. Lexical rules referenced from the
+ * syntactic grammar (Identifier, Literal, …) match whole tokens.
+ *
+ * Only syntax is checked: `boolean b = 1 + "a";` is accepted, as are other
+ * snippets the compiler rejects for typing or name resolution reasons.
+ */
+
+import { getGrammar, type JavaVersion } from "../grammar/grammarRegistry";
+import { JavaLexicalError, tokenizeJava, type JavaToken } from "../lexer/javaTokenizer";
+import {
+  compileGrammar,
+  earleyParse,
+  ruleTree,
+  type CompiledGrammar,
+  type EarleyMatcher,
+  type EarleyResult,
+  type InputSymbol,
+  type RuleTree,
+} from "./earleyParser";
+
+/** Start rules offered first; any syntactic rule can be used. */
+export const COMMON_START_RULES = ["CompilationUnit", "ClassBodyDeclaration", "BlockStatements", "Statement", "Expression"];
+
+export interface SnippetError {
+  message: string;
+  /** 1-based position of the offending token, or of the end of input. */
+  line: number;
+  column: number;
+  /** Terminals and token rules that would have been accepted there, sorted. */
+  expected: string[];
+}
+
+/** A rule matched by part of the snippet; `start` and `end` are source offsets. */
+export type ParseNode = Omit<RuleTree, "children"> & { children: ParseNode[] };
+
+export type SnippetResult = { ok: true; tokens: number; tree: ParseNode } | { ok: false; error: SnippetError };
+
+/** A token, or one character of a `>`-family operator. */
+interface Piece {
+  token: JavaToken;
+  text: string;
+  /** Source offsets, end exclusive. */
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+  /** Whether the next piece follows without white space or comments between. */
+  joined: boolean;
+}
+
+/**
+ * JLS §3.2: `>>`, `>>>` and the like are read as single `>` characters
+ * where they close type arguments. Splitting them always, and joining the
+ * pieces again for terminals like `>>`, leaves that choice to the grammar.
+ */
+const SPLIT_OPERATORS = new Set([">>", ">>>", ">=", ">>=", ">>>="]);
+
+const RESTRICTED_TYPE_IDENTIFIERS = new Set(["permits", "record", "sealed", "var", "yield"]);
+
+/** Lexical rules the syntactic grammar refers to, by the tokens they match. */
+const TOKEN_RULES: Record<string, (token: JavaToken) => boolean> = {
+  Identifier: (t) => t.kind === "identifier",
+  TypeIdentifier: (t) => t.kind === "identifier" && !RESTRICTED_TYPE_IDENTIFIERS.has(t.text),
+  UnqualifiedMethodIdentifier: (t) => t.kind === "identifier" && t.text !== "yield",
+  Literal: (t) => t.kind === "literal",
+  IntegerLiteral: (t) => t.literal === "IntegerLiteral",
+  FloatingPointLiteral: (t) => t.literal === "FloatingPointLiteral",
+  BooleanLiteral: (t) => t.literal === "BooleanLiteral",
+  CharacterLiteral: (t) => t.literal === "CharacterLiteral",
+  StringLiteral: (t) => t.literal === "StringLiteral",
+  TextBlock: (t) => t.literal === "TextBlock",
+  NullLiteral: (t) => t.literal === "NullLiteral",
+};
+
+function toPieces(tokens: JavaToken[]): Piece[] {
+  const pieces: Piece[] = [];
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+    const parts = SPLIT_OPERATORS.has(token.text) ? [...token.text] : [token.text];
+    parts.forEach((text, j) => {
+      const last = j === parts.length - 1;
+      pieces.push({
+        token,
+        text,
+        start: token.start + j,
+        end: last ? token.end : token.start + j + 1,
+        line: token.line,
+        column: token.column + j,
+        joined: !last || next?.start === token.end,
+      });
+    });
+  });
+  return pieces;
+}
+
+const pieceMatcher: EarleyMatcher<Piece> = {
+  match(symbol, input, index) {
+    const piece = input[index];
+    if (symbol.kind === "token") {
+      // A split operator is never an identifier or literal
+      return piece.text === piece.token.text && TOKEN_RULES[symbol.name]?.(piece.token) ? 1 : 0;
+    }
+    if (symbol.text === piece.text) return 1;
+    // Terminals spanning several joined pieces: `>>`, `>>=`, `non-sealed`
+    if (!symbol.text.startsWith(piece.text)) return 0;
+    let text = piece.text;
+    for (let i = index; input[i].joined && i + 1 < input.length; ) {
+      text += input[++i].text;
+      if (text === symbol.text) return i - index + 1;
+      if (!symbol.text.startsWith(text)) return 0;
+    }
+    return 0;
+  },
+};
+
+const compiledGrammars = new Map<JavaVersion, CompiledGrammar>();
+
+function getCompiledGrammar(version: JavaVersion): CompiledGrammar {
+  let compiled = compiledGrammars.get(version);
+  if (!compiled) {
+    const grammar = getGrammar(version);
+    compiled = compileGrammar(grammar.rules, getStartRules(version), new Set(grammar.sectionRules.lexical));
+    compiledGrammars.set(version, compiled);
+  }
+  return compiled;
+}
+
+/** Syntactic rules of `version` that can be used as start rules. */
+export function getStartRules(version: JavaVersion): string[] {
+  const grammar = getGrammar(version);
+  return [...grammar.rules.keys()].filter((name) => !grammar.sectionRules.lexical.includes(name));
+}
+
+/** Maps the piece indices of a rule tree to source offsets. Deeply nested input makes deep trees, so no recursion. */
+function toParseNode(tree: RuleTree, pieces: Piece[]): ParseNode {
+  const convert = (t: RuleTree): ParseNode => {
+    const start = t.start < pieces.length ? pieces[t.start].start : (pieces[pieces.length - 1]?.end ?? 0);
+    const end = t.end > t.start ? pieces[t.end - 1].end : start;
+    return { ...t, start, end, children: [] };
+  };
+  const root = convert(tree);
+  const stack: [RuleTree, ParseNode][] = [[tree, root]];
+  while (stack.length > 0) {
+    const [t, node] = stack.pop()!;
+    for (const child of t.children) {
+      const converted = convert(child);
+      node.children.push(converted);
+      stack.push([child, converted]);
+    }
+  }
+  return root;
+}
+
+function describe(symbol: InputSymbol): string {
+  return symbol.kind === "terminal" ? symbol.text : symbol.name;
+}
+
+/** Validates `source` as an instance of `startRule` in `version`. */
+export function validateSnippet(source: string, startRule: string, version: JavaVersion): SnippetResult {
+  let tokens: JavaToken[];
+  try {
+    tokens = tokenizeJava(source);
+  } catch (err) {
+    if (err instanceof JavaLexicalError) {
+      return { ok: false, error: { message: err.reason, line: err.line, column: err.column, expected: [] } };
+    }
+    throw err;
+  }
+
+  const pieces = toPieces(tokens);
+  let result: EarleyResult;
+  let tree: ParseNode | undefined;
+  try {
+    result = earleyParse(getCompiledGrammar(version), startRule, pieces, pieceMatcher);
+    if (result.accepted) tree = toParseNode(ruleTree(result.tree!), pieces);
+  } catch (err) {
+    // The trees are built without recursion; this is the last guard against an overflow reaching the UI
+    if (err instanceof RangeError) {
+      return { ok: false, error: { message: "The snippet is too large to check", line: 1, column: 1, expected: [] } };
+    }
+    throw err;
+  }
+  if (tree) return { ok: true, tokens: tokens.length, tree };
+
+  const expected = result.expected.map(describe).sort((a, b) => a.localeCompare(b));
+  const piece = pieces[result.position];
+  if (piece) {
+    return {
+      ok: false,
+      error: { message: `Unexpected '${piece.token.text}'`, line: piece.line, column: piece.column, expected },
+    };
+  }
+  // Ran out of input: point just past the last token
+  const end = tokens.length > 0 ? tokens[tokens.length - 1].end : source.length;
+  const before = source.slice(0, end).split(/\r\n|\r|\n/);
+  return {
+    ok: false,
+    error: {
+      message: "Unexpected end of input",
+      line: before.length,
+      column: before[before.length - 1].length + 1,
+      expected,
+    },
+  };
+}
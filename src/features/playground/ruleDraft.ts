@@ -0,0 +1,62 @@
+/**
+ * Rule Drafts
+ *
+ * Checks a hand-edited production in the JLS-style notation of
+ * EBNF_DEFINITIONS for the grammar playground: parses it and flags
+ * nonterminals that name no rule of the grammar being edited. Every
+ * problem carries the 1-based line and column it refers to.
+ */
+
+import { referencedNonTerminals, type GrammarNode } from "../grammar/grammarModel";
+import { EbnfSyntaxError, parseEbnfProduction, type ParsedProduction } from "../grammar/ebnfParser";
+
+export interface DraftProblem {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface UnknownReference extends DraftProblem {
+  name: string;
+}
+
+export interface RuleDraftCheck {
+  /** The parsed production; undefined if the draft does not parse. */
+  production?: ParsedProduction;
+  error?: DraftProblem;
+  /** Nonterminals without a rule, at their first occurrence. */
+  unknown: UnknownReference[];
+}
+
+/** 1-based position of the first whole-word `word` after line `fromLine`. */
+function findWord(lines: string[], word: string, fromLine: number): { line: number; column: number } {
+  const pattern = new RegExp(`(^|[^A-Za-z0-9_])${word}(?![A-Za-z0-9_])`);
+  for (let i = fromLine; i < lines.length; i++) {
+    const match = pattern.exec(lines[i]);
+    if (match) return { line: i + 1, column: match.index + match[1].length + 1 };
+  }
+  return { line: fromLine, column: 1 };
+}
+
+/**
+ * Parses `text` as one production and checks its references against
+ * `rules`. The draft's own name always counts as defined, so recursive
+ * and brand-new rules check cleanly.
+ */
+export function checkRuleDraft(text: string, rules: ReadonlyMap<string, GrammarNode>): RuleDraftCheck {
+  let production: ParsedProduction;
+  try {
+    production = parseEbnfProduction(text);
+  } catch (err) {
+    if (err instanceof EbnfSyntaxError) {
+      return { error: { message: err.reason, line: err.line, column: err.column }, unknown: [] };
+    }
+    throw err;
+  }
+
+  const lines = text.split(/\r?\n/);
+  const unknown = referencedNonTerminals(production.node)
+    .filter((name) => name !== production.name && !rules.has(name))
+    .map((name) => ({ name, message: `Unknown nonterminal ${name}`, ...findWord(lines, name, production.line) }));
+  return { production, unknown };
+}
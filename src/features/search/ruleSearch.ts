@@ -0,0 +1,260 @@
+/**
+ * Rule Search
+ *
+ * Full-text search over the rules of a Java version: their names, the
+ * terminals, nonterminals and prose comments of their grammar model, and
+ * their EBNF text.
+ *
+ * Exact mode finds the query as a case-insensitive substring, with any
+ * run of white space in the query matching any run in the text or none,
+ * so `but not yield` finds the comment and `{ Annotation }` the EBNF text
+ * `{Annotation}`.
+ * Fuzzy mode also accepts the query's characters in order with gaps, as
+ * in `ClsBdyDecl` for `ClassBodyDeclaration`, within a single name,
+ * terminal or comment.
+ *
+ * Results are ranked by where the best match is (the rule name first,
+ * then the symbols of the production, then its EBNF text) and how good it
+ * is (whole, prefix, word start, anywhere, scattered).
+ */
+
+import { walkGrammar, type GrammarNode } from "../grammar/grammarModel";
+import { SECTION_ORDER } from "../grammar/java25Grammar";
+import { getEbnfDefinition } from "../grammar/ebnfDefinitions";
+import { getGrammar, type JavaVersion } from "../grammar/grammarRegistry";
+
+export type SearchMode = "exact" | "fuzzy";
+
+export const SEARCH_MODES: SearchMode[] = ["exact", "fuzzy"];
+
+export interface SearchQuery {
+  text: string;
+  mode: SearchMode;
+}
+
+/** Where in a rule a query was found. */
+export type MatchField = "name" | "nonterminal" | "terminal" | "comment" | "ebnf";
+
+export interface SearchEntry {
+  name: string;
+  nonterminals: string[];
+  terminals: string[];
+  comments: string[];
+  ebnf: string;
+}
+
+export interface SearchHit {
+  rule: string;
+  score: number;
+  /** Fields that matched, best first. */
+  fields: MatchField[];
+}
+
+/** Half-open range of highlighted characters. */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+const FIELD_WEIGHTS: Record<MatchField, number> = {
+  name: 8,
+  nonterminal: 4,
+  terminal: 4,
+  comment: 3,
+  ebnf: 1,
+};
+
+/** Small bonus per additional matching symbol, so rules using a term often rank higher. */
+const REPEAT_BONUS = 0.1;
+const MAX_REPEAT_BONUS = 1;
+/** Fuzzy matches scoring lower than this (out of 1) are too scattered to count. */
+const MIN_FUZZY_RATIO = 0.5;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** The query as a regular expression; its white space matches any white space, or none. */
+function queryPattern(text: string, flags: string): RegExp {
+  const parts = text.trim().split(/\s+/).map(escapeRegExp);
+  return new RegExp(parts.join("\\s*"), flags);
+}
+
+function isWordStart(text: string, i: number): boolean {
+  if (i === 0) return true;
+  const prev = text[i - 1];
+  const cur = text[i];
+  if (!/[A-Za-z0-9]/.test(prev)) return true;
+  return /[a-z]/.test(prev) && /[A-Z]/.test(cur);
+}
+
+export interface TextMatch {
+  /** Quality in (0, 1]. */
+  quality: number;
+  /** Matched characters. */
+  ranges: TextRange[];
+}
+
+function substringMatch(text: string, query: string): TextMatch | undefined {
+  const found = queryPattern(query, "i").exec(text);
+  if (!found) return undefined;
+  const start = found.index;
+  const end = start + found[0].length;
+  const quality =
+    start === 0 && end === text.length ? 1 : start === 0 ? 0.9 : isWordStart(text, start) ? 0.8 : 0.7;
+  return { quality, ranges: [{ start, end }] };
+}
+
+/**
+ * The query's characters in order within `text`, each scoring 1, plus 1
+ * when it follows the previous one directly and 1 at the start of a word.
+ * Every occurrence of the first character is tried as the start.
+ */
+function subsequenceMatch(text: string, query: string): TextMatch | undefined {
+  const q = query.replace(/\s+/g, "").toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return undefined;
+
+  let best: { points: number; positions: number[] } | undefined;
+  for (let first = t.indexOf(q[0]); first >= 0; first = t.indexOf(q[0], first + 1)) {
+    const positions = [first];
+    let points = 1 + (isWordStart(text, first) ? 2 : 0);
+    for (let k = 1, i = first + 1; k < q.length; k++, i++) {
+      i = t.indexOf(q[k], i);
+      if (i < 0) break;
+      points += 1 + (i === positions[positions.length - 1] + 1 ? 1 : 0) + (isWordStart(text, i) ? 1 : 0);
+      positions.push(i);
+    }
+    if (positions.length === q.length && (!best || points > best.points)) best = { points, positions };
+  }
+  if (!best) return undefined;
+
+  const ratio = best.points / (3 * q.length);
+  if (ratio < MIN_FUZZY_RATIO) return undefined;
+  const ranges: TextRange[] = [];
+  for (const i of best.positions) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === i) last.end++;
+    else ranges.push({ start: i, end: i + 1 });
+  }
+  // Always below a substring match
+  return { quality: 0.6 * ratio, ranges };
+}
+
+/** How well `text` (a name, terminal, comment or label) matches the query, if at all. */
+export function matchText(text: string, query: SearchQuery): TextMatch | undefined {
+  if (!query.text.trim()) return undefined;
+  return (
+    substringMatch(text, query.text) ?? (query.mode === "fuzzy" ? subsequenceMatch(text, query.text) : undefined)
+  );
+}
+
+/** Whether `text` matches the query. */
+export function matchesSearch(text: string, query: SearchQuery): boolean {
+  return matchText(text, query) !== undefined;
+}
+
+/**
+ * Ranges of `ebnf` to highlight. Exact queries are found in the whole
+ * text; fuzzy ones in each symbol of the production (`node`) and in the
+ * rule name, wherever that symbol is written.
+ */
+export function highlightEbnf(ebnf: string, node: GrammarNode | undefined, query: SearchQuery): TextRange[] {
+  if (!query.text.trim()) return [];
+  const ranges: TextRange[] = [];
+  for (const found of ebnf.matchAll(queryPattern(query.text, "gi"))) {
+    if (found[0]) ranges.push({ start: found.index!, end: found.index! + found[0].length });
+  }
+  if (query.mode === "exact" || !node) return ranges;
+
+  const symbols = new Set<string>([ebnf.slice(0, ebnf.indexOf(":"))]);
+  walkGrammar(node, (n) => {
+    if (n.kind === "terminal" || n.kind === "comment") symbols.add(n.text);
+    else if (n.kind === "nonterminal") symbols.add(n.name);
+  });
+  for (const symbol of symbols) {
+    const match = subsequenceMatch(symbol, query.text);
+    if (!match) continue;
+    const pattern = new RegExp(`(?<![\\w$])${escapeRegExp(symbol)}(?![\\w$])`, "g");
+    for (const found of ebnf.matchAll(pattern)) {
+      for (const r of match.ranges) ranges.push({ start: found.index! + r.start, end: found.index! + r.end });
+    }
+  }
+  return mergeRanges(ranges);
+}
+
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const r of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && r.start <= last.end) last.end = Math.max(last.end, r.end);
+    else merged.push({ ...r });
+  }
+  return merged;
+}
+
+/** Builds the search entry of one rule. */
+export function createSearchEntry(name: string, node: GrammarNode, ebnf: string): SearchEntry {
+  const nonterminals = new Set<string>();
+  const terminals = new Set<string>();
+  const comments = new Set<string>();
+  walkGrammar(node, (n) => {
+    if (n.kind === "nonterminal") nonterminals.add(n.name);
+    else if (n.kind === "terminal") terminals.add(n.text);
+    else if (n.kind === "comment") comments.add(n.text);
+  });
+  return { name, nonterminals: [...nonterminals], terminals: [...terminals], comments: [...comments], ebnf };
+}
+
+const indexes = new Map<JavaVersion, SearchEntry[]>();
+
+/** Search entries of every rule of a version, in section order. */
+export function getSearchIndex(version: JavaVersion): SearchEntry[] {
+  if (!indexes.has(version)) {
+    const grammar = getGrammar(version);
+    const names = SECTION_ORDER.flatMap((s) => grammar.sectionRules[s]);
+    indexes.set(
+      version,
+      names.map((name) => createSearchEntry(name, grammar.rules.get(name)!, getEbnfDefinition(name, version) ?? ""))
+    );
+  }
+  return indexes.get(version)!;
+}
+
+function scoreEntry(entry: SearchEntry, query: SearchQuery): SearchHit | undefined {
+  const qualities: [MatchField, number][] = [];
+  const add = (field: MatchField, values: string[]) => {
+    for (const value of values) {
+      const match = matchText(value, query);
+      if (match) qualities.push([field, FIELD_WEIGHTS[field] * match.quality]);
+    }
+  };
+  add("name", [entry.name]);
+  add("nonterminal", entry.nonterminals);
+  add("terminal", entry.terminals);
+  add("comment", entry.comments);
+  // The EBNF text adds phrases spanning several symbols
+  if (queryPattern(query.text, "i").test(entry.ebnf)) qualities.push(["ebnf", FIELD_WEIGHTS.ebnf * 0.7]);
+  if (qualities.length === 0) return undefined;
+
+  qualities.sort((a, b) => b[1] - a[1]);
+  const bonus = Math.min((qualities.length - 1) * REPEAT_BONUS, MAX_REPEAT_BONUS);
+  return {
+    rule: entry.name,
+    score: qualities[0][1] + bonus,
+    fields: [...new Set(qualities.map(([field]) => field))],
+  };
+}
+
+/** Rules matching `query`, best first; ties keep index order. An empty query matches nothing. */
+export function searchRules(index: SearchEntry[], query: SearchQuery): SearchHit[] {
+  if (!query.text.trim()) return [];
+  const hits: SearchHit[] = [];
+  for (const entry of index) {
+    const hit = scoreEntry(entry, query);
+    if (hit) hits.push(hit);
+  }
+  // Array.prototype.sort is stable
+  return hits.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,21 @@
+/**
+ * Diagram Font
+ *
+ * Generated by scripts/subset-diagram-font.mjs; do not edit. DejaVu Sans
+ * Mono (Bitstream Vera license, see @fontsource/dejavu-mono), printable
+ * ASCII only.
+ */
+
+export interface DiagramFontFace {
+  style: "normal" | "italic";
+  weight: number;
+  /** Base64 WOFF2 data. */
+  woff2: string;
+}
+
+export const DIAGRAM_FONT_FAMILY = "DejaVu Sans Mono";
+
+export const DIAGRAM_FONT_FACES: DiagramFontFace[] = [
+  { style: "normal", weight: 700, woff2: "d09GMgABAAAAACYsABEAAAAAQ3gAACXPAAEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGhwbHhyBOAZWADQIgwQJgSsRDArrVNw1C4FIAAE2AiQDgUgEIAWDKAcgDIl4G+05VQd62DgAQNzSh+z/zwdyjNiYf4D6VunJtIgKCRmSnl20QYiw0C7Tr2ZOoRVPQBuH0CegxSSUGnCp9cyZh+9UDm8em4xslXmZraVWU6vVobtDmVPKxiUNdovBn/7hF/JWhfs1V5nlMi2MLJPp97H3kWsIc5TREZLMDsE2O8IYoqJiFEMRMXGiqMx4qwijUZHSxigszFwYKx2vzO195yq0t/b3zGeu3MaidRXvXAQgQWNZZqHAQrGQFZY1aWLrqsqutsKW5ZPxf/APv5/60/NugKAIvwSs2gk3i2ij1IjkpOTM0mWWCtdfKk1lzrCTDMxDQ3A4S3CbP+SUUtHKyDq0+ft0fu7Ormh2RrL/PwAor6b2eslMCoHlCdoH2CUpWsAqLx1wB+Sfoov/lbN8H7pZag1p2B5YBYAvFwQl65Cj0jI6qYonpytervk/Vcs/AWGAAWYwSFkiREIJlDL3gnh2ud2l0K7ozAsxVpVDSp1ZutRzJbs6d+x/YHmqCbgn4vvdxII8xGIt7iWYB/L/btuke92Wu+nH0y8/T79hIieEzYMDdrD0AKCwg8Yfqr7/01m2kvdA3g1hh+QrujA03RXVnz+yNTPyaiUdWYteeIns0JwdsA/tQ6rupUqJ1XVheffAuwcxhJircIVlm6pNUSUdF20X3/am8QAJSEy7jopPjE/cc/73GFv1WFy367msoKADMoC18dH7AhAAIFXAoexBsNCWgv2aAgDBSA8FWfEPjQTK4AAAv3/f6yX7w1RMsdbA/fwUNvA9FOZnAdJpPi8T+F6lCLDkzMIcYF4tTru3wr2xjuZ0Wih4U9CjrPRUgL4ScLKAGsBO2mwoIkXwmCuzMHgkOyqSp8AMVtqksrEAMVjaFOnllcANNmk5DxQAheU+AABk9nHDsB/8oglAx5U2wRThUKj4wquJGCd+XIClGqqG0P+D7FLKhjzZA5Bfg18gGpQGw9HJhNCt4bAqXIWYVZ1iWD32t1zkGiHLwWUc0gFOgl7nr4UGmMrrvV1OEFWfKa/shmTHoqEMpE+VNP16vtnFQQu2Y0OwRGXTyGnImfUmByZ32Q2G62KtK/Tfly7oouQCaAAQg9oZbNxZEv3Om/A5eMXmY8nY2xe74LwHdfetLAgIBbsuCneS2LALAZAbiCIoaEDhyzy5JWtd1vuBGATVv5cXOADAeOi0InoYZy0C8FN0NFHfrFeFC2PC9kACwdQQH7oLOt9Y17nlAIC1woSWrzUgfwghh8DDITSxOrsIQJumxercQsF3UgAAQAB1qJJ7B+kXgo8yWOqy4q5cwar7e13VF7gDwMSNYbGiGsRuWKSw9kml4Fw08Pzlp92/ENREwW9yJ2Z2Y7E/Tk26bN6Ssx8oJewzxnNAiH0/+M2owQ173ISMnit+ZAKOX5IfMfk9FlIAOl5XfQV6qyzftRMRO5GAqwhBR4uxRntCWulBrInyVRr2+czzpTFuu7G1y75SyqADrAKTc69eZG2kKd22q9yAq/2gAP0DYELT0YdRAAVp9ibmsRlu44bVyOnVDlcbZcXFMy837o3nwqqzVa0661t7jBrBGc4t0VWXxvEOX5PMJ3eiJ+Lz1OCHyOH0mhbYAHua98SMouSIThGe4LzWZrSDR26Hh2xiKsOhCEMbctXuKPcyj4dGwMvAorGl+GzAefnVHU6C4O12lKyOdkVm0QPRZQUkbGvYEEseyS5Sc00XVrgb1bCJTZr5fKPy1+HXlnelYX4CLLCx3e6af7ljeoipVtUuy2z4zSiwC0jFdY+f0/hIpo/YIceNr8xMsmW/2JF/VqJ4IUcsxwtz7MzLxl+Sd2buzh5pRot/Mp+Le/zhWKR/MfzzH5bh1vNuVMX9a2iKe5F3XXr9dABoepXhoNo3DoYCrAjQkGYzZahhM08ghuSSbom5dEq3Edb3h9nIK5twjw3Wio+8yUHPDDlkKF0WKKEH/q/uEcpqp2aEGtGVJG3idTTNTAoRoraXHmkw2vZqZrxi3ykEMrGRMrjw9UNJa7AYIuZ9HbK2HLb5+J7En0/xiZvNz48pZbUkidmsgVZp/Xr7MLdM8x3O8WojY6v/FGeEe2qwrj+el1JeKWEgEB04EYBWalmolZburtrxtC2UK0sxLRfUn8tX/wYgRJGa0DsC2YtJ2FtH/V2t9Ny8vn7PgHUqwzMa86RatjFTt3jFBTWoRjlIbnWenAF/uaHhCSQbIZ7ULVoK8hsrvlnTOOGn2cY22pWwi+TWlEfb0mqVRVCz5dEEyBa27HHhRmsUU8bcZygRJ4CxlPbIJP4a9Eiqtsp55i9SIJfJYQLC7e49GaMWdkKEVkSXplVIgrmOFza/Yis9KWmf+7S37AJo6dn3LooMl9Y0S1cVc+UrZnNqfDDXkzom56gV6zUeIkeD+fnZiO1CMsuUKwlFZHa5rxuwbylkqGOt9MSfF17SioWLrmsfQwjc5bdGlC94POVZac/z0GrJw2IygR0UwAQoLJwiKXAlg5F2glrmOBlhXqhDNp4KEHsBPbSk/8HDOHYWpOrlnhI1bLGKeeYqSEWRcI9bfzEhQUNRca4bf16WI+wbm4DpS1CxI8Qb/tWfKFbkU0CardN2ysx3Ny/GBjYgKxLOsmoMUTobmsC0HpAvic+qpB1vxUDOegdIGliZdKLJsD3Ln/JojhUxXZERvkPnFIpo1Q6wKK7wqS1y6pOi2raLWBUMBIipRvcYjrUahsSAb95pm+bNoVnA/KynIPkmWe7WZw2Mvy1Ialq1jw20KkMQDcKm7Y6CrvaCcV/TY1tbh8eh2YXYV28hkaOKm7TTIpnNqVGjXr35bIWLupfcaytnGkjK6pVElfSzccEV1aZllu6zcVDBAc/TUqBkJfrEY6yrRwaBtStKljM2ybRFIELgvr/Iaoke2++2q11rf171vAkS9URiJ2WgnkpCCmzoFKgdB11BHkElsT7t47GBiqEKWJSpdGG5l0y5xh5FMmtwXamBDXkqqehaYtEjVtHs8tcgs8VlaGLhCpmLx4kby/AycW9Z88xDhy7652/wCXXiSz+au4cv7bqN4bKH91aKRwjyuKAD2ERDJ235Vop8txmvSLC6YD49tffAtQunVVY7wFt/WL8hXQ8s99nFKzgsYC7/MzZ8W3pMmQFFxzaeOdPQcPaskD73zGkPNQqdtnUrEpStNMBcCd37sJeJ2CLZq0Z8tafx9JnG+nN1xLB6LZ12U3eh0bVKfTEz6BRKGCPaiRUYbD9KinmkrSDtaV9tjbGn2tW7ie/8/U9Qm7YPGnyqNfNihDk7mblV+vBcHvppp1AwLi5vHHp8bgdG7f/ivnLXy8q7OKhsjyTfaOwcKnzR8CARptuoQbmoWbcmmn70QDRX9+7pvucDM69e7prb+wSjFa35tIPJfvmqhC329AAO7QePLg2O8fOdDRoL+jukPeRU7Fhs8KkBMjbmwsEnHq+QE8G2n0fHx9fGJ1YnJtYmxnHXcyjq81W32VW6Ng9KcCWomRyqgIpyIctW7M23r+i8eUkOCHCUJrJjhH+5Fz/xh5amxk/VNLWCIpD1X2q/ff9S01Cv7O/f3v6E/h7/AhZ8hRSCcAwylgbDj5kdgRXBj68PHjQiuvkFR3nVe3FLswT0BY8MV60M8+sWSatq96djtw4EJDr6rK5WVyeY7d4H35dTGk2PKGXmRE5b8glIPuYSlvlWafFEQ99ou/6g4YGL4jvaTzbl3cVzcJqJxDtbSkvbcpIK2ioCrLkdpVQh5M9ecu/wr2FvQ28GxhupLbOGu2m7hyGJD7R0H72xQkFZ85t5mxHhFuMWsXv214uKhtob6fvMGeZutW9Y3Nb6Om4ri8Vvravjt5leQNJsum18hiS3YFKiZ48n5+q9jdf/f9V6pPE1u7/etpbov8OYrFwkm5BuHoHbYrhSATl1gCOsSE0VVnI4ZSJeqgr0qMg1L5IIz35Y/leKsmdLCyQ5hHJ823zL8q9Xr1+pEsutHfN7ImK5/BhVY2wMlxsbzeP5XtVSpdl2W/sMSv6DL9Ub5l7Z6ecXDfl2WX117U6rydIOT67S2QhNoGZTQ6gCqsFMDlV9vmqZWnVpJZsGbN9nf8T4JRn+8NYYfEuDDm2O0TJZNTlu8sbEWKFu30/N3+7yH6fu5lNe+3gjulV2cdzb6NS42Lc2dGufBB9m5En/ZD9kivNlF97VZ+dGQn1qExNiony88BHum5RU89xumuTxRHFxXFFePreH+ffkDGEhPJK/JXD48pu52UuvRwIyt2Asm3dsb/1XMRvvYJfxi7GT6EtMOMxwmnLKThqUttcV/et4d13xSaJ5/aVWti4alpeuT5YREnLb4nIJRwZGzi505CaXCIvSm+f9EhZyk+hMJis859Fr+Y+f5893b9/fiTyEGpufuA2bxcs9fLqt/XADuCiie0epUMoTo3bjfHCBIX6dnqHiYfBrXdniUMDyviUawq/NMsa331VS2H5nvHiTW44Xs73DKynHzSJYDBRkYni59x/wP5rKrfzqpY+0N9y7jbDqCcE71agZX/1+fSwy8HpwkanrtgKhR4dt/N+kELsAd/oQgzU6sg75MQgbIPqgIpR3ygiUPMpG6yP05/UTzBELUrgQbrloeX+bcFlB0VExcwmcwswC0cd0ePdXjaevlZL/cSAqRaEG2iKVdisEU9cSmDJYO/KTkCLnUVpaAtdT4MlYRzonOtlFNRtje9vfDLaPbVxWKpK5G8Dd3eE7nquB2ZAbYV7/Ii/1vSpStLx8Dam6z8pfIuUmGFwTVWlwWBDOaMfKSWFPYYpQqCJ7Br/tJKvd+/YtiJxjR7Dp0rlpuglywara4ANTqmSXhJw5cWUnqhgIrc2NlD972tOTmKiq53usVHSNNpqZROv0a+UQ9ue157t2nlDa1NcmTEvKzk5NLOP/6nwQuffsvmuwF09SF4lcW2yS97wfKzMviuERzqjbUmV3zOvgHcljxAM1wQPHVAf7ooj7YVnZJew4Hzo3xCh3nbBUDjWGlhukm48TvufmVfF4UmXud8L4lg9aSJWPWlapX1CFDy11yLIB9cRbZgPJoIrHA6sXvuxcUPANhCMuyLQQf6I2fUJpnDhpb7RquGp/4svBB/bqd1F37Q88GAYNMg+TGNMYD6OlllBCqBHvh4+frX1W5uA6ny0/rbS4GPDR61MfgSf5OLVuhn4mszff/hAX1iGdRAMl09UBWCJZdtzmo7uN2xPC81KPqoGfkk6pY3T4BiUXBCWm51SHayL4oXFx1ELR+F60aa4IV+kYNELnTv935cTCr7OIa/YB/EBu+oJjBuUni3AJn6txf6WBbGorzjyVnJx9SizOVjC/WPrIZGYnM/7SLTsjvSWHGd7OFFuWxAwoos2cvBmUIKuDVmwYzhmtjXeBxUssw62RX/u3hncNnBgdHTjWFbXdxYtCtC+YjWD+OkmIrB0pvJklBz2jW3aX4juZKe8beg46+T5y5lkuWRbrW9gYahq7f/uhaY4s+QY2AzUDvHlKhse3NEhBfnEur6QMkRtKdJxjx8pjRXgRSo6iXT2w++kH+TPvd44kkndv3vFEZu6xvn6xmYnm9WYWrfpxTYN5zIBpqBpu+5d1QkVRYYXQit5B5c/IrSEIufMUa2ecVVgXPsj74/Iy7pDQN5XGiGuvrMEBRTSOiWHu5GUM7r9JVP2P5SvKkm/Is/dt1vgExUfjrchY6/Xjt266yV+zw7LrIy3ltGtbVTsjnqPx9skVnAP7pyd9SSqc5DG8Z+1N1pHtVV9zX7Bfy92kJ5bx1rj3WH+eT3BPziW3kvc3KvERJBIhqvzG6o3yDibIN1R54z1LVqjnlR3q6ytg7FAsosw3jUaP76jqZOFGs9wt5nUd6SWnR0ZkbHrGoyxIVNdzW10DV4e2tvrxwJ3ZG2gGFBFmo7asnWa4WErVFjs4lSM58awdKUTWqKA/LnLAJ+v/q62pia2eiUWamTlwPAs/bpV8JK3ELd/I1dL9sztgOIw7xrI5Li4Mmb04QmsQv2O0++/HY095S6ZZpoDldJmSlJruSnEJdm03YWgcwA/sbxa/OvZf8nnMiDV+n4dILtIMCfSMksu/rh8ZugvHyDEe9oONd/BjQp9UOj22raoOz8JLMMwdvPQh8dKWQDRLx5eVLv/9LNU+ZajDMtJZn5Uj4ksdV4sdlQviPyOPs3Sa/Br9dKYDdrBKdQcCou+V3i2N3htQoRt9hnqW2nexdOve4e7ijw9L4iPcrHISDIa9HH9LueVYojLMEj0LHaTe63tGHXRy8fq3a7r3x+j2leW+jPx2j2mP9oy8/uWV0W0/eqfK0/wiuqQjKQ2VmpXolKbhxW6/yLQk215joAy+gYE71ilMC4jqWhxOaapAV2qyGkakHf5R6cKp3u+SbSvLfVn5HR7THh1ZBb3LK5Lt33tZAdutXwW7djrR43NJcX+GmvB1HWjtlCCPZ1S3HnIEmaMdhBmOK3BK9G9xsyaYVbzW9FIx+53FjJy9VJRhW2WZ/a52BxlIv4JKgIsePo9BX0svOR1sMfhQFpCi0XgzvJMNh8nCi5xF5sudlE/Srkp2P2XIfb3fBWCeznPOy88X5TKnmZn1DrQX/3SyoouZq/t27jhoj70zRIrYrIKimh3AcPWSfLQNKXoTbNU3q0Sw6csvQwLdkulebFwSbGtoErJLv9grzv8xsoEkjnzlSeFWOQZ/gLd7Rw+au6IvMuP2VQjrcP/E/xEKTOc7MLZ6GnSjibmoJ4Efo0U7cQc5orsE0lpOJo1LMIkFcc/JVT/8s481k9gZBU36xxoZd7XUJOH6s3gf7u0mkzrlmWKTb9Sr32D5J/Jj/cw3uu3sYCNPBDxJiwO6EVK9wIbjWJL6opLfsmvNZoLqef87awoh1PTSwOn8YUwseHyyPZHn994u3t8pyuLw6Pjk9Ew/OC/LojvfmXSltgkHPSs2/YPlpvhL9Ws0iDkZ+8dGzc5+ulk2hWL7cK5SxA96NTL3Ebevy39TjUySXTXzmEqBx2gCaJTGqhXDzk18854Hjcb922Q8tGl/M45X99DGfwj0FKxNP7HE1br2HLziVg5CFrFuVoS6anYSXmvIjeIoeSglZlRA7u9J49jQHJyyejEr3KJ6rjyPEuwKQcIomkJlV+UqEC+yU3/mKawXc4KJUD0ytASj85qTzIrgo83MzOy47ZmnYB8twQVdlCKsAYurp14nvw9QJXRFWbGDCxyzqsB5w7WPjNGTw+IY22iHq0+ErT7X5ufyeTuONkSlw8QRZYuPVEpvkuSaxFXR/n9WN2c+YhyApI1lcb4qxFQ3bS5dvxqACBPuvZBqvdlq44WYrm9uc+l+ASDChONXE1Jp4+3fTasAkjaWxflJ+RC8CjHVTZtL178eYuL6AOXS9aWi1cfQ53Mlz1G+qPUGLjJvawGlZkUaQV0bit6ojwM0/fvkD74Wl5qmneaoMpoXvEvOxWAOS2wEjYUplk1HEj6Ra5oeHrrWzHad69IiZoerBg3SUA/1Xt/CEh+8UF/aHIq9JQ8GG+S8GPHjESNQsiv+lpc6nKa8l2vS9EYdqtw//nAU4hM86weiJkcqiFQdkOQuaiQ9oxxRe7VVznWztoDW4PA5JodN/yb07G63auxnzxkrL8hLwUWHL8LIGY0JQaBNz3LQdKiDkhummTdlC3e0WoMXI/tiUb3AL8krG/Ni7DJbSR3fI7LmHdLIp/QTpOJO3klTozBhWaVgDvIcjIgRUqqQXXORuh4bEAVL/PeWNLel2+JwZWxfrJ5+Uc2rcfxcEjIup3yx7Q9JP3cIZbZ8KtdUmMh/EgQ8Ji3GmN45l75o0WUo6JUo1i/KeTR2ziuk78CR58iqcJi2EN6BOV8Ae0E3FBV+fCBMbcOWfgtdlkVijprt6EEv2R8JbpLTHEOZYMRymrFBg/ZxMJ0K4CjA1fM6n4fQkE/AuknkLhJdcH9WE4ZRcpbPQ0ZBtZzzhHKclCbsMOkezG5UMV3jvk9h7VbQLOI5wH7mMMIkax2LULWZTxEZdBK6NzdWiQOtkbj/LFpTJvPPQmxsWH0q3zt4bGeUxcTNYfeYvBSHl/jKy+NTL+1svlxd3Xn+ZDzhYDcDiDMn5kEb8/0TuaJRMkYS8rfxQ5bKlP80h+U1HDCd3wYENcovxdnW0FNNUSIYIjFI9FFiB8TN0HXSMxO8sypMCGbXSmz55c6EGXHzu1bYww/+DBB47/zj64l2pStTtyPeM8Q0wzQjV+ahaL5bAAj8HJriZWZMTQNUWCXqy+gGvmGcmE+iq/gmdfFxOsdqn0N7PtqGhRVmqkcz6+ZUX6t9zzbZoi6tJvYqBmW1bOVa4ba69yFBPMnZ9usgiAbUcCsL5MDmZMzWWg5TvcjYEX+Gj4OvMsSS9WiQHjcWmEOnAhGO1CVh01h8FmbIe92xX+o64N4a9JtQOiYwZVqhPS7DhPBTO1geXInEYPb4poUd709Dxe1ZNNGTB6AFMrsmGsju0lx93ROEgzs3x4qh82iVtHZZ1Y+DZUzRsdObBQN8rhY1xTX5lLsEXqhwkaIacOsK/BLfVNBb1kkxU4YKjmQjgRpLoAvlPYEB9cwMhmUtHvFYW1ElDcsMyEmz4ekWBKas8IPVi1EFo6QpFIotUwY1J5zXV3PkmTfWOGtNEPbOC+e7sLCK05mjEHUyvTOqlmjD/jj5LYYmoJ/QI4L4QkKxM8R7XAbUAxTdhUIPeahB9F8tmIDVRNvRyuqgcAyGAvuf29GxwAt62/A3OXuTPY+Fncg+IjEFbumaVKgRsmv661MGoc/ndwtfwi6ucY/vwFPzO/JdrubD7nCcdtNR7RHUoJ4M5AxN0Tm5IG9TNbVKlzSF6tBNg7LD7w7D9JeI/Vg4QtNy0p8NBo9B++Z3rcgHfwEI3AQl3Dx3eWheOMTE1tnOwILeNJYcP0JrYwtKywp1LQ2vqKKoZOO7KIc3GAW7gRatLRbuPHX5dhliKebhmIRWVaTl40RIrN8yfIxpKe3eUplTexTeC+ZBpI/T/TaopCcSL1mSVWfa+MSTgmRs5C2vwlYfVwpGJ1A88iatqiXxqTqNzDtNVlSMqnQ6RUtou7Q2lm7PFUZktYwtXcuOTXdaVYe2qI4qGdJ0rVnME9uOalCBhbbSrA2dVd7ZhjgOxjB2ReMpzVkDGHd+8RDROHm9FLRDFl8PAmfQ59k4edQPYCTZZBTFtYxKsjGZ1sRPEKXUGBpmviBGPCYtD5SyPBQhH4YJqOPIUSAZZDk5WtQzsedhgX2leRcFWIzzO8LCsJDUTtCw/MV0oFFPrArB8K6WGMH3EArLXcFljDMMtpqLNOBIEW4dDZPMNWtCDDrYSykycUoR1nln1Pi7wMIZmZA7S2PxYtHbPqcY/A/SnJMcnv1nD4wPBKS41oJHekwtM6Q9FqdTUtNb+DtrGRU2ccoiu0db+iWemT+y7+3T/AK6jM9oF/UH1Myt0qiNpuXpem2J3a+SMYuRI0kWTkgEzgsxRe98ghF0aIjpDrYnRyR+IMLkbcSuTre47kJw54/rvz/zYSd2OlNAd1UFwwsjkXAyCKveoSdbe3jX7Jy4R2cni4tsqClwASHRCXnW+85/LxPDt4IHTrb0/ZFB8wLSCeihADkYE5JRlVYZWukbtgjfRqFpDZMIzac8lcN/dIcLqWA7cD0MEooi6HmWlDeoSKuUZg/SrLkVIfUsUZ02hIxLaOKjmv4I0AsHP7v1pGgfAneoUADqXGORW7uRj4TAU/vPaRyCju06drlNOB3bS2+6aH4rUjcXXn58j4PjIiZky2GtvV+TKOi35FqTKeDF+w2iTgmuaGlzH+29VE3raXPcPo3HcIweQjNqjjUbNdEQDKGhMBQl65JwqIXlAxIPJTqPzcssZCtlZCbCLBzFYrcwRaQOE6632bQcdAihdmmYpA3QOcUuH4Iwmu339yyUM7ZQotN9VT+prETmauskW7jrC3N0F1RINiky8KEX2X2GZMbE38yhE4SBtD91NBZQkOqPLTpwsREBf8aN8kjvi1n/ZlSw7l+GglZ8+Oz/+blz7p6H5+PFx+YZ7MYgS0J96hYyOjEarmBFa1p2fas4ui8mC6aScRjiwZvspLxkW2PCZuXah0oYzYTMNhfjbtGzb7mVQsQPlR41fT+XR+VxByC6EIi1AbnUktQeIyA78xa80CJu4axHm0/GFvS7+HUQ5B7VGGbLL9GtQ5exgEqiVoPoagUxRQ3hosSWM7KLsKuYOrVPBbHM3dLTFChLktZoBVudecN1illdp6DJg2irDRNxMxvxTlBIgEnFBmr1fTghQHFH4HPFwQ29SjLgaSl2gGVUTkFbDLUr604Ihs6CHsDxlhJMHfZz3djgi0be3+1OUQasiCK5kd0hzDf0O8QNb1Oupn8Q0/aKkIa4XrSLLCk2nXH7f5qQcaiGHpB5ZND87IA2WqM3RmM2rLEaewiHaIiHZEiHYiiHaqgPHdy8C37hXagL/yK4CPPH5mkgVGcjHIHu0BVek+ckvl2EWIjFrGF0I7VPIt7PV6N6wEWdj/6U7n2NyD7EtuE7uPb8P6dnl1sp4w4nLUR+/md6h56xQ8yj3MEgeiYHdUBYxIcuvaYaXHtjvxo6DrEwxt1JmTsqznWaViZjFyeN1DFLYyKZoo0PA2Fy9wedPoSQzrqFlz+ZMHuaG/BOHrlnRhRsnIz+ZGNm22v38V8TEwSfz3cOoEEj3Js9663e7nnv9O6uPwRDuBv1RV/2VV/3zcXEaBzS6hLj+iJLaKDP7Ai98TSkcu3rMrqKvijqOzaye5Kz3jMcQUQc9d3C6L12FghGDRFm4BkawQlSHKOuZYPnyWDI9fwBx+3GB/Xv65Fo72scYUQ0208gI+/Tj3W/lDi6TxoXbJJ5ENEUarQFNEnGcquwa37+wI3Nns/Qqf4N9q19AZbGOfMSf4Bmo9G35D70oX7b73r9QMbIrnwFt3EddUk2SkzCnJdAiCES5BSdd8GDdUMpJfU40aAphqDY6y0/b+rPcrleQmALGow6VKAaOYgxLoT0Ojo1ZhLV3mWliGKdFxMAUReUKldITl1t15NTip1jhwZss5SeWuWk2RM+kBX4ouV5e5D7ePDckphYNKUUInkB5mwDQ7BLushWSq+Enj1Bil/edFuEtt6xTIalrR20BNLtAG4j7TeY1lPdfspZNKciHwfQpMgqprNx/WA4Vw6F4wElp9XPhVdEj3Eh0XL2UHNYris/mHZ5xIXftcNUUHNAYPuNHLyxqZ7q1Hiq20szMxToWFHYqUMkwdamOIj6NNXDDCIsUj09fASGJVUuSopV+sWY+YVtBKEbTLWk3lmZFYdHdL0Ha2uF4iosjc6nGA1PCXOSlDYDGj5sotXRx+5HlraSP5jtcWL6QZyx+wZzS5pqezZgr07PwzRvVqPgu8CfeK14yPyIorX0j6LN57Uslt0jQADgL376i/fmoy/FW/9feQ8AwL/mtuQxb723botP5m6d4ulnQdMVAihdbxQA+JvVpj8xV3z1ZEOaVBoA+ecFqGEm8HkREYRMyDsZENvMylPuvAKV+LrUaVJDkNkUgNg09YoiE5Pfr8Wok4r6rcdk58tFK8EkFt7wiXriZaAAwJCygkiAIHbvU5ck6f0cj6/xxrEj72r5+HLrcGOsdwwH9/ISGMIAgDNXYhP56rhYbEhIEABwChJY41EEheJJGYA9QcwogANASTwYSNsEAJjSTfeEwMrdE0pZ2p4wVjwOCd9TgR5zrojBAPDFkyFFtCIRvM8cBagERDxb3trLwj3xePJ3G9KvGouEyIFzxRYsbcHSEdjY4+wxcx/Ul0soX7pUaQphWeCwbJBvabnDyNmnKBbiVoUKSOW+eVJks/GC5DiV6HnJakG3hIsxC95xXo9d4cUN51YtCKEQ50Q8N1Njhp1RNOnN9G7z3HOPLWuhcnwugeyGFvciwFzt8rtKxTsuiMDTpdrz5lSNc+c463Y685NT/skTyzqZQYrgOIljvRxNHuEyEeTD4zEdzgQ2Y579dcM/dDCgcIjByLDRAy81ukHSTDsgOVUWwYFqIxlpVhKJp4llGd7gTxJibfYPLWv/hg44/V/63m8dGpxVwUgR7Ntra18mOezZYPdPdnk2MAT0a9KHp1eP7YFt00qP0l22ixdWVyWdHXF16tDRHmFkpApp4xfVRqIVCWtp/qSWDZqbLgXwUrVpamxSlqTJ08QcGupDCg36+Mpgdb3UblDDC6uGRLUopmouyqeql0qUqoiAlfMxKidRdqiUdQv1KC3kUi6sZIPi106FBaoKEiw/j6h8QHLIPSmfWwkT6JGTfU45G2RnJSqM4KVqk5WOVzYKLMsTnpkJy8jPOEe65++OtPruNC4sVSupST4PpcBIPtwNOF5hJ1MqYSzkJHFhzAS0mAZQ9qNwZnPaFdVpkpMkxxbk4xpHNofY58G+TwdhAtnbTWqvyu5OWLDZWUds19javNYWaJ+NGuteXluNaa0KfFZ+swx/6RaLCyVb7MBUzHya2SDTNlMRJieCmqwxMe7TyEAgY6MpjVUZHfEJ4O27xpVjZMYMD6U1PMxQV1Q6weDAQh5cZ6A/LjBSPnZfWvY1fUdKX25vT3omqd4FokN3KXcX6eqMKIIPeF83M+MxnR0hFTadXrWSHe1BIUXHe8d3JNudXsGmHUF3Z6qmbZ3WEC0p2dyYFjs0BdZkko2WUqiGhjj1+bjqbSrlAVWmKO/BmE8pF1cpS9EnizUKx5oKefk4uWxMOaBfSJHJZiIqxpJVR8u4lUwoc58cm3Sc1DpJSylZJTFMfJiYo6jYb6I2kbCtyLhT2FLKJxQ8UegWwQcggIA7pEARv88rfrAOXpNwu/zSHsLdOdW1s8uPiywinPLI6cWZmHlt2Ea+tBUzxlShLiCKXsJhteQYNav12+u94/rRq46rX6m180UUAA==" },
+  { style: "italic", weight: 400, woff2: "d09GMgABAAAAACzMABEAAAAAURAAACxtAAEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGhwbHhx4BlYANAiDPAmBCxEMCoGHCPlMC4FGAAE2AiQDgUYEIAWDOgcgDIluG2JIJWNbFjxsHADGO88I2f9/Pw7GUKAAVXvbRxYms9lBy2PYCI+JVcxJC6UsU1zTRDfmOly0jUo2DQzYbFPZva0+eKiR6wn+TI/pMRUxzKbcNPA4L1bl66unUaORxxenGJ+vCBI+8rzSlvb9m/9NJ/SDEYsgjgobP+qFLLG/qr5gqx151mer3DVCklkewrUn30yS3fzNAZcAFLFDUFfVWkKjKiygAnLAEo0A3gGYV3OijmMmesNwRt9kTUxuY3ptJmNM9UTVtZqIurvxF5Hio+bT+dmMZkZsDYnYlmWZ5AXnrxVyjskHrAPg8v4R16muaI+7AJUuyv9SJVdtuc++bfVewiQYhO5xxWWGHr7CGsQramX+VysjMyh2FUP/19b6f2aiiEuFV+IdwWfQbAhiQWx2H5VXeEVTyt1VzV3pTMkO7uqMbcJVyqQiqghW2rMlEyrsh7M34e6hC8H06ZDrsGkmTfnw/DPO76Pr9oVkRIKnv68EJmmsWfdQV1WxVCXZlt3tnelhL88esaMJ0kPsI4zuMe4HjqLPPo3+crokjD0UOIewMTaHSue3zPGsvzoKUNCiWyI9n4Z2V45FHMazzfb+/QT8+DY/H2ECmKhYy6/qnQcMoSQQFqh8FLoY+8IFnUYl4sTFwP+Zq0yrYdZGzDmLPLPRBOEZmyrJFGS/3HRVNU0zDXOimjWwlkauZ0aGmXN0w+pxyPvslBmfNcixHlh/xrpIT7FC6zIFmUsihakiZfJJmuvYT30PbkAbNMk5oOLA+dX39s/Y8sedGNt33SaSgvBUUPejpghsMchkHe6F8n3wDz6LQ801Oa64CokG8Kn/I5Bc8Q9ecjkkrn4aD8ZxEQDV/ToajHYkRAFkihqBNFddGA/tDwsF8N3Ri3JVb2QH62A0NW0xuc+6jhJ5o4wXrsZRv8FK3LRzWhPDUNgdyupQToCSQIAc06aUOrKp5tObccsjDiQAhyMxJtD/oGieI+P1BoDj1Z9PONcU+5I9OMUklyONaoT1JM3iSFNcf23y9DgmlPV7dtQYBl5amJnmoziml5P9/tH3bXTzsRWiQusEsfCduo6HBqtloMtMemx660WxV48AYGcVvmTNone0XE+NKdXIf+g3ba1C/EdYEsT2gTnLC1zIzOG0QE+KCs2aIxdbfAW0H1DA/14mTK8xrQAeaGzSSCNYbPQPhCI4cRj6FDQrx3cjVB9zzIZBuqNDR34JLLFVuSaXj1CRkIJDc3ByNVSALpookVpxsaI3jBdp1gTK5HwMD1Ufyx9cplvjrwTwluSb+wsbTdEK5GpFxe2zl4Dyt1xV+V9cUx2LlQr0itSoG8AJBS4agA3aenor360xLLSGraU+6RIAxqFUM4mIyOkfpuhizwiFfPsG+TE2gQDmJ8QD7DExcdeS4dQjRW4n9NrN20eFBT/nB9loRrD3C4oX/BrP1yapR/5z/f+W27hkm99rRO61Au23K/SYl6l4eS3lOo3d8KODfYP6yg375ews9gt78hom6C0tvfO7XP/ZYD1wZXwqXrGr+3Prt13hdJ0dAMc+z0qsC2K13RHZnNt0YXNR+sSsduHIP6KozTO6i2ouXLX9ahpNnsEzTbtjU5GFD0zc95P9yuA6CSvtkLXYhWYf2/YlgheJRkgX2H4B6e7DlW3XeGTbZ2tdTKGBaeEaC33+pHpkyRzTL8IthWtmLjUmJu6lbteJl+6rKpZxfGrkrbnH+xT7PkYFAw1+gASyCBaD1gQ09nCRj1qRgybBhxMdVoOm9Szta43n92ERsyqGY5UH4g6w5u/MSJmkB9IBywLQOWHh5wMwA7rGUcuOj0WB5kvY1D1xe+/1l9aIjH0lF7x+Did0z886gvR++nSckFdEBalBMf1PLhkPkautC8POvvH7mf9z9Frn4aC1PlqKJSpHIFr0KmUuRTFSkYiyKkHUsVW0gVQFP4xTrIEaXEETEmEd0Z2r+oFjPXqt59FbJTNLsHuq4/pqEVZS5MqdmqJEJa7buLFr4T1WGLYhiQ9eiVTKhzMjNJ67wLdRn1wmE0rQIMn+ajGWOMX069cpHay0WUXJNZNDtRf6mX2k6lFRZdNt7J9bkmRAYrnLuvLsuyCljp64DN/lBDpEUZvV8I8T268VkeVIjcUX1KCVSZQ86Smma/VCCmkrEc2n7E9kZjtwSbBGMz6FqA/SqkOM01gtAf9+8HzLxtVPPq+rRfbus/+Fe2MbzF1RJkkt+1ghRvWwC9mYhjCgfS6vb9+9rLj1HEdYcToZfZhLf1VL6nYqCn8tGJlfWcVXSpIkK+KKAifxYENDVDAzJ8mh/OInENzlAyvBW/UCGihU8JLkmA8uFJ1NvSs4bea4GbONT02dxokutAlOE1I1lQuVcfBGPchktyCd1L1impaYr707M2jty95TAkF83sOBAEofc/Oh5x/dpWyjDdMDcTOQHS7wtayIM9duMCv84iPvw3X1vuB5WofUPiRNjgFxCoLmZpBW9z0lT52+8RZY4U1iBw51Gcce5kKB5PNNpA+bTQAFDQe/JsFLFYFBck7DHbiIWEDhKFpQr0LYtVIoGchOz2CzEymt5mCTk/oCd4XrG66Gqc6yv5IGnJ7ps2GZJ2g6xOI6qPhmZ2U+mqlLuRrQhctskAdFK87kq2Z/bEzcxZoUvV8kJUCX1VFHpYtERR92erwAxntjpuxqjBJA4Y7PEjUtJ4ChnNJHP0SCkoNZsQ/IAksY/Yamg+da0CYNnYf0QIEpS63+pCPUegEUuoOq8ANtay19b9GFVVSe0YhzE9ENxxP1DAdOpVjTm925l7oLz+/DQC+8N/lE2NlhwmW7d/FlFyhn5GHqWsmo+V6CuxIwCm/m+wUMHpII9bNNTca9CAE39HAPzRZkqzDdxkxD+oYbOE37TfWOiXEn41zx2b4T+zxlYh6WQctlvuO7SV6xNuLRz6TtXRD9rMjDTzlPIuo4N9BNhwVe+4JDHwBiUbw+I8+Us7YMN9xKRROy3idVXAuxesAoZlfUU26e5mujb6gN6qte7qcjdeuR4hA7ev9u+xmds2E3YUc6QF63J//C2+2cQ7mQ2n6BAztC2wGqFwCU2yXVxkuhbZ1V/pzqAWAleY6ani/tngmumOns9soE9yD0jV2PpiTe+iKiA8oZMKshm2oGX1rQCtZQGvU0m7UJ5fI7vKXUXplxg+/tIY/OJ5L2JzR3iwJCUvG6tVqTNpbXc+gG5E5fDkv0+28CEZOW7tQwdzcazc0tPBw53lEF7oWTrALrOJ2nz/TirfKnpgqLxicmpZVCbCDd6iGWlW89qFQPt/CiWAUNDLe4QusEnd1d3QSbgql7MH0iTvoox5fqa1rYOO8KlgyKDKReppHTnmyYxgQ7bjhSVz6xbw2ug2coK3LhRjfP7x3Y0CULlCbqUqHI2KK4YB1YTvBkgVPJamLySEe2TZWxI3wU9lZuxwi0UQV+1vxG0K421TLr6nSfdTZh6nD4/A1SqBP6DCtN6JzlNuNiOghsO/acvEReNsZ7bKfGp7YQIYPZnDEhjneHrdbMzg3PzQ7Ozg6/h1Lr0P5HfV+Y0TTCgHvkCIB7BEBtjTCDYXSuzMEdaxbglBrFF1+NPDyMjNypYuzmZjwO6V5uvxA3jSpGlT0rrF2ZOQd0MoEue/1v6kl+zcrcuRo63rOIoh1iXxrYersZXxLuWUzWCXYoCeicK6cUL7cMmQg9SAxxVZoMcd4RgcLg4CEjtODQdcWhavCQoShB6ngnKDMsLvC+bYad+k607qEefur1UgvO8boXhX+kbbQ5UKdHMVYss4fxyV1WKmJXJUgFuulvMHeNMPF8ui6RmVLSpNjX3D5Vl05KC872XlKLUVOZSgMvKaBnT241Nt3dd7nWdynmz4f8K3sfBV/vrcv3bDgQ1+2Jacrz8RLc7DPwkBki6jtWWHP27aupdOrHEIyvxyuPiohpMEJBfRelf0svePr0482sziqmR6+aC5QGX/aOjU8Nr177ez41tSi8cklQZFVNeaq2UNV16S8FQxk78jQ19u7iOivZ46udtxtuPSRt58nHk343sl0V/lj3+MC1XMFM1IE9eCVIH5P8ULcPtgo38NpLyM1NYk6sNoflZ8TUjk0WvKRBwyvDJtQAx9/Pxisrl151qGfIZ/blH+mIfD34sjPaf/h5MySzpzOdmBBLoQ/cyAhIDrcC9WTTlUpLLkQrr3xMTSljYyrJ44ttKmQDd9KzT8fjsvVODl1L5Q2UEqD/mGn/jV3/x1T7H49qU0Ec9XaG4P2Nt4L+iJolOMT6Pc9i0la0u5/2BfEVhFyH2EKGIbLcuUsTb8jJ3X/AQUIq52WbgP7I7Jggmj8a4Rhl7BLtRfRYdaTaKM9EGG8ZkZsWuxnBuM7scCoG5WBGFsacC+3o/ruXucqZceNeI44UiaWPHDbgCdGj6ZWgKO1yO6/cvsmqJ7zGE+gsxG6aN+oKo6o0h8nTEsxEpftqtHFwQF+aJEvZSmvm2CiUy6PA/mkWW0wmvTIyB1reMff88LYCH5IZrXWuJbHCc1NA+eaFAJm9pZTHN5n3MClik6b0B2v5Rm94Ibkijey7dNZwvTIzOAqV0dY3s3PQ3tw8ud8ili6R15b+yZJTeTXRDACvUx9WD3j3D/+PJ6W3Yoto2Rz0Ps+2qy5q6vv/lVt4hnR5OnqHpjEyl260TNZgxqx8zfXt+qaep9uVwePsLfNv9zQsxQmrFEsk6ogK//5PN8rXMS903rCbXwcIZ3uK57MTwUPXMVPlikPMULl58FAxVvKcHQ0e6sVMkhSHyCWbOyjzSpyPxZ5l4oc/Lv/pD95WjFJKCJo1sqVlX6L3e7ZfRaqp71tbMi28CCPedp6jbi3yOEis0obXSNtUlX24iq1r0UP5vma86Dh7O5F41ZZ2gPA0RMk6rGh9hy7ex7YED5kKnWWbOgwpE2GuG25VpvkZ4T7pHcosq1LbE7CzzwAPOV1GfTMCf3/1Db+hhalnOEbB24L/5mkyK7THoW8WB6LNd2iS4msVESjs6OPObDEWxrCFIk/bToWBcPa0CFRHVlm2nNdAVoRbZ3pMlM0GJPb3hM/2VoDw+1GvcO0t558XYCrI2sHOlQEt80xqQRSm3P/0XKsDGuYrqIU68YlRmhwahXIBtlU0X8bDlKqtpXPANP57/vtje/kMAubWidD91Lc63xFBp+RU97H2TyZv/mklL/UxwXeH+ruMwMnqV54qP3D/rytflY2Sj7caUbGFB5cWuoObZpoCZmq787fN4N9FhJBPGPx2SsNWWAqsJQIftZiWtAMUZ3cevLrbM7n//diHLPq4Z3mYGZNBLWpCjHer7nqa3jAL6jvoyUTgfbPUUlS79er7sz+7AhWpm5pETfVDvP2mTUzf3q1Cb1+/PHUSeNKkujr1qbOUgOeY2uhlcXYCeIgtwg3bFYHC2NZx5oLKjTuCBo1yAfJNZoERAVF+dOO9YM16maJXQZ+vVx8F77pZOhqNm9IW90f7oSIZjH/noGTJE81z9iV+OHvdhV+cvcDdOw2qAd8HLAwla2fXFd+ylzlOKZIGlNn3V6Dszedik2LvUfsgO56tf4l/Et9fFZNnXIaztz+X/Ch5pDZqlNV2kNNGERNnb8k1WVyr4oEMncW7gqvqxET1GDQgy/wBnOD6IcMcRjyYG76cVDOsa8oDkvBVGpR7E/pYO01x9obm3aiSyJK79O9HKTfRGs8jzyvqE5TV5Iq/k/VH9ZPjhbvsZLzSnFEUArb2+D6UlbLums5gKfYhglZIUU0T/SWr1z7xXcxKiQExGf6JPuv6UfpKo+GqS6p+0/s9VWDB0B8yDHShnxZGN8j4fUQWKZOMKgrQ99XBmHyIptPyAChvC1QPhtI7vj9d5aWICHeNe8RIJ+RhICjpsingBWiKabpo4KTar+7/4u2LJ3U0BX98IOEZPt+vT8NdQ2XcxqQUjokawpphjbws71EriyqLcLctvC2vabx+js330fLR9YO/ic8iZ5IxRX46vro+Ru/iUiLyh4TibFnACxBLpswa1Ysh9YwdzVZ4gO3DXRK3k9PxVT5M0+4af32RlOz8BPr2KKwhwY+qsaER+vz9s+PWZFhYhDdm0y9y+tmbBSV+kqCbWggKVNpUVYM9NI41CnQ7Bik0HoaEeIuRQIRsaWa24OkRS/D1EUyOefWKG3RxsXeG9n+lPD8tlK6f4XNacnQeqfme5//JJwVAp2vCAj9+926XdZFRGXeCtWp51vV0qExJJpj43PCPah4/ZpV6ABFhztEH9GhyAw6Clqln9dvpTxSMswomOKWFHdW8An18M+9MgQfSUrh7IsQHuOBu4gmlTZU5YIGgagkS7kTw9VGkHLNajhkpIGarwLRlaX5gUX+KXeZ8ayHLvBB6kKD+YGtx/D+Flo8hkUmg/pGPHrNxUvWgBYEemsr4T96+hCm2vsNAnu/iAt23gUAGOmMRAfcVWg5uDDJy5fg9yoUMTs3lKs6CtFe+qdqlO7n5UCICDUULQTRG0WB6lmgAMEHK6sTAFZWl8SzHvjcQJxIjafFRz8UzSfND9X0mVIsbBIbMRFlauwa4PGDtVQqN4ViKA98Klvu89xGGLzs6K+bmqRbcsrrL3i/xEnGOcE98mVgzs/Vop9BLyCXGPf5ZMkSlLMqQBTwWYMkyzb1GfEnddw5mKtwVHSJdEndS00hlqPcIr3ysJlo3wOhdbCaFQdGh3zhfo9dx9Oi8Cl1cuTmqF0PpndyfYXpBENEuiYfJOaQCtBJahskCTgiwAA7FmEJf3Y+jeBf76/nooE0+xVR/P+fEu3Cm7iTBkL0f30DXaSosoVocS+2RbfKDjEJEnEoc1Q5tojTqqNmq7VZcTw4kPDF6jUeIJijEpwWOKz775nVLiaCkMhd07fY1VP5AUiBxxUCs2lY0C5ySGTrMu/kC2wX+TZe73dyiS5bZnRQS5C1h63aNciBX/XygNSpJmteOmRQCk2XCLCximEN541MF4yReOymPQDQm8xYLPJiWMiXUi2OBB5zwd3BhuQ3VDDW+wCpBEu4uf8+sInF2XZWE++bCvYq7DTi1BG26dW0keooXFEi4PrMo9aj+n655uP+VLMzXTmc6Z14ZoFQEV38riSlh6EGoFjTKWDMQ7mTiWuuMq5VrivBKCDSL0UAJ1bpPCqwEKxgE7zHEznDa4AE9MWiiXLVD/CPACQ00ci4AyTHdi4Lc5ev0/wZ3JFdGgZxEPSiu0tFk7VNPfT4rjDHeXa7CaaY7gq7IY0fS/HxJqkoLg3eJtZSrtqjKiJSv0zuVSkMwfV4Wy+XfgL2TB/C5jg9Q7SZbUWtMtJgz0IOMlOKxpr3/8rKVskYbE9ykmS6zXeF08MG6fJVaPnjnmF6VjEjFOu1TaTqivHoA5PNuIGou33QxZRp6+Mfo+/UgwRRJA48yUyfLm25mVXAUnCjurDDmHG8Y5Fhkrmp7ARpcvZ0/yDeOhwR7g0hihLr/agIW8rGSm21bcswN0Kjf0SkAfbfpbaJQ+hDdfFZ0W93bQu/NAqeBmycDREoVBUWZDprVzZPuZkXvs1lQObCcmN/5SaGRRzv7QE35wA+3QH8z4/33vR/UyP81hgT/fCQ+VA86BN8UeDWDkZnkdo49Pm7Y/RLyftyXWeCdc0GOJP3gLkNJMvM/KTjzcwUz/138Cs8/YtDnojTDkp03ziSv9shTYqW8IldPs93xuOAgXYe4cfsdCyRsTrOo4B+8yD/JCC71NTmjya4sHD0h5KMwrxZdz3RL7s2w9rilnd5i57ColVNw4CvuKUGMoN7OXsAOgHL8gO6OfeVVtqhTmiDjw6H2Y1dri9XtCl3j1ePyZFXkmWrMJvB6z7hrFsbKHthTFjOor15dHZrV/+9nDiA4kATkBbU7fqrD5UK6st21ritt2BXJnkPc81Nwu8MQ4SHsWgwQ1l2rY1TY5pbxxOhUnrJEZWLtWK80Ad/NDCKYy9M4c9sZDjKM9REO+C12RtgEdUEFGfhEIG5wxSkOM9qXbrajQPMa/qTm/Wr9+QJ+vncr/yB7FcEJcTQW4FEd+jVs9yysAy7Rt/OEqjjsrH4QZ1P42upRgPvOdKb8/lhnTyyQ6klIMn+jOfYXA/tPJ24Hu40IMkEdpHjtbGLnErKrnXlw2f0XChHGcXdHF77q+L0eJr9SJzDkLqxWEBPhJL+FI1Zk+ok2UgNkRV+HI0MlAWtneG3C5s24nqowIUBW6MsSO29hLM9jCDA2AHgFXyMPAehDz6lKmNWQzcbgAoP2AICvQh15giARcYQJEAPeGtb3jYtRNI2JFnZHwV1pgyektwulgInR1I1m/oXI2vvPn3rWw17pUY970qu91uu90Zv9KRAIhAllksyFcjimeVm303k/LkAgTCiTZC6Uan+6BUEsail7lMys8GNw9WYpdEqKhKZEuKJRvL2qBHsXlgmEORJmIozSzgaqSSeppD5TRpi4ZgMRn+LsqPeWDKdI33godRuC1VoP5jhSS08J6Idfipk0hj01URgYuOAOlhwbEDU9CqMY+wlRTVN79d6k7+BXf1YgR0+e/KQzVnUqT1Iz1aqdWzxXmvjaL0qAvUkUybnRkcSCgRqd95QPN0GHEDa7ewxRxx0wAXNXdAgbeleCIogKqaqsAJW0V+RXPS2QpOakIG4utW/nHVytABODfrd0EEOnDrM53ZBu93tMVc6iV6BEBOBqwNpVNmr5J5kIDPNGUM1qNaWLgJxIxcROQOeZsuJCVRhgGWOExe++0Kbp0m99KcZLf9wUfotlnGqimYUu7CpPBV2FTaTKegWipCYmlDVHA6xFhBC/VqscxkpGUEwY2NAktTNAvet9GznWuthG+0divKgfhc7t8nxXbIMHkoJNspGeGgvVzqnhF4Ev0qJ6hXqiBkx2Qqe02RfjpV54CWoMbG/zrkr92gRDRzeID86ahpM2jNOqfA0u5MioEgTVt1hJeSQseKW5yyu4ufPelrPxNN9UCrkZTEJnerLsIjgmJwOcRAgTS7tkzCjxNzc6lCCYEJR/tcuEBLewp7HTlsCgCvc3hh18b973wBUFcjsXCEyRQQX3TqOEKSW/Yp4SKoAuU8J9E7BbMkzqSar6mf0Gr0iVVwXRh2zIYqKI7Si4YCNN3290PltWF1msEkJwb1WUG8KnuVLRmj1lTtfOKg5TDXB+GXT8obDXwPkaft95axkfkyLVqWC/OYIf1JzN8ge3iiq9gQNPHB8tm9gs/clmi3MjdPPgUbcNH737BPuP0Q0EAwA1PvqiunCBYSbOHMGejsYn7ujABwnjhzevsUgPlKxTJlT21HflyFpCDSLv7IY5VoDSHmNWTjwTGqW9aJQV2HgzwmqSOuGOZ2GLzTwCMokSQluzYA2VzRwy42XMEIExxH5SEG5g8hJL08gEWkYZFUQQkTqRL2BZsbOrknFKdZBCEGuZyzLSYG5QUvUTkDozKPsnNLUxtmZ7VcUA3UVUvbKiIqvZzbgzcIMWALHorcA3YA49GsYejLEqMHNaaBrAsx2oEQ2gH3YFeJUChlLTfTTsOClQkqohiIHcVR0bSqByeKNk8BLu82VmQMBSP9LB3LGIyTJHooY1Jw6eVA0hTa504LnM44RdzqPN6AG500g60E1nSt0QANdDMwc1mo+L2hHl/USkfEM120fN7bzB4FJ2oojUpXVdD8qHQITFZf5jlCiwQ6/xTNM4JCWmWFWFZAw3KIlpfaSk6KCyFVM9JyY0MOY7EBoVuTC9jyEzcnrBMwaqDQHxcNZoC6speB3sjZPZh8BUbS6PxY5EM5B2t5NSCxKLmkHSWstqaxnh92IGvg812EkaOaFOtgUTO28TpXWTfqzGKgr0sO0ZEQKJvOwlezVTkkGIGf4IjoQGBNkSkx3ln/qEJpK669BloPTjjni5o9bDbySeCgIDqunFhHa9mYp28ToTCZ0wE1NinVMBipGLVqihAHU1NWLIDH8sJHFRdRIlnZxVlDW1c3Z1cVrfDZxEXSSfZ9muPlR/gzjihzfzfA0KmTtYQMEkQcqxgQwxzAhTpcY0X48N/jGwevMIRUSInJJxWiVFEj5UXEuDZFZT7GwmqHMkTgrbO4ZYdF0FNvPGFJD3rUepi7UIFpthrHYqmeyZw3gqxgc6sUsaCRrlgyQX2hD//vNQLjE2DNKRyKGqQMY8Q4cJ1H+WBjg2GF1NuZLrCoJGM8huYuDGdTjMZ4x2feya5aXSJMI40DBONNjTzhjm3wKt6oitIrxlrrRpFkQDM/We4dYYpiysKm1m0a6G1uotGHhj5QwmbgC6O1cVw4zwPBr540SVQMbU91xiuuWdNak8OqDbRXwC63mXWfBn6iyhHBJ+teO+IwPswUOGTX0Z8yLXDUoxFrE0mFb+m4Dh/BP3JDQcfwInYu5pbheVZmElGoRT4WhTvfDRopx9dw4AKRnv+55Q6AP7SBNoYat0snM7r/OvwBW8UsyAwKAdiGCkLMACLpRGNm7jNf49cA9+YLPgLngLfp4mlvOAgByywqpaXQwkUSbDZB7l4jCseNICct7srZwIKX73QOaCkDndKMgGvgNqQwQQSBFhlQwBwdjvLMd3X0LKGVKwdB9N26UFOwdVP5vNVIVgeACGzYYRdlv0X+ugBnxNvfkJ++4I/pGpMIKSJtCMmrebI3+/t1hlCqI4NUy+brBMUfFTwjWTlBOkRPNyEqYKFcWhIDKZ2RwO0CmEkuvwpkceFACJIBVNGsxaLdXjo1Re1nsxa4lLxcvoeELxjU0bh2ykFtC4WqBddRgXw2rUDLrhcKyOza47DP/i09AdM8ILpRE7dSGPtJJUk3rqJnHk9eIld9T0pqV2QFXdy4mfexlLb3MffTOwh0CIHOUGloOMun7DM5Cvb6mLJVF03D6D7/XYTeCErnt9agJONnWx2yO615i96nXe7PACAsAwV1+7BAoVelBD6nMv7kgReQzUYlrizWaF0csDPv6mZvPxMF9cGVNmMoR2zpZ11qYM09wrsjCebaLEN0mi67AK/HR8px4Xu3TryH1aRFYaUJsbCg5vUbeaDA5UAeuFEZmNoOaaynTRPImSh9i0iM1oueSs4daZM/Tc2m1B7sKVx2UFlzzj8yADeJHgeFZ2XSfhBWClduP6moHWqzvoO7FzgGutP88/pvV283LO1b0PHT9VVRd5RuqU0B5OklwjdhSMQl61F38jFJfPRFOg41ltA84aJ+YG+HOcuN5OT81TbXTalfHOoT3epAmb2JDGeI7US22takc9vLMtPoonfUy+/oVDc8gbtv7wFXeIa59sH6iHume7Zjfft08ChEjIKFix+x1jhDEmub8DQSJiEqrUBTuKKfm3KdtY/jaerYBB706hTIv3SdYaLEolr8g0+q5UPDETjQINHioBjMPMrnPpPcycerj2rVW6TMVMtY5n2XQ+otAVNebVKsewaI+biPQIBtOsU4sknC6j9BGVrm29MLhgK0BrdDqIUD+fIuh1dkmzd9GPQiUOUPgKJKXNnDXKVBD3Bg+BMMBhmrg+kdMH6Xgl16fq5Aaql7mqdT5XjOesZ2BbU89pNvmI2t0ZNfwyTZ7uh9PHSfs3qnFLT+SDCmDwVTo3UdqVGmuV/26qc1HL9xhvSLxj7Jx7XweHjhw7dzsXu8SlLpPrWYEDJc0iCjTN1DIU1+HQV8Kgnf9s/ACOE/17ZLutbZYNM2BrocOwBdZ2QY8DndJIRObnmrpk0fM9OrTkR24OYFd9km6hwgyi0S9ypcwwHSdKlALITbagW67QYl3kzhtSWmZrA8wnvwRcl41rkbi+1mXxdxvo52qarSl+0raenPYqtDMuOvQ+TxdPdaaFjMNpOIiz3zPZXiaVbb02agJiSNBUJfLFXHAFujuGiUCAMQ6zZo7D+0bBMZ9oTDoxWIQM0lPjxb8mc64J5v3lHIV9IfdKBiSqC0RUhkOUMO3G/kPE/wygij+HL+GOEpr7Wt8FMmG9spw2XQPzuOFLTEdwixWdbUeHDAwpOLksKrXjAB9gPAIC2x+c5CHzPzNkr/engjNaWxovnjArMZ204T1SsFbVhQUfRcwbeDVpdi5LIhZdtyD9d3DoopZVzlKOTL99N98nhA//9z26Ye9nQp3P9vMMzxIwnJBjDoBa+6XwVSsXhAto3ega1zWuMrPdUUdWIbJEh+RBTdhosZVoffY7PjEkD4nnewHxW/p9H08ne2GaKA13SVM3U1Kb4x+q0LNxwP2ZYV6I6y7087tQV81ZHQaNb6i1rB9cVSeN51MT7qiF2bg1KEx/vT4onN1XpsjimFywhApl0SMvn6WL02m9CKNHYbqvjG/9r714539gNn2d/DhYt2MTzoDbRhcGF+pe+A2nMBK5nE4Y3zNbzzIX1sDlOA+8RntHUz9Fbk0QXRQlyiqCmHAybRQSMUCIg5HHJG+PuBJw7l7zzrWuRwmfGe7z+RRLvxPL4vM5u7F4nSayAmB2bgzqwrB4dDqC4Pak5zLoKDhSkAW8kAp0pYGCbXaNymPToUzPDOalmHEQ06nIeGypI0hS3wmcNHEbim3SWxyGCI1T+q7yUOi2/Q1ZVa0wjGjsHxxSKsBk1IzRcHVhWdk0jRg9CVzeNu8RfrL04cwJDVWX0tc4Fb1KpcGyu98K7IMTRlJw8qPoUYSvH2ghl9VWZacahDONpnR3uVwzx+DE0SUdzexOC2sQPPE/6ea7nuu7wQqsYOu1/gEc4JthCkfnUT8EIYYUXu+CXdyl3esYxBjT+Xzux90XuMALXa77qVt4hZ8ELShBC0vYe72/B3v4RpjAy6MsgGg8QnIchYDsWrYI86zqZK/w9D94cIk1o19CDf62WF3Njw/AClmukTlyHEJPI4/ZU1SpKA5ZtSDkj9Xmxrf77slMcJ5H4VzpDVspkDcnZLZ3GYvG1eYIMPqhqU3w70PG7xuOmK0y6Qjp1oGXQex3NK1z8GCwBW6tVK/1q2XGxIKWtIHhomxp4f6drLYjVOArM015a4eFiWVimVjOu6C/d1QMYMDEdkndT/5Bf24ipT8qcGEuzbfEI/lx5m40RKwQ/QNuYIHoOaRsdddaopk1oLvWG3Ukj5aII58LDjEvMCXma42N28CynPmophTwR7cElkGAOCauIRgJeVEULAuAEIth4skyy0w5+aLzXFE1E94dTslWUxOUDH8nwswIp5+eK1iAuPKmNYvhdUD9BqfmV81gWS5Nn6mSQPKKcXC9UHCH9q1aZuyF08kWUD8kb8r9dvsDCt8yIPnGcKXusjME8E0EOsa07F1Th5RD2E19harcvlo9lCuQFTjS6O3Zot0mLYv93W1ZRGHgM2r7VN/QwGwjQbonWZ92Gki3zfFyoNy3GwL9mjKl9dVtB/2fhW+dat+ggu0Xsh/EhI3B6ecb6C3t9hDHJdfITZ/YbhAmUn0S6M9mLCY+I0VZrMDU1Ae9Gk2WIq+u/6F/QPafnxJY/WB7J322ybtg2Oy7kvlGR4vWJ+qTqIM/g7dWdW++Crf3XVsoAVtiMR6tL9rlIs3nnnr1QqhKOI+5PO2bhy3WecI+7pgCLRmgl+93ueArpRw4c8oeILzNz+KzEi5+5+MnFcLAqADce6AxoTNXtczqEWgdRrjH6Q0eDF8Rzi8jcqCVsL+6yd+2tIwFcxGPfEq69cLC7FjwEQFXKTNHMXvKYBB6hmoOPsm/qJdlld4XE9E+cmgTTeH5cYJjXDcOscSSI9CdMtF+cmydhDPoEtPyZw8fwOGJ33ai+RNOUb+xvdkSsPOLFJwc/z3T0o7u0PBmZ7/dwlAJcCDvee+lwJF/FrLMf+MbHXz38QPdXOWfrhhH+3P+57ef6Xtxwfzo/xlA/QZX8/CzkIg5FVG8v4AKEI+F9/oXRZD1S4pEonr9sHZCJwhEENDxrJ00Lne56SqrMC7s2S7CcX29Cknx6x/gQboP2mR9zxDmr61h3gxUXr4Z18nTBu8120qpZ/R4SA0ngPisW2qmVTJC8KVeaBa43BFG6y8pJa7/2RE9FG9FhgmB6/T6kDtWAvc0FoHvfg48kHxOQcMt7WCNl/JeeOJWMbsDp6gbvK97/7JwpJyXpW0ef1lxJvvz1pc1B9KUE0tAsRcZDZ6PRKhhapR4bqJBe2nxQBAhTOyOJvMBGReSYV8fTJ82A0bVHXDigJMLAoef7FxFaWf9GKnigh+KKqH8GnVEV4lrXbqiwQi7GsxWUgni8cmpZHiRNLWzKDG0tY2IFxjHuxkr/okgD5QvmdRJ0qluAhQJYqC5Fbovg+GbLoOFyUDG7DNuJHHik0SLfJC35wsorOdaZvA35qjTxvfyucsq+vznkWQ+NPzGyWPs+BKbB583ebDhvvte5pE45IB9jT122WGbDdY3rLHKSuay19KGxeBLFlkM1V/gLtk0C9s1799OxXxRxQaz3pPMht1oppnKxDKZFBOMf95knAK/zTc/TdmA0ffnjK6DzbvTpG+/rOc2wGo3T7sx5nrMiNfw82qGw1Xe4KHTBgz60313i+kDCOgR3dcZ6q50tQy43RKdGzpytINo76e10XrV524FXM3ZLJrc4MbG2TS6NFjUUydqAdXUqk9H3FUpXUnFIKpATFEOqEyWFlEpwLFxFjefpThcpOIsbNpKYb+Cg68UkL//FAsusF15e1tpKvKKKiyRQ7bIuiAyk2Q4xBAZ8P/7kt6P3i9Nw5la1ExTSCaJRBLmxtwJmeI1nHEGsdOziY0XoxdNFJFEjK0mol/46EzC7Wg6YQpOKqGDI26KmpNSVOT+45AhpSI2n4UoCC0DboIZvvsreHBdT8F54bYrpG0rIR1CiiqYIALbthLoFeDm3zLg9jfxU3Jim7aCLebbOBtfNx89DGhQtbNB4a3nhSceuOvP417HDeQy15ppXHHZ4KzhdBII7LHDNpNN0XlsKlgXHsW6hFXBaTMTqxSWOhaYY4Zp9m1MxSRrNyZ1jOMZYQg8fM1rgD6i3LrsLv1qQHoHbT9j89x6NSBr18pCy0vnWlxavCHt3+aXxolIc9vsMr3UlwpvSHVLWSjyMSk+I3dQlvZJdltqovRYSbyQJBW7IjKQ6G9hsJXwEug+CRr+xbu4jCQDkRfBzyMuHG8Ifw32N+pEhF4cxIgTocnFvlhkINbf2LwYuk+Mi+4jDR9VNtEuBG8IGRBGjOANQgwpKYIAAkMEAPwnfiYfYnX617i1OlCbAAA=" },
+];
@@ -1,8 +1,11 @@
+import { escapeHtml } from "../text/escapeHtml";
+
 export function diagramToSvgString(diagram: any): string {
   if (!diagram) return "<!-- empty diagram -->";
 
   try {
-    if (typeof diagram.toSVG === "function") {
+    // Without a DOM (e.g. in a worker), the library writes the markup itself
+    if (typeof diagram.toSVG === "function" && typeof document !== "undefined") {
       const svg = diagram.toSVG();
       if (typeof svg === "string") return svg;
       // If it's an Element/Node, serialize it.
@@ -22,3 +25,41 @@ export function diagramToSvgString(diagram: any): string {
     return `<!-- Render error: ${e?.message ?? String(e)} -->`;
   }
 }
+
+interface SvgElementLike {
+  tagName: string;
+  attrs: Record<string, unknown>;
+  children: string | SvgElementLike[];
+}
+
+const SVG_NAME = /^[A-Za-z][\w:.-]*$/;
+
+function serializeEscaped(el: SvgElementLike): string {
+  if (!SVG_NAME.test(el.tagName)) throw new Error(`Invalid SVG element name: ${el.tagName}`);
+  let attrs = "";
+  for (const [name, value] of Object.entries(el.attrs)) {
+    if (!SVG_NAME.test(name)) throw new Error(`Invalid SVG attribute name: ${name}`);
+    attrs += ` ${name}="${escapeHtml(String(value))}"`;
+  }
+  const content =
+    typeof el.children === "string" ? escapeHtml(el.children) : el.children.map(serializeEscaped).join("");
+  return `<${el.tagName}${attrs}>${content}</${el.tagName}>`;
+}
+
+/**
+ * Serializes a diagram for HTML injection without trusting the library's
+ * own output: every text node and attribute value (terminal, nonterminal
+ * and comment text included) is escaped here, and element and attribute
+ * names must be plain identifiers. Use it for diagrams built from
+ * user-supplied grammars.
+ */
+export function diagramToEscapedSvgString(diagram: any): string {
+  if (!diagram) return "<!-- empty diagram -->";
+
+  try {
+    if (!diagram.formatted) diagram.format();
+    return serializeEscaped(diagram);
+  } catch (e: any) {
+    return `<!-- Render error: ${escapeHtml(e?.message ?? String(e))} -->`;
+  }
+}
@@ -0,0 +1,119 @@
+import { defaultCSS } from "@prantlf/railroad-diagrams/lib/index.mjs";
+import { DIAGRAM_FONT_FACES, DIAGRAM_FONT_FAMILY } from "./diagramFont";
+
+export type DiagramTheme = "light" | "dark";
+
+export interface StandaloneStyle {
+  theme?: DiagramTheme;
+  /** Line and box border width; the library default is 3. */
+  strokeWidth?: number;
+  /**
+   * Font stack for all text; should be monospace, boxes are sized for it.
+   * The embedded font is only used by the default stack.
+   */
+  fontFamily?: string;
+}
+
+interface ThemeColors {
+  background: string;
+  stroke: string;
+  boxFill: string;
+  text: string;
+}
+
+const THEMES: Record<DiagramTheme, ThemeColors> = {
+  light: { background: "hsl(30,20%,95%)", stroke: "black", boxFill: "hsl(120,100%,90%)", text: "black" },
+  dark: { background: "#1e1e1e", stroke: "#d4d4d4", boxFill: "#264d36", text: "#e0e0e0" },
+};
+
+const DEFAULT_FONT_FAMILY = `"${DIAGRAM_FONT_FAMILY}", Menlo, Consolas, "Liberation Mono", monospace`;
+
+function fontFaces(): string {
+  return DIAGRAM_FONT_FACES.map(
+    ({ style, weight, woff2 }) => `
+	@font-face {
+		font-family: "${DIAGRAM_FONT_FAMILY}";
+		font-style: ${style};
+		font-weight: ${weight};
+		src: url(data:font/woff2;base64,${woff2}) format("woff2");
+	}`
+  ).join("");
+}
+
+/**
+ * Stylesheet embedded in exported SVGs: the library's default look with
+ * the theme's colors (independent of the page theme) and a monospace font,
+ * so the text fits the boxes in other viewers too. With the default stack
+ * the font is embedded (diagramFont.ts, ASCII only); other characters fall
+ * back to the viewer's monospace font, whose metrics may differ slightly.
+ */
+export function standaloneCss(style: StandaloneStyle = {}): string {
+  const colors = THEMES[style.theme ?? "light"];
+  const strokeWidth = style.strokeWidth ?? 3;
+  return `${defaultCSS}${style.fontFamily === undefined ? fontFaces() : ""}
+	svg {
+		background-color: ${colors.background};
+	}
+	path, rect {
+		stroke: ${colors.stroke};
+		stroke-width: ${strokeWidth};
+	}
+	rect {
+		fill: ${colors.boxFill};
+	}
+	rect.group-box {
+		stroke: gray;
+	}
+	text {
+		font-family: ${style.fontFamily ?? DEFAULT_FONT_FAMILY};
+		fill: ${colors.text};
+	}`;
+}
+
+/** Background color of a theme, e.g. to fill a raster export. */
+export function themeBackground(theme: DiagramTheme = "light"): string {
+  return THEMES[theme].background;
+}
+
+/**
+ * Serializes a railroad Diagram as a self-contained SVG document that
+ * renders the same outside the page (no dependency on styles.css).
+ * Works without a DOM.
+ */
+export function diagramToStandaloneSvg(diagram: any, style: StandaloneStyle = {}): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${diagram.toStandalone(standaloneCss(style))}`;
+}
+
+/** Rasterizes a standalone SVG document; `scale` multiplies its size. */
+export function svgToPngBlob(svg: string, scale: number, background = themeBackground()): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(image.naturalWidth * scale);
+      canvas.height = Math.ceil(image.naturalHeight * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas 2D context is not available"));
+        return;
+      }
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+    };
+    image.onerror = () => reject(new Error("SVG could not be loaded as an image"));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+/** Saves a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,15 @@
+/**
+ * Returns the rule name under a DOM event target: either an element
+ * carrying `data-rule` (e.g. a name in EBNF text) or a NonTerminal box of
+ * a railroad diagram (`<g class="non-terminal">`).
+ */
+export function ruleNameAt(target: EventTarget | null): string | undefined {
+  if (!(target instanceof Element)) return undefined;
+
+  const link = target.closest<HTMLElement>("[data-rule]");
+  if (link) return link.dataset.rule;
+
+  const box = target.closest("g.non-terminal");
+  const text = box?.querySelector("text")?.textContent;
+  return text ?? undefined;
+}
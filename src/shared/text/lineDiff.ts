@@ -0,0 +1,37 @@
+export type LineChange = "same" | "added" | "removed";
+
+export interface DiffLine {
+  change: LineChange;
+  text: string;
+}
+
+/**
+ * Line-level diff of two texts (longest common subsequence).
+ * Removed lines are listed before the added lines that replace them.
+ * An empty text has no lines.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      out.push({ change: "same", text: a[i++] });
+      j++;
+    } else if (j >= b.length || (i < a.length && table[i + 1][j] >= table[i][j + 1])) {
+      out.push({ change: "removed", text: a[i++] });
+    } else {
+      out.push({ change: "added", text: b[j++] });
+    }
+  }
+  return out;
+}
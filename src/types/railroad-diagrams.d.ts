@@ -9,4 +9,9 @@ declare module "@prantlf/railroad-diagrams/lib/index.mjs" {
   export const NonTerminal: any;
   export const Stack: any;
   export const Comment: any;
+  export const Skip: any;
+  export const Start: any;
+  export const End: any;
+  /** Stylesheet embedded by Diagram#toStandalone() when none is given. */
+  export const defaultCSS: string;
 }
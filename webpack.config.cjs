@@ -1,6 +1,53 @@
 // webpack.config.cjs
 const path = require("path");
+const { createHash } = require("crypto");
 const HtmlWebpackPlugin = require("html-webpack-plugin");
+const tsx = require("tsx/cjs/api");
+
+const PRERENDER = "PrerenderDiagramsPlugin";
+
+/**
+ * Renders every rule diagram at build time (src/features/diagrams/prerender.ts):
+ * fills index.html's empty root element with the static page, which holds
+ * the default version's diagrams, and emits one manifest for every other
+ * Java version. The page's version and the manifest URLs reach the app
+ * through DefinePlugin (__PRERENDERED_DIAGRAMS__).
+ */
+class PrerenderDiagramsPlugin {
+  constructor(publicPath) {
+    const { prerender } = tsx.require("./src/features/diagrams/prerender.ts", __filename);
+    const { manifests, pageVersion, page } = prerender();
+    this.page = page;
+    this.assets = Object.entries(manifests).map(([version, json]) => {
+      const hash = createHash("sha256").update(json).digest("hex").slice(0, 20);
+      return { version, file: `assets/diagrams-${version}.${hash}.json`, json };
+    });
+    this.define = {
+      pageVersion,
+      manifests: Object.fromEntries(this.assets.map((a) => [a.version, publicPath + a.file])),
+    };
+  }
+
+  apply(compiler) {
+    const { Compilation, DefinePlugin, sources } = compiler.webpack;
+    new DefinePlugin({ __PRERENDERED_DIAGRAMS__: JSON.stringify(this.define) }).apply(compiler);
+
+    compiler.hooks.thisCompilation.tap(PRERENDER, (compilation) => {
+      compilation.hooks.processAssets.tap({ name: PRERENDER, stage: Compilation.PROCESS_ASSETS_STAGE_ADDITIONAL }, () => {
+        for (const { file, json } of this.assets) {
+          compilation.emitAsset(file, new sources.RawSource(json), { immutable: true });
+        }
+      });
+
+      HtmlWebpackPlugin.getHooks(compilation).beforeEmit.tap(PRERENDER, (data) => {
+        const root = '<div id="root"></div>';
+        if (!data.html.includes(root)) throw new Error(`${PRERENDER}: index.html has no empty ${root}`);
+        data.html = data.html.replace(root, () => `<div id="root">${this.page}</div>`);
+        return data;
+      });
+    });
+  }
+}
 
 module.exports = (env, argv) => {
   const isProd = argv.mode === "production";
@@ -47,7 +94,9 @@ module.exports = (env, argv) => {
       new HtmlWebpackPlugin({
         template: path.resolve(__dirname, "index.html"),
         publicPath
-      })
+      }),
+      // Development builds render in the browser, so grammar edits show up
+      ...(isProd ? [new PrerenderDiagramsPlugin(publicPath)] : [])
     ],
 
     devtool: isProd ? "source-map" : "eval-cheap-module-source-map",